@@ -2,6 +2,7 @@
 
 import { parseArgs } from 'node:util'
 import fs from 'node:fs'
+import http from 'node:http'
 import path from 'node:path'
 import zlib from 'node:zlib'
 
@@ -15,16 +16,54 @@ const { values: args, positionals } = parseArgs({
       type: 'string',
       short: 'o'
     },
+    'out-dir': {
+      type: 'string',
+      short: 'd'
+    },
     title: {
       type: 'string',
       short: 't'
     },
+    theme: {
+      type: 'string'
+    },
     'primary-color': {
       type: 'string'
     },
     'secondary-color': {
       type: 'string'
     },
+    'sample-type': {
+      type: 'string'
+    },
+    'sample-unit': {
+      type: 'string'
+    },
+    port: {
+      type: 'string',
+      short: 'p'
+    },
+    top: {
+      type: 'string',
+      short: 'n'
+    },
+    format: {
+      type: 'string',
+      short: 'f'
+    },
+    sort: {
+      type: 'string'
+    },
+    'app-code-only': {
+      type: 'boolean'
+    },
+    budget: {
+      type: 'string',
+      short: 'b'
+    },
+    host: {
+      type: 'string'
+    },
     help: {
       type: 'boolean',
       short: 'h'
@@ -35,114 +74,625 @@ const { values: args, positionals } = parseArgs({
 
 if (args.help || positionals.length === 0) {
   console.log(`
-Usage: node cli.js [options] <pprof-file>
+Usage: node cli.js [options] <profile...>
+       node cli.js serve [options] <directory>
+       node cli.js report [options] <profile>
+       node cli.js check --budget <budgets.json> [options] <profile>
+
+Accepts pprof files (plain or gzipped), V8 JSON profiles (.cpuprofile, .heapprofile)
+and folded stacks (one "frame;frame;frame value" line per stack).
+
+Each input is a file, a directory (every profile in it), a glob pattern such as
+"profiles/*.pb.gz" or - to read a profile from stdin. One HTML file is written per
+profile; with several profiles an index.html page shows them in tabs.
+
+The serve command starts a local server that lists the profiles of a directory,
+renders any of them and reloads open pages when a profile changes. The report
+command prints the top functions of a profile by self and total value, and the
+check command exits with 1 when a profile exceeds a budget.
 
 Options:
-  -o, --output <file>         Output HTML file (default: <pprof-file>.html)
-  -t, --title <title>         Title for the generated flamegraph (default: filename)
-  --primary-color <color>     Primary color in hex format (default: #ff4444)
-  --secondary-color <color>   Secondary color in hex format (default: #ffcc66)
+  -o, --output <file>         Output HTML file, for a single profile (default: <profile>.html)
+  -d, --out-dir <dir>         Directory for the HTML files, created if needed (default: .)
+  -t, --title <title>         Title of the flamegraph, or of the index page for several profiles (default: filename)
+  --theme <theme>             Theme of the pages, dark, light or high-contrast (default: dark)
+  --primary-color <color>     Primary color in hex format (default: from the theme, #ff4444 in dark)
+  --secondary-color <color>   Secondary color in hex format (default: from the theme, #ffcc66 in dark)
+  --sample-type <type>        Sample type of folded stack values, e.g. cpu (default: samples)
+  --sample-unit <unit>        Unit of folded stack values, e.g. nanoseconds (default: count)
+  -p, --port <port>           Port of the serve command (default: 8080)
+  --host <host>               Host the serve command listens on (default: 127.0.0.1)
+  -n, --top <count>           Functions listed by the report command (default: 20)
+  -f, --format <format>       Report and check output, text or json (default: text)
+  --sort <order>              Report order, self or total (default: self)
+  --app-code-only             Leave node_modules and Node.js internals out of reports and checks
+  -b, --budget <file>         Budgets JSON file of the check command
   -h, --help                  Show this help message
 
 Examples:
   node cli.js profile.pb.gz
   node cli.js -o flamegraph.html profile.pb.gz
   node cli.js -t "My App CPU Profile" profile.pb.gz
+  node cli.js CPU.20240101.123456.1234.0.001.cpuprofile
+  node cli.js --sample-type cpu --sample-unit nanoseconds stacks.folded
   node cli.js --primary-color "#4444ff" --secondary-color "#cc66ff" heap-profile.pb.gz
+  node cli.js --theme light profile.pb.gz
+  node cli.js --out-dir reports ./profiles "load-test/*.pb.gz"
+  curl -s http://localhost:3000/profile | node cli.js -o flamegraph.html -
+  node cli.js serve ./profiles --port 8080
+  node cli.js report profile.pb.gz --top 20 --format json
+  node cli.js check profile.pb.gz --budget budgets.json
 `)
   process.exit(0)
 }
 
-const pprofFile = positionals[0]
-const outputFile = args.output || `${path.basename(pprofFile, path.extname(pprofFile))}.html`
-const title = args.title || path.basename(pprofFile)
-const primaryColor = args['primary-color'] || '#ff4444'
-const secondaryColor = args['secondary-color'] || '#ffcc66'
+// Extensions of the files picked up from directories and glob patterns
+const PROFILE_EXTENSIONS = ['.pb', '.pprof', '.gz', '.cpuprofile', '.heapprofile', '.folded', '.collapsed']
+const STDIN = '-'
+// Milliseconds to wait for more changes before reloading pages of the serve command
+const LIVE_RELOAD_DELAY = 100
+
+const theme = args.theme || 'dark'
+const primaryColor = args['primary-color'] || undefined
+const secondaryColor = args['secondary-color'] || undefined
+const outDir = args['out-dir'] || '.'
+const [command] = positionals
 
-// Validate pprof file exists
-if (!fs.existsSync(pprofFile)) {
-  console.error(`Error: File '${pprofFile}' not found`)
+if (!['dark', 'light', 'high-contrast'].includes(theme)) {
+  console.error(`Error: Unknown theme '${theme}', use dark, light or high-contrast`)
   process.exit(1)
 }
 
-// Check if CLI template and bundle exist
-const templatePath = path.join(__dirname, 'cli-build', 'template.html')
-const bundlePath = path.join(__dirname, 'cli-build', 'flamegraph.js')
+// HTML template and bundle of the pages, read by loadTemplate
+let htmlTemplate
+let bundle
 
-if (!fs.existsSync(templatePath)) {
-  console.error(`Error: CLI template not found. Run 'npm run build:cli' first.`)
-  process.exit(1)
+const { isFoldedStacks } = await import('./dist/converters.js')
+const { generateEmbeddableFlameGraph, getFlamegraphBundle } = await import('./dist/embeddable.js')
+const { parseProfile } = await import('./dist/parser.js')
+const { createProfileReport, formatProfileReport } = await import('./dist/report.js')
+const { checkBudgets, formatBudgetReport } = await import('./dist/budgets.js')
+
+if (command === 'serve') {
+  loadTemplate()
+  await serve(positionals.slice(1))
+} else if (command === 'report') {
+  await report(positionals.slice(1))
+} else if (command === 'check') {
+  await check(positionals.slice(1))
+} else {
+  loadTemplate()
+  await generate(positionals)
 }
 
-if (!fs.existsSync(bundlePath)) {
-  console.error(`Error: CLI bundle not found. Run 'npm run build:cli' first.`)
-  process.exit(1)
+function loadTemplate() {
+  // Check if CLI template and bundle exist
+  const templatePath = path.join(__dirname, 'cli-build', 'template.html')
+  const bundlePath = path.join(__dirname, 'cli-build', 'flamegraph.js')
+
+  if (!fs.existsSync(templatePath)) {
+    console.error(`Error: CLI template not found. Run 'npm run build:cli' first.`)
+    process.exit(1)
+  }
+
+  if (!fs.existsSync(bundlePath)) {
+    console.error(`Error: CLI bundle not found. Run 'npm run build:cli' first.`)
+    process.exit(1)
+  }
+
+  // Read the HTML template
+  try {
+    htmlTemplate = fs.readFileSync(templatePath, 'utf8')
+  } catch (error) {
+    console.error(`Error reading template: ${error.message}`)
+    process.exit(1)
+  }
+
+  // Read the bundle
+  try {
+    bundle = fs.readFileSync(bundlePath, 'utf8')
+  } catch (error) {
+    console.error(`Error reading bundle: ${error.message}`)
+    process.exit(1)
+  }
 }
 
-// Read the pprof file
-let profileData
-try {
-  const rawData = fs.readFileSync(pprofFile)
-  console.log(`Loaded pprof file: ${pprofFile} (${rawData.length} bytes)`)
+/**
+ * Write one HTML page per profile, and an index page when there are several
+ * A failing profile does not stop the others, but makes the CLI exit with 1.
+ */
+async function generate(patterns) {
+  let inputs
+  try {
+    inputs = expandInputs(patterns)
+  } catch (error) {
+    console.error(`Error: ${error.message}`)
+    process.exit(1)
+  }
 
-  // Check if the file is gzipped (common with @datadog/pprof output)
-  const isGzipped = rawData[0] === 0x1f && rawData[1] === 0x8b
+  if (args.output && inputs.length > 1) {
+    console.error(`Error: --output can only be used with a single profile, use --out-dir for ${inputs.length} profiles`)
+    process.exit(1)
+  }
 
-  if (isGzipped) {
-    console.log('File appears to be gzipped, decompressing...')
-    profileData = zlib.gunzipSync(rawData)
-    console.log(`Decompressed to ${profileData.length} bytes`)
-  } else {
-    console.log('File appears to be uncompressed')
-    profileData = rawData
+  fs.mkdirSync(outDir, { recursive: true })
+
+  const pages = []
+  const usedOutputs = new Set()
+  for (const input of inputs) {
+    const name = input === STDIN ? 'stdin' : path.basename(input)
+    const outputFile = args.output || getOutputFile(name, usedOutputs)
+    const title = inputs.length === 1 && args.title ? args.title : name
+
+    try {
+      const profileData = await readProfile(input)
+      await writeFlameGraph(profileData, { title, filename: name, outputFile })
+      pages.push({ name, outputFile })
+    } catch (error) {
+      console.error(`Error: ${inputs.length > 1 ? `${name}: ` : ''}${error.message}`)
+    }
+  }
+
+  if (inputs.length > 1 && pages.length > 0) {
+    const indexFile = getOutputFile('index', usedOutputs)
+    fs.writeFileSync(indexFile, renderIndexPage(args.title || 'Flame graphs', pages, path.dirname(indexFile)))
+    console.log(`Generated index of ${pages.length} flame graphs: ${indexFile}`)
+  }
+
+  if (pages.length < inputs.length) {
+    if (inputs.length > 1) {
+      console.error(`Error: ${inputs.length - pages.length} of ${inputs.length} profiles failed`)
+    }
+    process.exit(1)
   }
-} catch (error) {
-  console.error(`Error reading or decompressing pprof file: ${error.message}`)
-  process.exit(1)
 }
 
-// Read the HTML template
-let htmlTemplate
-try {
-  htmlTemplate = fs.readFileSync(templatePath, 'utf8')
-} catch (error) {
-  console.error(`Error reading template: ${error.message}`)
-  process.exit(1)
+/**
+ * Serve the profiles of a directory until the process is stopped
+ * Pages are rendered on request, so they always show the current files, and
+ * open pages reload through server-sent events when a profile changes.
+ */
+async function serve(directories) {
+  const [directory] = directories
+  if (!directory || directories.length > 1) {
+    console.error('Error: serve takes exactly one directory')
+    process.exit(1)
+  }
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    console.error(`Error: Directory '${directory}' not found`)
+    process.exit(1)
+  }
+
+  const port = Number(args.port ?? 8080)
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Error: Invalid port '${args.port}'`)
+    process.exit(1)
+  }
+  const host = args.host || '127.0.0.1'
+
+  // Clients of /events, notified with the name of each changed profile
+  const clients = new Set()
+  const pendingChanges = new Set()
+  let notifyTimer = null
+
+  // Editors and profilers write files in several steps, so changes are batched
+  fs.watch(directory, (eventType, fileName) => {
+    if (!fileName || !isProfileFile(fileName)) {return}
+
+    pendingChanges.add(fileName)
+    clearTimeout(notifyTimer)
+    notifyTimer = setTimeout(() => {
+      for (const changed of pendingChanges) {
+        console.log(`Profile changed: ${changed}`)
+        for (const client of clients) {
+          client.write(`event: change\ndata: ${JSON.stringify(changed)}\n\n`)
+        }
+      }
+      pendingChanges.clear()
+    }, LIVE_RELOAD_DELAY)
+  })
+
+  const server = http.createServer(async (request, response) => {
+    const { pathname } = new URL(request.url, 'http://localhost')
+
+    try {
+      if (pathname === '/') {
+        sendHtml(response, 200, renderDirectoryPage(directory))
+      } else if (pathname === '/events') {
+        response.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive'
+        })
+        response.write(': connected\n\n')
+        clients.add(response)
+        request.on('close', () => clients.delete(response))
+      } else if (pathname.startsWith('/view/')) {
+        // Only names listed in the directory are served, so paths cannot escape it
+        const name = decodeURIComponent(pathname.slice('/view/'.length))
+        const file = listProfiles(directory, null).find(profile => path.basename(profile) === name)
+        if (!file) {
+          sendHtml(response, 404, renderMessagePage('Not found', `No profile named ${name}`))
+          return
+        }
+        const profileData = await readProfile(file)
+        sendHtml(response, 200, await renderFlameGraphPage(profileData, {
+          title: name,
+          filename: name,
+          header: '<nav style="padding: 8px 16px;"><a href="/" style="color: inherit;">&larr; All profiles</a></nav>',
+          script: getLiveReloadScript(name),
+          bundleUrl: '/bundle.js'
+        }))
+      } else if (pathname === '/bundle.js') {
+        const { bundle: flamegraphBundle } = await getFlamegraphBundle()
+        response.writeHead(200, { 'Content-Type': 'text/javascript; charset=utf-8' })
+        response.end(flamegraphBundle)
+      } else {
+        sendHtml(response, 404, renderMessagePage('Not found', `Nothing at ${pathname}`))
+      }
+    } catch (error) {
+      console.error(`Error: ${pathname}: ${error.message}`)
+      sendHtml(response, 500, renderMessagePage('Error', error.message))
+    }
+  })
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, resolve)
+  }).catch(error => {
+    console.error(`Error: Cannot listen on ${host}:${port}: ${error.message}`)
+    process.exit(1)
+  })
+
+  const address = server.address()
+  console.log(`Serving profiles from ${path.resolve(directory)} at http://${host}:${address.port}`)
 }
 
-// Read the bundle
-let bundle
-try {
-  bundle = fs.readFileSync(bundlePath, 'utf8')
-} catch (error) {
-  console.error(`Error reading bundle: ${error.message}`)
-  process.exit(1)
+/**
+ * Print the top functions of a profile as a table or as JSON
+ * Only the report goes to stdout, so the JSON output can be piped.
+ */
+async function report(inputs) {
+  if (inputs.length !== 1) {
+    console.error('Error: report takes exactly one profile')
+    process.exit(1)
+  }
+
+  const format = args.format || 'text'
+  const sortBy = args.sort || 'self'
+  const top = Number(args.top ?? 20)
+  if (!['text', 'json'].includes(format)) {
+    console.error(`Error: Unknown report format '${format}', use text or json`)
+    process.exit(1)
+  }
+  if (!['self', 'total'].includes(sortBy)) {
+    console.error(`Error: Unknown sort order '${sortBy}', use self or total`)
+    process.exit(1)
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    console.error(`Error: --top must be a positive integer, got '${args.top}'`)
+    process.exit(1)
+  }
+
+  let profile
+  try {
+    profile = await parseProfile(await readInput(inputs[0]), {
+      folded: { sampleType: args['sample-type'], unit: args['sample-unit'] }
+    })
+  } catch (error) {
+    console.error(`Error: ${error.message}`)
+    process.exit(1)
+  }
+
+  const profileReport = createProfileReport(profile, { top, sortBy, showAppCodeOnly: args['app-code-only'] })
+  process.stdout.write(format === 'json' ? `${JSON.stringify(profileReport, null, 2)}\n` : formatProfileReport(profileReport))
 }
 
-// Use the embeddable function to generate the flamegraph
-try {
-  const { generateEmbeddableFlameGraph } = await import('./dist/embeddable.js')
+/**
+ * Check a profile against the budgets of a JSON file, exiting with 1 when one is exceeded
+ * The file holds an array of budgets, or an object with a budgets array.
+ */
+async function check(inputs) {
+  if (inputs.length !== 1) {
+    console.error('Error: check takes exactly one profile')
+    process.exit(1)
+  }
+  if (!args.budget) {
+    console.error('Error: check needs a budgets file, pass it with --budget')
+    process.exit(1)
+  }
+
+  const format = args.format || 'text'
+  if (!['text', 'json'].includes(format)) {
+    console.error(`Error: Unknown check format '${format}', use text or json`)
+    process.exit(1)
+  }
+
+  let result
+  try {
+    const config = JSON.parse(fs.readFileSync(args.budget, 'utf8'))
+    const budgets = Array.isArray(config) ? config : config.budgets
+    if (!Array.isArray(budgets)) {
+      throw new Error(`${args.budget} must hold an array of budgets or an object with a budgets array`)
+    }
+
+    const profile = await parseProfile(await readInput(inputs[0]), {
+      folded: { sampleType: args['sample-type'], unit: args['sample-unit'] }
+    })
+    result = checkBudgets(profile, budgets, { showAppCodeOnly: args['app-code-only'] })
+  } catch (error) {
+    console.error(`Error: ${error.message}`)
+    process.exit(1)
+  }
+
+  process.stdout.write(format === 'json' ? `${JSON.stringify(result, null, 2)}\n` : formatBudgetReport(result))
+  if (!result.passed) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Resolve the command line inputs to profile paths
+ * Directories yield the profiles directly inside them and glob patterns the
+ * profiles matching their last path segment; files are taken as they are.
+ */
+function expandInputs(patterns) {
+  const inputs = []
+  for (const pattern of patterns) {
+    if (pattern === STDIN) {
+      if (inputs.includes(STDIN)) {
+        throw new Error('stdin (-) can only be read once')
+      }
+      inputs.push(STDIN)
+      continue
+    }
+
+    if (/[*?]/.test(path.basename(pattern))) {
+      const matches = listProfiles(path.dirname(pattern), toRegExp(path.basename(pattern)))
+      if (matches.length === 0) {
+        throw new Error(`No profiles match '${pattern}'`)
+      }
+      inputs.push(...matches)
+      continue
+    }
+
+    if (!fs.existsSync(pattern)) {
+      throw new Error(`File '${pattern}' not found`)
+    }
+
+    if (fs.statSync(pattern).isDirectory()) {
+      const profiles = listProfiles(pattern, null)
+      if (profiles.length === 0) {
+        throw new Error(`No profiles found in directory '${pattern}'`)
+      }
+      inputs.push(...profiles)
+    } else {
+      inputs.push(pattern)
+    }
+  }
+  return inputs
+}
+
+function listProfiles(directory, filter) {
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    return []
+  }
+  return fs.readdirSync(directory, { withFileTypes: true })
+    .filter(entry => entry.isFile() && (filter ? filter.test(entry.name) : isProfileFile(entry.name)))
+    .map(entry => path.join(directory, entry.name))
+    .sort()
+}
+
+function isProfileFile(name) {
+  return PROFILE_EXTENSIONS.some(extension => name.endsWith(extension))
+}
+
+function toRegExp(glob) {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${source}$`)
+}
+
+// Names outputs after their profile without its last extension, e.g. profile.pb.gz -> profile.pb.html
+function getOutputFile(name, usedOutputs) {
+  const base = path.join(outDir, path.basename(name, path.extname(name)))
+  let outputFile = `${base}.html`
+  for (let i = 2; usedOutputs.has(outputFile); i++) {
+    outputFile = `${base}-${i}.html`
+  }
+  usedOutputs.add(outputFile)
+  return outputFile
+}
+
+async function readInput(input) {
+  if (input !== STDIN) {
+    if (!fs.existsSync(input)) {
+      throw new Error(`File '${input}' not found`)
+    }
+    return fs.readFileSync(input)
+  }
+
+  const chunks = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function readProfile(input) {
+  const rawData = await readInput(input)
+  console.log(input === STDIN
+    ? `Loaded profile from stdin (${rawData.length} bytes)`
+    : `Loaded pprof file: ${input} (${rawData.length} bytes)`)
+
+  let profileData
+  try {
+    // Check if the file is gzipped (common with @datadog/pprof output)
+    const isGzipped = rawData[0] === 0x1f && rawData[1] === 0x8b
+
+    if (isGzipped) {
+      console.log('File appears to be gzipped, decompressing...')
+      profileData = zlib.gunzipSync(rawData)
+      console.log(`Decompressed to ${profileData.length} bytes`)
+    } else {
+      console.log('File appears to be uncompressed')
+      profileData = rawData
+    }
+  } catch (error) {
+    throw new Error(`Failed to decompress ${input === STDIN ? 'stdin' : input}: ${error.message}`)
+  }
+
+  // Text profiles are converted to pprof by generateEmbeddableFlameGraph
+  if (profileData[0] === 0x7b) {
+    console.log('File appears to be a V8 JSON profile, converting to pprof...')
+  } else if (profileData[0] >= 0x20 && isFoldedStacks(profileData.toString('utf8'))) {
+    console.log('File appears to contain folded stacks, converting to pprof...')
+  }
+
+  return profileData
+}
+
+async function writeFlameGraph(profileData, { title, filename, outputFile }) {
+  const finalHTML = await renderFlameGraphPage(profileData, { title, filename })
+
+  // Write the final HTML file
+  fs.writeFileSync(outputFile, finalHTML)
+  console.log(`Generated HTML output: ${outputFile}`)
+  console.log(`Profile data embedded: ${profileData.length} bytes`)
+  console.log(`Open ${outputFile} in a web browser to view the flame graph`)
+}
+
+// bundleUrl loads the bundle from the server instead of inlining it in every page
+async function renderFlameGraphPage(profileData, { title, filename, header = '', script: extraScript = '', bundleUrl }) {
+  // Use the embeddable function to generate the flamegraph
   const { html, script } = await generateEmbeddableFlameGraph(profileData, {
     title,
-    filename: path.basename(pprofFile),
+    filename,
+    theme,
     primaryColor,
-    secondaryColor
+    secondaryColor,
+    folded: {
+      sampleType: args['sample-type'],
+      unit: args['sample-unit']
+    }
   })
 
   // Build final HTML by replacing placeholders
   // Use replacer functions to avoid special replacement patterns ($&, $`, etc.) in content
-  const finalHTML = htmlTemplate
-    .replace('{{TITLE}}', () => title)
-    .replace('{{CONTENT}}', () => html)
-    .replace('{{BUNDLE}}', () => bundle)
-    .replace('{{RENDER_SCRIPT}}', () => script)
+  return htmlTemplate
+    .replace('{{TITLE}}', () => escapeHtml(title))
+    .replace('{{CONTENT}}', () => header + (bundleUrl ? `<script src="${bundleUrl}"></script>` : '') + html)
+    .replace('{{BUNDLE}}', () => bundleUrl ? '' : bundle)
+    .replace('{{RENDER_SCRIPT}}', () => script + extraScript)
+}
 
-  // Write the final HTML file
-  fs.writeFileSync(outputFile, finalHTML)
-  console.log(`Generated HTML output: ${outputFile}`)
-  console.log(`Profile data embedded: ${profileData.length} bytes`)
-  console.log(`Open ${outputFile} in a web browser to view the flame graph`)
-} catch (error) {
-  console.error(`Error: ${error.message}`)
-  process.exit(1)
+// The serve command lists the profiles of its directory with links to their flame graphs
+function renderDirectoryPage(directory) {
+  const profiles = listProfiles(directory, null)
+  const rows = profiles.map(file => {
+    const name = path.basename(file)
+    const { size, mtime } = fs.statSync(file)
+    return `<li><a href="/view/${encodeURIComponent(name)}">${escapeHtml(name)}</a> <span>${size} bytes, modified ${mtime.toLocaleString()}</span></li>`
+  })
+
+  const body = rows.length > 0
+    ? `<ul>${rows.join('\n')}</ul>`
+    : '<p>No profiles yet. Pages reload when one is added.</p>'
+  return renderMessagePage(`Profiles in ${path.resolve(directory)}`, body, getLiveReloadScript(null), false)
+}
+
+function renderMessagePage(title, body, script = '', escapeBody = true) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { margin: 0; padding: 16px 24px; background-color: #1e1e1e; color: #ffffff; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; }
+    a { color: inherit; }
+    li { padding: 4px 0; }
+    span { color: #ffffff99; font-size: 0.9em; margin-left: 8px; }
+  </style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${escapeBody ? `<p>${escapeHtml(body)}</p>` : body}
+<script>${script}</script>
+</body>
+</html>
+`
+}
+
+// Reloads the page when the given profile changes, or when any profile changes for null
+function getLiveReloadScript(name) {
+  const condition = name === null ? 'true' : `event.data === ${JSON.stringify(JSON.stringify(name)).replace(/</g, '\\u003c')}`
+  return `
+new EventSource('/events').addEventListener('change', function (event) {
+  if (${condition}) { location.reload(); }
+});
+`
+}
+
+function sendHtml(response, status, html) {
+  response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' })
+  response.end(html)
+}
+
+// A page with one tab per flame graph, each shown in an iframe
+function renderIndexPage(title, pages, indexDir) {
+  const tabs = pages.map(({ name, outputFile }, i) => {
+    const href = escapeHtml(getRelativeUrl(indexDir, outputFile))
+    return `<button class="tab" data-src="${href}"${i === 0 ? ' aria-selected="true"' : ''}>${escapeHtml(name)}</button>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { margin: 0; padding: 0; height: 100%; }
+    body {
+      display: flex;
+      flex-direction: column;
+      background-color: #1e1e1e;
+      color: #ffffff;
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+    }
+    nav { display: flex; flex-wrap: wrap; gap: 4px; padding: 8px; border-bottom: 1px solid #ffffff40; }
+    .tab { background: transparent; color: inherit; border: 1px solid #ffffff40; border-radius: 2px; padding: 4px 8px; font: inherit; cursor: pointer; }
+    .tab[aria-selected="true"] { background: #ffffff20; border-color: #ffffff; }
+    iframe { flex: 1; width: 100%; border: none; }
+  </style>
+</head>
+<body>
+<nav role="tablist">
+${tabs.join('\n')}
+</nav>
+<iframe title="Flame graph" src="${escapeHtml(getRelativeUrl(indexDir, pages[0].outputFile))}"></iframe>
+<script>
+  const frame = document.querySelector('iframe')
+  for (const tab of document.querySelectorAll('.tab')) {
+    tab.setAttribute('role', 'tab')
+    tab.addEventListener('click', () => {
+      document.querySelector('.tab[aria-selected="true"]')?.removeAttribute('aria-selected')
+      tab.setAttribute('aria-selected', 'true')
+      frame.src = tab.dataset.src
+    })
+  }
+</script>
+</body>
+</html>
+`
+}
+
+// File names may hold characters with a meaning in URLs, such as '#' and '?'
+function getRelativeUrl(fromDir, file) {
+  return path.relative(fromDir, file).split(path.sep).map(encodeURIComponent).join('/')
+}
+
+function escapeHtml(text) {
+  return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
 }
@@ -0,0 +1,260 @@
+// Performance budgets: limits on the self and total value of functions or files, checked in CI
+import { Profile } from 'pprof-format'
+import { FlameDataProcessor, FlameNode } from './renderer/FlameDataProcessor.js'
+import { ProfileMetadata, ProfileType, SpaceUnit, TimeUnit } from './renderer/ProfileMetadata.js'
+import { formatPercentage, formatValue } from './renderer/formatters.js'
+
+/**
+ * A limit on the frames matching a function name and/or file pattern
+ * Patterns are globs where * matches any characters, including '/', and must
+ * match the whole name; patterns written as /regexp/flags are searched instead.
+ * Limits are percentages of the profile ("5%"), values with a unit of the
+ * profile type ("50ms", "20MB") or plain numbers in the profile's own unit.
+ */
+export interface Budget {
+  name?: string  // Shown in the output instead of the patterns
+  function?: string
+  file?: string
+  maxSelf?: string | number
+  maxTotal?: string | number
+}
+
+export interface BudgetCheckOptions {
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  maxStacks?: number  // Heaviest stacks listed per violation (default: 3)
+}
+
+export interface BudgetViolation {
+  metric: 'self' | 'total'
+  value: number
+  limit: number
+  stacks: Array<{ frames: string[], value: number }>  // The heaviest matching stacks, from the outermost frame
+}
+
+export interface BudgetResult {
+  budget: Budget
+  label: string
+  selfValue: number  // Self values of all matching frames
+  totalValue: number  // Values of the matching frames, without counting nested matches twice
+  violations: BudgetViolation[]
+}
+
+export interface BudgetCheckResult {
+  profileMetadata: ProfileMetadata
+  totalValue: number
+  passed: boolean
+  results: BudgetResult[]
+}
+
+// Budget values are a number followed by a unit or a percent sign
+const BUDGET_VALUE = /^(\d+(?:\.\d+)?)\s*([a-zA-Zµ%]*)$/
+
+const TIME_UNITS_IN_NANOSECONDS: Record<string, number> = {
+  ns: 1,
+  us: 1e3,
+  µs: 1e3,
+  ms: 1e6,
+  s: 1e9,
+  m: 60e9
+}
+
+// Powers of 1024, like formatSpace
+const SPACE_UNITS_IN_BYTES: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3
+}
+
+const PROFILE_TIME_UNITS: Record<TimeUnit, number> = {
+  [TimeUnit.NANOSECONDS]: 1,
+  [TimeUnit.MICROSECONDS]: 1e3,
+  [TimeUnit.MILLISECONDS]: 1e6,
+  [TimeUnit.SECONDS]: 1e9
+}
+
+const PROFILE_SPACE_UNITS: Record<SpaceUnit, number> = {
+  [SpaceUnit.BYTES]: 1,
+  [SpaceUnit.KILOBYTES]: 1024,
+  [SpaceUnit.MEGABYTES]: 1024 ** 2,
+  [SpaceUnit.GIGABYTES]: 1024 ** 3
+}
+
+/**
+ * Check a profile against budgets
+ * The profile is processed by FlameDataProcessor, so app code filtering and the
+ * chosen sample type match the flame graph.
+ *
+ * @param profile The decoded profile
+ * @param budgets The budgets, e.g. parsed from a budgets.json file
+ * @param options Filtering and how many stacks to report per violation
+ * @returns The values of each budget and its violations
+ */
+export function checkBudgets(profile: Profile, budgets: Budget[], options: BudgetCheckOptions = {}): BudgetCheckResult {
+  const { showAppCodeOnly = false, sampleTypeIndex, maxStacks = 3 } = options
+
+  const processor = new FlameDataProcessor()
+  const root = processor.processProfile(profile, showAppCodeOnly, sampleTypeIndex)
+  const profileMetadata = processor.getProfileMetadata()!
+
+  const results = budgets.map((budget, index) => {
+    const label = getBudgetLabel(budget, index)
+    if (!budget.function && !budget.file) {
+      throw new Error(`Budget ${label} needs a function or file pattern`)
+    }
+    if (budget.maxSelf === undefined && budget.maxTotal === undefined) {
+      throw new Error(`Budget ${label} needs maxSelf or maxTotal`)
+    }
+
+    const functionPattern = budget.function ? toPattern(budget.function) : null
+    const filePattern = budget.file ? toPattern(budget.file) : null
+    const matches = (node: FlameNode) =>
+      (!functionPattern || functionPattern.test(node.name)) &&
+      (!filePattern || filePattern.test(node.fileName ?? ''))
+
+    // Outermost matches carry the total value, every match its self value
+    const outermost: FlameNode[] = []
+    const all: FlameNode[] = []
+    const visit = (node: FlameNode, insideMatch: boolean) => {
+      const isMatch = matches(node)
+      if (isMatch) {
+        all.push(node)
+        if (!insideMatch) {
+          outermost.push(node)
+        }
+      }
+      for (const child of node.children) {
+        visit(child, insideMatch || isMatch)
+      }
+    }
+    for (const child of root.children) {
+      visit(child, false)
+    }
+
+    const selfValue = all.reduce((sum, node) => sum + node.selfValue, 0)
+    const totalValue = outermost.reduce((sum, node) => sum + node.value, 0)
+
+    const violations: BudgetViolation[] = []
+    const checks: Array<[BudgetViolation['metric'], string | number | undefined, number, FlameNode[], (node: FlameNode) => number]> = [
+      ['self', budget.maxSelf, selfValue, all, node => node.selfValue],
+      ['total', budget.maxTotal, totalValue, outermost, node => node.value]
+    ]
+    for (const [metric, max, value, nodes, getValue] of checks) {
+      if (max === undefined) {continue}
+
+      const limit = parseBudgetValue(max, profileMetadata, root.value)
+      if (value > limit) {
+        const heaviest = [...nodes].sort((a, b) => getValue(b) - getValue(a)).slice(0, maxStacks)
+        violations.push({
+          metric,
+          value,
+          limit,
+          stacks: heaviest.map(node => ({ frames: getStack(node), value: getValue(node) }))
+        })
+      }
+    }
+
+    return { budget, label, selfValue, totalValue, violations }
+  })
+
+  return {
+    profileMetadata,
+    totalValue: root.value,
+    passed: results.every(result => result.violations.length === 0),
+    results
+  }
+}
+
+/**
+ * Convert a budget limit to a value in the unit of the profile
+ * @param value A percentage ("5%"), a value with a unit ("50ms", "20MB") or a plain number
+ * @param profileMetadata The type and unit of the profile
+ * @param totalValue The value of the whole profile, which percentages refer to
+ * @returns The limit in the profile's unit
+ */
+export function parseBudgetValue(value: string | number, profileMetadata: ProfileMetadata, totalValue: number): number {
+  if (typeof value === 'number') {
+    return value
+  }
+
+  const match = BUDGET_VALUE.exec(value.trim())
+  if (!match) {
+    throw new Error(`Invalid budget value '${value}'`)
+  }
+
+  const amount = Number(match[1])
+  const unit = match[2]
+  if (unit === '') {
+    return amount
+  }
+  if (unit === '%') {
+    return amount / 100 * totalValue
+  }
+
+  if (profileMetadata.profileType === ProfileType.CPU && unit in TIME_UNITS_IN_NANOSECONDS) {
+    return amount * TIME_UNITS_IN_NANOSECONDS[unit] / PROFILE_TIME_UNITS[profileMetadata.unit as TimeUnit]
+  }
+  if (profileMetadata.profileType === ProfileType.HEAP && unit.toLowerCase() in SPACE_UNITS_IN_BYTES) {
+    return amount * SPACE_UNITS_IN_BYTES[unit.toLowerCase()] / PROFILE_SPACE_UNITS[profileMetadata.unit as SpaceUnit]
+  }
+
+  throw new Error(`Budget value '${value}' does not fit a ${profileMetadata.profileType} profile`)
+}
+
+/**
+ * Write the outcome of a budget check as plain text
+ * @param result The result of checkBudgets
+ * @returns One line per budget, followed by the heaviest stacks of each violation
+ */
+export function formatBudgetReport(result: BudgetCheckResult): string {
+  const { profileMetadata } = result
+  const format = (value: number) =>
+    `${formatValue(value, profileMetadata)} (${formatPercentage(result.totalValue > 0 ? value / result.totalValue : 0)})`
+
+  const lines: string[] = []
+  for (const { label, selfValue, totalValue, violations } of result.results) {
+    lines.push(`${violations.length > 0 ? 'FAIL' : 'PASS'} ${label}: self ${format(selfValue)}, total ${format(totalValue)}`)
+
+    for (const violation of violations) {
+      lines.push(`  ${violation.metric} ${format(violation.value)} exceeds ${format(violation.limit)}`)
+      for (const stack of violation.stacks) {
+        lines.push(`    ${formatValue(stack.value, profileMetadata)}  ${stack.frames.join(' > ')}`)
+      }
+    }
+  }
+
+  const failed = result.results.filter(budget => budget.violations.length > 0).length
+  lines.push('', failed > 0 ? `${failed} of ${result.results.length} budgets exceeded` : `All ${result.results.length} budgets met`)
+
+  return `${lines.join('\n')}\n`
+}
+
+function getBudgetLabel(budget: Budget, index: number): string {
+  if (budget.name) {
+    return budget.name
+  }
+  const patterns = [budget.function, budget.file && `file ${budget.file}`].filter(Boolean)
+  return patterns.length > 0 ? patterns.join(' in ') : `#${index + 1}`
+}
+
+function toPattern(pattern: string): RegExp {
+  const regexp = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  if (regexp) {
+    return new RegExp(regexp[1], regexp[2])
+  }
+
+  const source = pattern.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Names of the frames from the outermost one to the node, without the "all" root
+ */
+function getStack(node: FlameNode): string[] {
+  const frames: string[] = []
+  for (let current: FlameNode | undefined = node; current?.parent; current = current.parent) {
+    frames.unshift(current.name)
+  }
+  return frames
+}
@@ -1,61 +1,71 @@
 import ReactDOM from 'react-dom/client'
 import { FullFlameGraph } from './components/FullFlameGraph'
-import { Profile } from 'pprof-format'
-
-// Theme colors
-const BACKGROUND_COLOR = '#1e1e1e'
-const TEXT_COLOR = '#ffffff'
-const ERROR_COLOR = '#ff6b6b'
+import { ThemeProvider } from './components/ThemeProvider'
+import { fetchProfile, parseProfile } from './parser'
+import { ThemeName, resolveTheme } from './renderer/themes'
 
 // Export a reusable render function for programmatic use
 declare global {
   interface Window {
     renderReactPprofFlameGraph: (containerId: string, options: {
-      profileData: ArrayBuffer
+      profileData?: ArrayBuffer
+      profileBase64?: string  // Compact form written by generateEmbeddableFlameGraph
+      profileUrl?: string  // Fetched instead of embedding the profile
       filename: string
       title: string
       primaryColor?: string
       secondaryColor?: string
-    }) => void
+      theme?: ThemeName  // Built-in theme of the page (default: 'dark')
+    }) => Promise<void>
   }
 }
 
-window.renderReactPprofFlameGraph = (containerId: string, options) => {
+window.renderReactPprofFlameGraph = async (containerId: string, options) => {
   const container = document.getElementById(containerId)
   if (!container) {
     console.error(`Container with id "${containerId}" not found`)
     return
   }
 
-  const primaryColor = options.primaryColor || '#ff4444'
-  const secondaryColor = options.secondaryColor || '#ffcc66'
+  const theme = resolveTheme(options.theme ?? 'dark')
 
   try {
-    // Parse the pprof binary data
-    const uint8Array = new Uint8Array(options.profileData)
-    const profile = Profile.decode(uint8Array)
+    // Parse the pprof binary data, which may still be gzipped
+    const profile = options.profileUrl
+      ? await fetchProfile(options.profileUrl)
+      : await parseProfile(options.profileBase64 !== undefined ? decodeBase64(options.profileBase64) : options.profileData ?? new ArrayBuffer(0))
 
     // Render the flamegraph with a wrapper that handles sizing
     const root = ReactDOM.createRoot(container)
 
     root.render(
-      <FullFlameGraph
-        profile={profile}
-        primaryColor={primaryColor}
-        secondaryColor={secondaryColor}
-        backgroundColor={BACKGROUND_COLOR}
-        textColor={TEXT_COLOR}
-        showHottestFrames={true}
-        showControls={true}
-        showStackDetails={true}
-        hottestFramesHeight={12}
-      />
+      <ThemeProvider theme={theme}>
+        <FullFlameGraph
+          profile={profile}
+          primaryColor={options.primaryColor || undefined}
+          secondaryColor={options.secondaryColor || undefined}
+          showHottestFrames={true}
+          showControls={true}
+          showStackDetails={true}
+          hottestFramesHeight={12}
+        />
+      </ThemeProvider>
     )
   } catch (err) {
-    container.innerHTML = `
-      <div style="display: flex; align-items: center; justify-content: center; height: 100%; color: ${ERROR_COLOR}; font-size: 16px;">
-        Error loading profile: ${err instanceof Error ? err.message : 'Unknown error'}
-      </div>
-    `
+    // Messages can come from the server of the profile, so they are set as text
+    const message = document.createElement('div')
+    message.style.cssText = 'display: flex; align-items: center; justify-content: center; height: 100%; font-size: 16px;'
+    message.style.color = theme.errorColor
+    message.textContent = `Error loading profile: ${err instanceof Error ? err.message : 'Unknown error'}`
+    container.replaceChildren(message)
+  }
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
   }
+  return bytes
 }
@@ -0,0 +1,56 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { ColorLegend } from './ColorLegend.js'
+import { getColorLegend } from '../renderer/colorSchemes.js'
+
+const meta = {
+  title: 'ColorLegend',
+  component: ColorLegend,
+  parameters: {
+    layout: 'centered',
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ backgroundColor: '#1e1e1e', padding: '40px', minWidth: '400px' }}>
+        <Story />
+      </div>
+    ),
+  ],
+} satisfies Meta<typeof ColorLegend>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Module: Story = {
+  args: {
+    title: 'Module',
+    entries: getColorLegend('module', '#ff4444', '#ffcc66'),
+    textColor: '#ffffff',
+  },
+}
+
+export const Heat: Story = {
+  args: {
+    title: 'Self time',
+    entries: getColorLegend('heat', '#ff4444', '#ffcc66'),
+    textColor: '#ffffff',
+  },
+}
+
+export const FunctionName: Story = {
+  args: {
+    title: 'Function name',
+    entries: [],
+    textColor: '#ffffff',
+  },
+}
+
+export const Custom: Story = {
+  args: {
+    title: 'Custom',
+    entries: [
+      { label: 'Database', color: '#2563eb' },
+      { label: 'Other', color: '#6b6b6b' },
+    ],
+    textColor: '#ffffff',
+  },
+}
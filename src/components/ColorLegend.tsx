@@ -0,0 +1,52 @@
+import React from 'react'
+import type { ColorLegendEntry } from '../renderer/index.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface ColorLegendProps {
+  title: string
+  entries: ColorLegendEntry[]
+  textColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+export const ColorLegend: React.FC<ColorLegendProps> = ({
+  title,
+  entries,
+  textColor: textColorProp,
+  fontSize = '12px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor } = useTheme({ textColor: textColorProp })
+
+  return (
+    <div
+      aria-label="Color legend"
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '12px',
+        color: textColor,
+        fontSize,
+        fontFamily,
+      }}
+    >
+      <span style={{ opacity: 0.7 }}>Color: {title}</span>
+      {entries.map(entry => (
+        <span key={entry.label} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span
+            style={{
+              width: '10px',
+              height: '10px',
+              borderRadius: '2px',
+              backgroundColor: entry.color,
+              flexShrink: 0,
+            }}
+          />
+          {entry.label}
+        </span>
+      ))}
+    </div>
+  )
+}
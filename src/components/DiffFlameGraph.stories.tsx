@@ -0,0 +1,120 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { DiffFlameGraph } from './DiffFlameGraph.js'
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
+
+// Build a small server profile where each stack's sample count can be tuned,
+// so the same code paths can be compared before and after a change
+const createServerProfile = (weights: Record<string, number>): Profile => {
+  const stringTable = new StringTable()
+
+  const functions = [
+    { name: 'main', file: '/app/server.js', line: 1 },
+    { name: 'handleRequest', file: '/app/server.js', line: 24 },
+    { name: 'authenticate', file: '/app/hooks/auth.js', line: 12 },
+    { name: 'jwt.verify', file: '/app/node_modules/@fastify/jwt/jwt.js', line: 142 },
+    { name: 'getUser', file: '/app/controllers/user.js', line: 42 },
+    { name: 'db.query', file: '/app/node_modules/pg/lib/client.js', line: 512 },
+    { name: 'renderTemplate', file: '/app/views/render.js', line: 8 },
+    { name: 'JSON.stringify', file: 'json.js', line: 87 },
+    { name: 'cache.get', file: '/app/lib/cache.js', line: 30 }
+  ]
+
+  const profileFunctions = functions.map((func, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(func.name),
+    filename: stringTable.dedup(func.file),
+    startLine: func.line
+  }))
+
+  const locations = profileFunctions.map((func, i) => new Location({
+    id: i + 1,
+    line: [new Line({ functionId: func.id, line: functions[i].line })]
+  }))
+
+  // Stacks are listed root first, keyed by their leaf function
+  const stacks: Record<string, number[]> = {
+    auth: [1, 2, 3, 4],
+    query: [1, 2, 5, 6],
+    cache: [1, 2, 5, 9],
+    render: [1, 2, 7, 8]
+  }
+
+  const samples: Sample[] = []
+  for (const [key, count] of Object.entries(weights)) {
+    for (let i = 0; i < count; i++) {
+      samples.push(new Sample({
+        locationId: [...stacks[key]].reverse(),
+        value: [1, 1000000]
+      }))
+    }
+  }
+
+  return new Profile({
+    sampleType: [
+      new ValueType({ type: stringTable.dedup('samples'), unit: stringTable.dedup('count') }),
+      new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })
+    ],
+    sample: samples,
+    location: locations,
+    function: profileFunctions,
+    stringTable,
+    periodType: new ValueType({
+      type: stringTable.dedup('cpu'),
+      unit: stringTable.dedup('nanoseconds')
+    }),
+    period: 1000000
+  })
+}
+
+// Before: queries dominate. After: a cache was added and auth got slower
+const baseProfile = createServerProfile({ auth: 20, query: 60, render: 20 })
+const profile = createServerProfile({ auth: 40, query: 20, cache: 10, render: 20 })
+
+const meta = {
+  title: 'DiffFlameGraph',
+  component: DiffFlameGraph,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  argTypes: {
+    // Exclude profiles from controls as they contain BigInt values that can't be serialized
+    profile: { control: false },
+    baseProfile: { control: false },
+  },
+} satisfies Meta<typeof DiffFlameGraph>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    profile,
+    baseProfile,
+    height: 400,
+  },
+}
+
+export const Reversed: Story = {
+  args: {
+    profile: baseProfile,
+    baseProfile: profile,
+    height: 400,
+  },
+}
+
+export const WithoutLegend: Story = {
+  args: {
+    profile,
+    baseProfile,
+    height: 400,
+    showLegend: false,
+  },
+}
+
+export const Identical: Story = {
+  args: {
+    profile,
+    baseProfile: profile,
+    height: 400,
+  },
+}
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react'
+import { Profile } from '../parser.js'
+import { FrameData, FlameNode, detectProfileMetadata } from '../renderer/index.js'
+import { DIFF_COLORS } from '../renderer/constants.js'
+import { FlameGraph } from './FlameGraph.js'
+import { StackDetails } from './StackDetails.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface DiffFlameGraphProps {
+  profile: Profile
+  baseProfile: Profile
+  height?: number
+  backgroundColor?: string
+  textColor?: string
+  fontFamily?: string
+  showLegend?: boolean
+  showStackDetails?: boolean
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+}
+
+export const DiffFlameGraph: React.FC<DiffFlameGraphProps> = ({
+  profile,
+  baseProfile,
+  height,
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
+  fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+  showLegend = true,
+  showStackDetails = true,
+  showAppCodeOnly = false,
+  sampleTypeIndex,
+}) => {
+  const { backgroundColor, textColor } = useTheme({ backgroundColor: backgroundColorProp, textColor: textColorProp })
+
+  const [selectedFrame, setSelectedFrame] = useState<FrameData | FlameNode | null>(null)
+  const [selectedFrameId, setSelectedFrameId] = useState<string | null>(null)
+  const [stackTrace, setStackTrace] = useState<FlameNode[]>([])
+  const [frameChildren, setFrameChildren] = useState<FlameNode[]>([])
+
+  // Values are formatted using the target profile's metadata
+  const profileMetadata = useMemo(() => {
+    if (!profile) {
+      return undefined
+    }
+    return detectProfileMetadata(profile, sampleTypeIndex)
+  }, [profile, sampleTypeIndex])
+
+  const handleFrameSelection = (frame: FrameData | null, stack?: FlameNode[], children?: FlameNode[]) => {
+    setSelectedFrame(frame)
+    setSelectedFrameId(frame ? frame.id : null)
+    setStackTrace(stack || [])
+    setFrameChildren(children || [])
+  }
+
+  // StackDetails hands back the FlameNode itself, which already links to its parent and children
+  const handleStackFrameClick = (node: FlameNode) => {
+    const stack: FlameNode[] = []
+    let current: FlameNode | undefined = node
+    while (current) {
+      stack.unshift(current)
+      current = current.parent
+    }
+
+    setSelectedFrame(node)
+    setSelectedFrameId(node.id)
+    setStackTrace(stack)
+    setFrameChildren(node.children)
+  }
+
+  return (
+    <div
+      data-testid="diff-flamegraph-container"
+      style={{
+        backgroundColor,
+        padding: '20px',
+        borderRadius: '4px',
+        position: 'relative',
+        boxSizing: 'border-box',
+      }}
+    >
+      {showLegend && (
+        <div
+          className="diff-flamegraph-legend"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '16px',
+            marginBottom: '10px',
+            minHeight: '40px',
+            color: textColor,
+            fontFamily,
+            fontSize: '14px',
+          }}
+        >
+          {[
+            { label: 'Shrank', color: DIFF_COLORS.shrink },
+            { label: 'Unchanged', color: DIFF_COLORS.neutral },
+            { label: 'Grew', color: DIFF_COLORS.growth },
+          ].map(item => (
+            <span key={item.label} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={{
+                display: 'inline-block',
+                width: '14px',
+                height: '14px',
+                borderRadius: '2px',
+                backgroundColor: item.color,
+              }} />
+              {item.label}
+            </span>
+          ))}
+          <span style={{ opacity: 0.7, fontSize: '12px' }}>
+            Frame widths follow the target profile
+          </span>
+        </div>
+      )}
+
+      <div style={{ position: 'relative' }}>
+        <FlameGraph
+          profile={profile}
+          baseProfile={baseProfile}
+          height={height}
+          backgroundColor={backgroundColor}
+          textColor={textColor}
+          fontFamily={fontFamily}
+          selectedFrameId={selectedFrameId}
+          showAppCodeOnly={showAppCodeOnly}
+          sampleTypeIndex={sampleTypeIndex}
+          onFrameClick={handleFrameSelection}
+        />
+
+        {/* StackDetails overlay */}
+        {showStackDetails && selectedFrame && (
+          <div style={{
+            position: 'absolute',
+            top: 0,
+            right: 0,
+            width: '400px',
+            height: 'auto',
+            maxHeight: 'calc(100vh - 112px)',
+            overflowY: 'scroll',
+            backgroundColor: `${backgroundColor}F0`,
+            boxShadow: '-4px 0 12px rgba(0, 0, 0, 0.3)',
+            zIndex: 10,
+            boxSizing: 'border-box',
+          }}>
+            {/* Close button */}
+            <button
+              onClick={() => handleFrameSelection(null)}
+              style={{
+                position: 'absolute',
+                top: '10px',
+                right: '10px',
+                backgroundColor: 'transparent',
+                border: `1px solid ${textColor}40`,
+                color: textColor,
+                width: '24px',
+                height: '24px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '16px',
+                zIndex: 11,
+                opacity: 0.7,
+                transition: 'opacity 0.2s',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.opacity = '1'}
+              onMouseLeave={(e) => e.currentTarget.style.opacity = '0.7'}
+              title="Close details"
+            >
+              ×
+            </button>
+            <StackDetails
+              selectedFrame={selectedFrame}
+              stackTrace={stackTrace}
+              children={frameChildren}
+              backgroundColor={backgroundColor}
+              textColor={textColor}
+              fontFamily={fontFamily}
+              width="100%"
+              height="100%"
+              profileMetadata={profileMetadata}
+              onFrameClick={handleStackFrameClick}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { useState } from 'react'
+import { ExportControls } from './ExportControls.js'
+
+const meta = {
+  title: 'ExportControls',
+  component: ExportControls,
+  parameters: {
+    layout: 'centered',
+  },
+  argTypes: {
+    onExport: { control: false },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ backgroundColor: '#1e1e1e', padding: '40px', minWidth: '400px', minHeight: '160px' }}>
+        <Story />
+      </div>
+    ),
+  ],
+} satisfies Meta<typeof ExportControls>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WholeGraph: Story = {
+  args: {
+    onExport: (format) => console.log('Export:', format),
+    textColor: '#ffffff',
+  },
+}
+
+export const SelectedFrame: Story = {
+  args: {
+    onExport: (format) => console.log('Export:', format),
+    selectedFrameName: 'handleRequest',
+    textColor: '#ffffff',
+  },
+}
+
+export const Interactive: Story = {
+  render: () => {
+    const [lastFormat, setLastFormat] = useState<string | null>(null)
+
+    return (
+      <div>
+        <ExportControls
+          onExport={setLastFormat}
+          textColor="#ffffff"
+        />
+        <div style={{ marginTop: '20px', color: '#ffffff', textAlign: 'center' }}>
+          Last export: {lastFormat ?? 'none'}
+        </div>
+      </div>
+    )
+  },
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react'
+import type { FlameTreeExportFormat } from '../utils/exportFlameTree.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface ExportControlsProps {
+  onExport: (format: FlameTreeExportFormat) => void
+  selectedFrameName?: string | null
+  textColor?: string
+  backgroundColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+const EXPORT_FORMATS: Array<{ format: FlameTreeExportFormat; label: string }> = [
+  { format: 'folded', label: 'Folded stacks (.folded)' },
+  { format: 'pprof', label: 'pprof (.pb)' },
+  { format: 'json', label: 'JSON (.json)' },
+]
+
+export const ExportControls: React.FC<ExportControlsProps> = ({
+  onExport,
+  selectedFrameName,
+  textColor: textColorProp,
+  backgroundColor: backgroundColorProp,
+  fontSize = '14px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor, backgroundColor } = useTheme({ textColor: textColorProp, backgroundColor: backgroundColorProp })
+
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu on clicks outside of it and on Escape
+  useEffect(() => {
+    if (!open) {return}
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const handleExport = (format: FlameTreeExportFormat) => {
+    setOpen(false)
+    onExport(format)
+  }
+
+  const scope = selectedFrameName ? `Exports the stacks through ${selectedFrameName}` : 'Exports the whole graph'
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'relative',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        color: textColor,
+        fontSize,
+        fontFamily,
+        padding: '8px 0',
+      }}
+    >
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={scope}
+        style={{
+          backgroundColor,
+          color: textColor,
+          border: `1px solid ${textColor}`,
+          borderRadius: '2px',
+          padding: '4px 8px',
+          fontSize,
+          fontFamily,
+          cursor: 'pointer',
+        }}
+      >
+        Export ▾
+      </button>
+      {open && (
+        <div
+          role="menu"
+          aria-label={scope}
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            zIndex: 20,
+            display: 'flex',
+            flexDirection: 'column',
+            minWidth: '200px',
+            backgroundColor,
+            border: `1px solid ${textColor}40`,
+            borderRadius: '2px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+          }}
+        >
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              style={{
+                backgroundColor: 'transparent',
+                color: textColor,
+                border: 'none',
+                padding: '6px 12px',
+                textAlign: 'left',
+                fontSize,
+                fontFamily,
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${textColor}20`}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
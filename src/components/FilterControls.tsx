@@ -1,4 +1,5 @@
 import React from 'react'
+import { useTheme } from './ThemeProvider.js'
 
 export interface FilterControlsProps {
   showAppCodeOnly: boolean
@@ -11,10 +12,12 @@ export interface FilterControlsProps {
 export const FilterControls: React.FC<FilterControlsProps> = ({
   showAppCodeOnly,
   onToggle,
-  textColor = '#ffffff',
+  textColor: textColorProp,
   fontSize = '14px',
   fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
 }) => {
+  const { textColor, backgroundColor } = useTheme({ textColor: textColorProp })
+
   const handleCheckboxChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     onToggle(event.target.checked)
   }
@@ -67,7 +70,7 @@ export const FilterControls: React.FC<FilterControlsProps> = ({
             >
               <path
                 d="M3 8L6.5 11.5L13 4.5"
-                stroke="#1e1e1e"
+                stroke={backgroundColor}
                 strokeWidth="2"
                 strokeLinecap="round"
                 strokeLinejoin="round"
@@ -310,6 +310,33 @@ export const Default: Story = {
   },
 }
 
+export const FlameOrientation: Story = {
+  args: {
+    profile: nodeJSProfile,
+    width: 800,
+    height: 400,
+    orientation: 'flame',
+  },
+}
+
+export const Inverted: Story = {
+  args: {
+    profile: nodeJSProfile,
+    width: 800,
+    height: 400,
+    inverted: true,
+  },
+}
+
+// Shown while a tree is being built in a worker
+export const Loading: Story = {
+  args: {
+    width: 800,
+    height: 400,
+    loadingProgress: { stage: 'building' },
+  },
+}
+
 export const BlueTheme: Story = {
   args: {
     profile: nodeJSProfile,
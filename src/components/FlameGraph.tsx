@@ -1,16 +1,23 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react'
-import { FlameGraphRenderer, FlameNode, FrameData } from '../renderer/index.js'
+import { FlameGraphRenderer, FlameNode, FrameData, FlameGraphOrientation, formatSpace, type ColorScheme, type ImageExportOptions } from '../renderer/index.js'
 import { Profile } from '../parser.js'
+import type { SearchQuery, SearchResult } from '../utils/frameSearch.js'
 import { FlameGraphTooltip } from './FlameGraphTooltip.js'
+import { useFlameTree, type FlameTree } from './hooks/useFlameTree.js'
+import type { ProfileLoadProgress } from '../worker/protocol.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface FlameGraphProps {
-  profile: Profile
+  profile?: Profile
+  flameTree?: FlameTree | null
+  loadingProgress?: ProfileLoadProgress | null
   width?: number | string
   height?: number | string
   primaryColor?: string
   secondaryColor?: string
   backgroundColor?: string
   textColor?: string
+  colorScheme?: ColorScheme
   fontFamily?: string
   shadowOpacity?: number
   selectedOpacity?: number
@@ -22,21 +29,38 @@ export interface FlameGraphProps {
   scrollZoomInverted?: boolean
   selectedFrameId?: string | null
   showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  baseProfile?: Profile
+  orientation?: FlameGraphOrientation
+  inverted?: boolean
+  searchQuery?: SearchQuery
+  onSearchResults?: (result: SearchResult | null) => void
   onFrameClick?: (frame: FrameData | null, stackTrace: FlameNode[], children: FlameNode[]) => void
   onZoomChange?: (zoomLevel: number) => void
   onAnimationComplete?: () => void
 }
 
-export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRenderer> }, FlameGraphProps>(({
+/**
+ * What a ref to FlameGraph exposes
+ */
+export interface FlameGraphHandle {
+  rendererRef: React.RefObject<FlameGraphRenderer>
+  exportImage: (options: ImageExportOptions) => Promise<Blob>
+}
+
+export const FlameGraph = forwardRef<FlameGraphHandle, FlameGraphProps>(({
   profile,
+  flameTree: flameTreeProp,
+  loadingProgress,
   width = '100%',
   height,
-  primaryColor = '#ff4444',
-  secondaryColor = '#ffcc66',
-  backgroundColor = '#1e1e1e',
-  textColor = '#ffffff',
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
+  colorScheme = 'ratio',
   fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
-  shadowOpacity = 0.3,
+  shadowOpacity: shadowOpacityProp,
   selectedOpacity = 1.0,
   hoverOpacity = 0.9,
   unselectedOpacity = 0.75,
@@ -46,10 +70,24 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
   scrollZoomInverted = false,
   selectedFrameId,
   showAppCodeOnly = false,
+  sampleTypeIndex,
+  baseProfile,
+  orientation = 'icicle',
+  inverted = false,
+  searchQuery,
+  onSearchResults,
   onFrameClick,
   onZoomChange: _onZoomChange,
   onAnimationComplete,
 }, ref) => {
+  const { primaryColor, secondaryColor, backgroundColor, textColor, highlightColor, shadowOpacity } = useTheme({
+    primaryColor: primaryColorProp,
+    secondaryColor: secondaryColorProp,
+    backgroundColor: backgroundColorProp,
+    textColor: textColorProp,
+    shadowOpacity: shadowOpacityProp
+  })
+
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const rendererRef = useRef<FlameGraphRenderer | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -62,16 +100,33 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
   const [isDragging, setIsDragging] = useState(false)
   const [initError, setInitError] = useState<string | null>(null)
 
+  // The tree is shared with the other components showing this profile, unless
+  // one was built elsewhere, e.g. in a worker
+  const profileTree = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex, baseProfile, inverted })
+  const flameTree = flameTreeProp ?? profileTree
+
+  // RegExp queries are compared by source so a new instance with the same pattern does not search again
+  const searchKey = searchQuery instanceof RegExp ? `regexp:${searchQuery}` : `string:${searchQuery ?? ''}`
+
   useImperativeHandle(ref, () => ({
-    rendererRef: rendererRef as React.RefObject<FlameGraphRenderer>
+    rendererRef: rendererRef as React.RefObject<FlameGraphRenderer>,
+    exportImage: async (options: ImageExportOptions) => {
+      if (!rendererRef.current) {
+        throw new Error('Cannot export image: the flame graph has not been rendered yet')
+      }
+      return rendererRef.current.exportImage(options)
+    }
   }))
 
   // Initialize renderer when canvas refs are ready
   useEffect(() => {
-    if (!canvasRef.current || !containerRef.current) {
+    if (!canvasRef.current || !containerRef.current || !flameTree) {
       return
     }
 
+    // Destroyed by the cleanup, so each change of the tree or colors releases its WebGL resources
+    let createdRenderer: FlameGraphRenderer | null = null
+
     const initializeRenderer = async () => {
       try {
         // Clear any previous errors
@@ -83,7 +138,9 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
           return
         }
 
+        rendererRef.current?.destroy()
         const renderer = new FlameGraphRenderer(canvasRef.current!)
+        createdRenderer = renderer
 
         // Check if WebGL initialization failed
         if (!renderer.isInitialized()) {
@@ -91,6 +148,8 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
         }
 
         renderer.setColors(primaryColor, secondaryColor, backgroundColor, textColor)
+        renderer.setHighlightColor(highlightColor)
+        renderer.setColorScheme(colorScheme)
         renderer.setOpacity(selectedOpacity, hoverOpacity, unselectedOpacity)
         renderer.setFramePadding(framePadding)
         renderer.setFontFamily(fontFamily)
@@ -99,6 +158,8 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
           setCanPan(renderer.canPan())
         })
         renderer.setAnimationCompleteCallback(onAnimationComplete)
+        renderer.setOrientation(orientation)
+        renderer.setSearchQuery(searchQuery ?? null)
         rendererRef.current = renderer
 
         // Set initial size - use the props if they're numbers
@@ -110,7 +171,9 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
         }
 
         // Set the data and render
-        const requiredHeight = renderer.setData(profile, showAppCodeOnly)
+        const requiredHeight = renderer.setTree(flameTree.root, flameTree.profileMetadata)
+
+        onSearchResults?.(renderer.getSearchResult())
 
         // Get the required height from renderer (only for auto-height mode)
         const useExplicitHeight = typeof height === 'number'
@@ -125,9 +188,14 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
         // Check if content is scrollable and pannable
         setCanPan(renderer.canPan())
 
-        // Set the root element (main frame) as selected by default - get from renderer's internal data
+        // Keep an externally selected frame when it exists in the new tree (e.g. after
+        // switching between the normal and inverted views), otherwise select the root
+        // element (main frame) by default - get from renderer's internal data
         const internalData = (renderer as any).data
-        if (internalData && internalData.children.length > 0) {
+        if (selectedFrameId && renderer.frames.some(frame => frame.node.id === selectedFrameId)) {
+          renderer.setFrameStates(selectedFrameId, null)
+          setSelectedFrame(selectedFrameId)
+        } else if (internalData && internalData.children.length > 0) {
           setSelectedFrame(internalData.children[0].id)
         }
 
@@ -135,25 +203,37 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
 
         // Update scrollable and pannable state when renderer changes
         setCanPan(renderer.canPan())
-
-        return () => {
-          renderer.destroy()
-        }
       } catch (error) {
         setInitError(error instanceof Error ? error.message : 'Failed to initialize WebGL renderer')
       }
     }
 
     initializeRenderer()
-  }, [profile, primaryColor, secondaryColor, backgroundColor, textColor, fontFamily, showAppCodeOnly])
+
+    return () => {
+      createdRenderer?.destroy()
+      if (rendererRef.current === createdRenderer) {
+        rendererRef.current = null
+      }
+    }
+  }, [flameTree, primaryColor, secondaryColor, backgroundColor, textColor, fontFamily])
 
   // Update colors when they change (without recreating the renderer)
   useEffect(() => {
     if (rendererRef.current) {
       rendererRef.current.setColors(primaryColor, secondaryColor, backgroundColor, textColor)
+      rendererRef.current.setHighlightColor(highlightColor)
       rendererRef.current.render()
     }
-  }, [primaryColor, secondaryColor, backgroundColor, textColor])
+  }, [primaryColor, secondaryColor, backgroundColor, textColor, highlightColor])
+
+  // Recolor frames when the color scheme changes
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.setColorScheme(colorScheme)
+      rendererRef.current.render()
+    }
+  }, [colorScheme])
 
   // Update font family when it changes
   useEffect(() => {
@@ -170,6 +250,23 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
     }
   }, [shadowOpacity])
 
+  // Flip the layout when the orientation changes
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.setOrientation(orientation)
+      rendererRef.current.render()
+    }
+  }, [orientation])
+
+  // Highlight frames matching the search query
+  useEffect(() => {
+    if (rendererRef.current) {
+      const result = rendererRef.current.setSearchQuery(searchQuery ?? null)
+      rendererRef.current.render()
+      onSearchResults?.(result)
+    }
+  }, [searchKey])
+
   // Handle external frame selection
   useEffect(() => {
     if (rendererRef.current && selectedFrameId !== undefined) {
@@ -224,7 +321,7 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
 
   useEffect(() => {
     // Only set up resize observer after renderer exists
-    if (!canvasRef.current || !containerRef.current || !rendererRef.current || !profile) {return}
+    if (!canvasRef.current || !containerRef.current || !rendererRef.current || !flameTree) {return}
 
     const resizeObserver = new ResizeObserver(entries => {
       for (const entry of entries) {
@@ -307,7 +404,7 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
     return () => {
       resizeObserver.disconnect()
     }
-  }, [width, height, profile, computedHeight])
+  }, [width, height, flameTree, computedHeight])
 
   // Update renderer when frame states change
   useEffect(() => {
@@ -508,7 +605,10 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
             functionName: parentFrame.name,
             fileName: parentFrame.fileName,
             lineNumber: parentFrame.lineNumber,
-            totalValue: parentFrame.value
+            inlined: parentFrame.inlined,
+            totalValue: parentFrame.value,
+            baseValue: parentFrame.baseValue,
+            baseSelfValue: parentFrame.baseSelfValue
           },
           stackTrace,
           parentFrame.children
@@ -564,7 +664,10 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
           functionName: firstChild.name,
           fileName: firstChild.fileName,
           lineNumber: firstChild.lineNumber,
-          totalValue: firstChild.value
+          inlined: firstChild.inlined,
+          totalValue: firstChild.value,
+          baseValue: firstChild.baseValue,
+          baseSelfValue: firstChild.baseSelfValue
         },
         stackTrace,
         firstChild.children
@@ -627,7 +730,10 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
           functionName: nextSibling.name,
           fileName: nextSibling.fileName,
           lineNumber: nextSibling.lineNumber,
-          totalValue: nextSibling.value
+          inlined: nextSibling.inlined,
+          totalValue: nextSibling.value,
+          baseValue: nextSibling.baseValue,
+          baseSelfValue: nextSibling.baseSelfValue
         },
         stackTrace,
         nextSibling.children
@@ -690,7 +796,10 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
           functionName: prevSibling.name,
           fileName: prevSibling.fileName,
           lineNumber: prevSibling.lineNumber,
-          totalValue: prevSibling.value
+          inlined: prevSibling.inlined,
+          totalValue: prevSibling.value,
+          baseValue: prevSibling.baseValue,
+          baseSelfValue: prevSibling.baseSelfValue
         },
         stackTrace,
         prevSibling.children
@@ -730,14 +839,25 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
       return
     }
 
+    // Up and down follow the screen, so they swap meaning when the root sits at the bottom
+    const isFlame = orientation === 'flame'
+
     switch (event.key) {
       case 'ArrowUp':
         event.preventDefault()
-        selectParentFrame()
+        if (isFlame) {
+          selectFirstChild()
+        } else {
+          selectParentFrame()
+        }
         break
       case 'ArrowDown':
         event.preventDefault()
-        selectFirstChild()
+        if (isFlame) {
+          selectParentFrame()
+        } else {
+          selectFirstChild()
+        }
         break
       case 'ArrowRight':
         event.preventDefault()
@@ -813,6 +933,33 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
     )
   }
 
+  // Show a loading state until there is a tree to draw
+  if (!flameTree) {
+    return (
+      <div
+        ref={containerRef}
+        role="status"
+        aria-live="polite"
+        data-testid="flamegraph-loading"
+        style={{
+          width: typeof width === 'number' ? `${width}px` : width,
+          height: useExplicitHeight ? (typeof height === 'number' ? `${height}px` : height) : '400px',
+          position: 'relative',
+          backgroundColor,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          color: textColor,
+          fontFamily,
+          fontSize: '14px',
+          opacity: 0.7
+        }}
+      >
+        {getLoadingMessage(loadingProgress)}
+      </div>
+    )
+  }
+
   return (
     <div
       ref={containerRef}
@@ -836,7 +983,9 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
         onKeyDown={handleKeyDown}
         tabIndex={0}
         role="img"
-        aria-label="Flame graph visualization. Use arrow keys to navigate: Up for parent frame, Down for first child, Left/Right for siblings, Escape or Home to reset zoom."
+        aria-label={orientation === 'flame'
+          ? 'Flame graph visualization. Use arrow keys to navigate: Down for parent frame, Up for first child, Left/Right for siblings, Escape or Home to reset zoom.'
+          : 'Flame graph visualization. Use arrow keys to navigate: Up for parent frame, Down for first child, Left/Right for siblings, Escape or Home to reset zoom.'}
         style={{
           width: '100%',
           height: '100%',
@@ -863,3 +1012,15 @@ export const FlameGraph = forwardRef<{ rendererRef: React.RefObject<FlameGraphRe
 })
 
 FlameGraph.displayName = 'FlameGraph'
+
+function getLoadingMessage(progress: ProfileLoadProgress | null | undefined): string {
+  if (progress?.stage === 'building') {
+    return 'Building flame graph…'
+  }
+  if (!progress?.loaded) {
+    return 'Loading profile…'
+  }
+  return progress.total
+    ? `Loading profile… ${formatSpace(progress.loaded)} of ${formatSpace(progress.total)}`
+    : `Loading profile… ${formatSpace(progress.loaded)}`
+}
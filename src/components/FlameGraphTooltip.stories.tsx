@@ -99,6 +99,23 @@ export const SmallValue: Story = {
   },
 }
 
+// Frame of a function inlined into its caller
+export const Inlined: Story = {
+  args: {
+    frameData: {
+      ...sampleFrame,
+      id: 'root/main/server/handler/parseHeaders',
+      name: 'parseHeaders',
+      value: 320,
+      width: 0.12,
+      depth: 4,
+      inlined: true
+    },
+    mouseX: 400,
+    mouseY: 300,
+  },
+}
+
 // Interactive story that follows mouse cursor
 export const FollowMouse = () => {
   const [mousePos, setMousePos] = useState({ x: 400, y: 300 })
@@ -1,5 +1,6 @@
 import React from 'react'
-import { FlameNode, ProfileMetadata, formatValue, formatPercentage, formatSampleCount, getMetricLabel, getTotalValueLabel, getSelfValueLabel } from '../renderer/index.js'
+import { FlameNode, ProfileMetadata, formatValue, formatPercentage, formatDelta, formatRelativeDelta, formatSampleCount, getMetricLabel, getTotalValueLabel, getSelfValueLabel } from '../renderer/index.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface FlameGraphTooltipProps {
   frameData: FlameNode
@@ -16,6 +17,12 @@ export const FlameGraphTooltip: React.FC<FlameGraphTooltipProps> = ({
   fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
   profileMetadata
 }) => {
+  const { tooltipBackgroundColor, tooltipTextColor } = useTheme()
+
+  // Labels and percentages are the text color at reduced opacity, like grey on the default white
+  const labelColor = `${tooltipTextColor}99`
+  const hintColor = `${tooltipTextColor}66`
+
   const calculateTooltipPosition = (mouseX: number, mouseY: number) => {
     const tooltipWidth = 250
     const tooltipHeight = 120
@@ -58,13 +65,13 @@ export const FlameGraphTooltip: React.FC<FlameGraphTooltipProps> = ({
       style={{
         position: 'fixed',
         ...calculateTooltipPosition(mouseX, mouseY),
-        backgroundColor: 'white',
-        color: 'black',
+        backgroundColor: tooltipBackgroundColor,
+        color: tooltipTextColor,
         padding: '12px',
         borderRadius: '6px',
         fontSize: '12px',
         fontFamily,
-        border: '1px solid #e0e0e0',
+        border: `1px solid ${tooltipTextColor}20`,
         boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
         zIndex: 1000,
         maxWidth: '250px',
@@ -74,28 +81,48 @@ export const FlameGraphTooltip: React.FC<FlameGraphTooltipProps> = ({
     >
       <div style={{ marginBottom: '8px' }}>
         {frameData.name}
+        {frameData.inlined && (
+          <span style={{ marginLeft: '6px', color: hintColor, fontSize: '10px' }}>(inlined)</span>
+        )}
       </div>
       <hr style={{
         margin: '8px 0 12px 0',
         border: 'none',
-        borderTop: '1px solid #e8e8e8'
+        borderTop: `1px solid ${tooltipTextColor}18`
       }} />
       <div style={{ marginBottom: '6px' }}>
-        <span style={{ color: '#666', fontSize: '11px' }}>{profileMetadata ? getMetricLabel(profileMetadata) : 'Samples'}:</span>
+        <span style={{ color: labelColor, fontSize: '11px' }}>{profileMetadata ? getMetricLabel(profileMetadata) : 'Samples'}:</span>
         <span style={{ marginLeft: '8px', fontWeight: '500' }}>{formatSampleCount(frameData.sampleCount)}</span>
       </div>
       <div style={{ marginBottom: '6px' }}>
-        <span style={{ color: '#666', fontSize: '11px' }}>{profileMetadata ? getTotalValueLabel(profileMetadata) : 'Total Time'}:</span>
+        <span style={{ color: labelColor, fontSize: '11px' }}>{profileMetadata ? getTotalValueLabel(profileMetadata) : 'Total Time'}:</span>
         <span style={{ marginLeft: '8px', fontWeight: '500' }}>{profileMetadata ? formatValue(frameData.value, profileMetadata) : `${(frameData.width * 100).toFixed(2)}%`}</span>
-        <span style={{ marginLeft: '4px', color: '#999', fontSize: '10px' }}>({formatPercentage(frameData.width)})</span>
+        <span style={{ marginLeft: '4px', color: hintColor, fontSize: '10px' }}>({formatPercentage(frameData.width)})</span>
       </div>
       <div style={{ marginBottom: '6px' }}>
-        <span style={{ color: '#666', fontSize: '11px' }}>{profileMetadata ? getSelfValueLabel(profileMetadata) : 'Self Time'}:</span>
+        <span style={{ color: labelColor, fontSize: '11px' }}>{profileMetadata ? getSelfValueLabel(profileMetadata) : 'Self Time'}:</span>
         <span style={{ marginLeft: '8px', fontWeight: '500' }}>{profileMetadata ? formatValue(frameData.selfValue || 0, profileMetadata) : `${((frameData.selfWidth || 0) * 100).toFixed(2)}%`}</span>
-        <span style={{ marginLeft: '4px', color: '#999', fontSize: '10px' }}>({formatPercentage(frameData.selfWidth || 0)})</span>
+        <span style={{ marginLeft: '4px', color: hintColor, fontSize: '10px' }}>({formatPercentage(frameData.selfWidth || 0)})</span>
       </div>
+      {frameData.baseValue !== undefined && (
+        <>
+          <div style={{ marginBottom: '6px' }}>
+            <span style={{ color: labelColor, fontSize: '11px' }}>Base:</span>
+            <span style={{ marginLeft: '8px', fontWeight: '500' }}>{profileMetadata ? formatValue(frameData.baseValue, profileMetadata) : frameData.baseValue.toLocaleString()}</span>
+          </div>
+          <div style={{ marginBottom: '6px' }}>
+            <span style={{ color: labelColor, fontSize: '11px' }}>Target:</span>
+            <span style={{ marginLeft: '8px', fontWeight: '500' }}>{profileMetadata ? formatValue(frameData.value, profileMetadata) : frameData.value.toLocaleString()}</span>
+          </div>
+          <div style={{ marginBottom: '6px' }}>
+            <span style={{ color: labelColor, fontSize: '11px' }}>Delta:</span>
+            <span style={{ marginLeft: '8px', fontWeight: '500' }}>{profileMetadata ? formatDelta(frameData.value - frameData.baseValue, profileMetadata) : (frameData.value - frameData.baseValue).toLocaleString()}</span>
+            <span style={{ marginLeft: '4px', color: hintColor, fontSize: '10px' }}>({formatRelativeDelta(frameData.value, frameData.baseValue)})</span>
+          </div>
+        </>
+      )}
       <div>
-        <span style={{ color: '#666', fontSize: '11px' }}>Depth:</span>
+        <span style={{ color: labelColor, fontSize: '11px' }}>Depth:</span>
         <span style={{ marginLeft: '8px', fontWeight: '500' }}>{frameData.depth}</span>
       </div>
     </div>
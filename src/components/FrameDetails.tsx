@@ -1,5 +1,6 @@
 import React from 'react'
 import { FrameData, ProfileMetadata, formatValue, formatSampleCount, getMetricLabel, getSelfValueLabel, getTotalValueLabel } from '../renderer/index.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface FrameDetailsProps {
   frame: FrameData | null
@@ -13,11 +14,13 @@ export interface FrameDetailsProps {
 export const FrameDetails: React.FC<FrameDetailsProps> = ({
   frame,
   selfTime,
-  textColor = '#ffffff',
+  textColor: textColorProp,
   fontSize = '12px',
   fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
   profileMetadata
 }) => {
+  const { textColor } = useTheme({ textColor: textColorProp })
+
   // Return completely empty div when no frame is selected
   if (!frame) {
     return <div />
@@ -501,3 +501,47 @@ export const HeapProfileWithAllFeatures: Story = {
     },
   },
 }
+
+export const WithSandwichView: Story = {
+  args: {
+    profile,
+    height: 400,
+    showSandwichView: true,
+  },
+}
+
+export const ColoredByModule: Story = {
+  args: {
+    profile,
+    height: 500,
+    colorScheme: 'module',
+  },
+}
+
+export const ColoredByFunctionName: Story = {
+  args: {
+    profile,
+    height: 500,
+    colorScheme: 'hash',
+  },
+}
+
+export const ColoredBySelfTime: Story = {
+  args: {
+    profile,
+    height: 500,
+    colorScheme: 'heat',
+  },
+}
+
+export const CustomColorFunction: Story = {
+  args: {
+    profile,
+    height: 500,
+    colorScheme: (node) => node.fileName?.includes('/node_modules/pg/') ? '#2563eb' : '#6b6b6b',
+    colorLegend: [
+      { label: 'Postgres client', color: '#2563eb' },
+      { label: 'Other', color: '#6b6b6b' },
+    ],
+  },
+}
@@ -1,12 +1,34 @@
-import React, { useState, useMemo, useRef } from 'react'
+import React, { useState, useMemo, useRef, useEffect } from 'react'
 import { Profile } from '../parser.js'
-import { FrameData, FlameNode, detectProfileMetadata, FlameGraphRenderer } from '../renderer/index.js'
+import {
+  FrameData,
+  FlameNode,
+  FlameGraphOrientation,
+  detectProfileMetadata,
+  getSampleTypes,
+  getColorLegend,
+  COLOR_SCHEME_LABELS,
+  type ColorScheme,
+  type ColorLegendEntry
+} from '../renderer/index.js'
 import { HottestFramesBar, type FrameWithSelfTime } from './HottestFramesBar.js'
 import { HottestFramesControls } from './HottestFramesControls.js'
 import { FilterControls } from './FilterControls.js'
+import { InvertControls } from './InvertControls.js'
+import { SearchControls } from './SearchControls.js'
+import { ExportControls } from './ExportControls.js'
+import { SampleTypeSelector } from './SampleTypeSelector.js'
 import { FrameDetails } from './FrameDetails.js'
-import { FlameGraph } from './FlameGraph.js'
+import { FlameGraph, type FlameGraphHandle } from './FlameGraph.js'
 import { StackDetails } from './StackDetails.js'
+import { SandwichView } from './SandwichView.js'
+import { FunctionTable } from './FunctionTable.js'
+import { ColorLegend } from './ColorLegend.js'
+import { useFlameTree, getFlameTree } from './hooks/useFlameTree.js'
+import { findHeaviestFrame, type SearchResult } from '../utils/frameSearch.js'
+import { exportFlameTree, type FlameTreeExportFormat } from '../utils/exportFlameTree.js'
+import { downloadFile } from '../utils/download.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface FullFlameGraphProps {
   profile: Profile
@@ -15,130 +37,127 @@ export interface FullFlameGraphProps {
   secondaryColor?: string
   backgroundColor?: string
   textColor?: string
+  colorScheme?: ColorScheme
+  colorLegend?: ColorLegendEntry[]  // Legend of a custom color function, or replaces the built-in one
   fontFamily?: string
   showHottestFrames?: boolean
   showControls?: boolean
   showFrameDetails?: boolean
   showStackDetails?: boolean
+  showSandwichView?: boolean
+  showFunctionTable?: boolean
   hottestFramesHeight?: number
   showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  orientation?: FlameGraphOrientation
+  inverted?: boolean
+  onExport?: (data: string | Uint8Array, format: FlameTreeExportFormat) => void  // Replaces the download
+}
+
+const EXPORT_FILE_TYPES: Record<FlameTreeExportFormat, { extension: string; mimeType: string }> = {
+  folded: { extension: 'folded', mimeType: 'text/plain' },
+  pprof: { extension: 'pb', mimeType: 'application/octet-stream' },
+  json: { extension: 'json', mimeType: 'application/json' },
+}
+
+function toFrameData(node: FlameNode): FrameData {
+  return {
+    id: node.id,
+    name: node.name,
+    value: node.value,
+    selfValue: node.selfValue,
+    depth: node.depth,
+    x: node.x,
+    width: node.width,
+    selfWidth: node.selfWidth,
+    functionName: node.name,
+    fileName: node.fileName,
+    lineNumber: node.lineNumber,
+    inlined: node.inlined,
+    totalValue: node.value,
+    sampleCount: node.sampleCount
+  }
+}
+
+function getStackTrace(node: FlameNode): FlameNode[] {
+  const stack: FlameNode[] = []
+  let current: FlameNode | undefined = node
+  while (current) {
+    stack.unshift(current)
+    current = current.parent
+  }
+  return stack
 }
 
 export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
   profile,
   height,
-  primaryColor = '#ff4444',
-  secondaryColor = '#ffcc66',
-  backgroundColor = '#1e1e1e',
-  textColor = '#ffffff',
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
+  colorScheme = 'ratio',
+  colorLegend,
   fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
   showHottestFrames = true,
   showControls = true,
   showFrameDetails = false,
   showStackDetails = true,
+  showSandwichView = false,
+  showFunctionTable = false,
   hottestFramesHeight = 10,
   showAppCodeOnly: showAppCodeOnlyProp = false,
+  sampleTypeIndex: sampleTypeIndexProp,
+  orientation = 'icicle',
+  inverted: invertedProp = false,
+  onExport,
 }) => {
+  const { primaryColor, secondaryColor, backgroundColor, textColor } = useTheme({
+    primaryColor: primaryColorProp,
+    secondaryColor: secondaryColorProp,
+    backgroundColor: backgroundColorProp,
+    textColor: textColorProp
+  })
+
   const [selectedFrame, setSelectedFrame] = useState<FrameData | null>(null)
   const [selectedFrameId, setSelectedFrameId] = useState<string | null>(null)
   const [frames, setFrames] = useState<FrameWithSelfTime[]>([])
   const [stackTrace, setStackTrace] = useState<any[]>([])
   const [frameChildren, setFrameChildren] = useState<any[]>([])
   const [showAppCodeOnly, setShowAppCodeOnly] = useState(showAppCodeOnlyProp)
+  const [selectedSampleTypeIndex, setSelectedSampleTypeIndex] = useState<number | undefined>(sampleTypeIndexProp)
+  const [inverted, setInverted] = useState(invertedProp)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResult, setSearchResult] = useState<SearchResult | null>(null)
+  const [searchMatchIndex, setSearchMatchIndex] = useState(-1)
 
   // Reference to FlameGraph's renderer
-  const flameGraphRef = useRef<{ rendererRef: React.RefObject<FlameGraphRenderer> }>(null)
+  const flameGraphRef = useRef<FlameGraphHandle>(null)
 
-  // Detect profile metadata directly from the profile
+  // Detect profile metadata directly from the profile, honouring the chosen sample type
   const profileMetadata = useMemo(() => {
     if (!profile) {
       return undefined
     }
-    return detectProfileMetadata(profile)
-  }, [profile])
-
-  // Build a map of all frames for quick lookup
-  const frameMap = useMemo(() => {
-    const map = new Map<string, any>()
-    frames.forEach(f => {
-      map.set(f.nodeId, {
-        id: f.nodeId,
-        name: f.frame.name,
-        value: f.frame.totalValue || f.frame.value,
-        width: f.frame.width,
-        depth: f.frame.depth || f.nodeId.split('/').length - 1,
-        fileName: f.frame.fileName,
-        lineNumber: f.frame.lineNumber,
-        functionName: f.frame.functionName,
-        sampleCount: f.frame.sampleCount,
-        selfValue: f.frame.selfValue,
-        selfWidth: f.frame.selfWidth,
-      })
-    })
-    return map
-  }, [frames])
-
-  // Helper function to build stack trace from frame ID
-  const buildStackTrace = (frameId: string | null): any[] => {
-    if (!frameId) {return []}
-
-    // Parse the frame ID to get the stack (e.g., "root/main/server/handler")
-    const parts = frameId.split('/')
-    const stack: any[] = []
-
-    for (let i = 0; i < parts.length; i++) {
-      const currentId = parts.slice(0, i + 1).join('/')
-      const frameData = frameMap.get(currentId)
-
-      if (frameData) {
-        stack.push(frameData)
-      } else {
-        // Fallback if frame not in map (shouldn't happen normally)
-        stack.push({
-          id: currentId,
-          name: parts[i],
-          depth: i,
-          value: 0,
-          width: 0,
-        })
-      }
-    }
+    return detectProfileMetadata(profile, selectedSampleTypeIndex)
+  }, [profile, selectedSampleTypeIndex])
 
-    return stack
-  }
+  const sampleTypes = useMemo(() => profile ? getSampleTypes(profile) : [], [profile])
+  const sampleTypeIndex = profileMetadata?.sampleTypeIndex
 
-  // Helper function to find children of a frame
-  const findFrameChildren = (frameId: string | null): any[] => {
-    if (!frameId) {return []}
-
-    // Find all frames that are direct children of the selected frame
-    const children: any[] = []
-    const parentDepth = frameId.split('/').length
-
-    frameMap.forEach((frameData, nodeId) => {
-      // Check if this frame is a direct child
-      if (nodeId.startsWith(frameId + '/')) {
-        const frameParts = nodeId.split('/')
-        if (frameParts.length === parentDepth + 1) {
-          children.push(frameData)
-        }
-      }
-    })
-
-    return children
-  }
+  // The tree the graph displays, shared with the other views of this profile
+  const flameTree = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex, inverted })
 
   const handleFrameSelection = (frame: FrameData | null, stack?: any[], children?: any[]) => {
-    // Always try to get the most up-to-date frame data from frameMap
+    // Always try to get the most up-to-date frame data from the shared tree
+    const node = frame ? flameTree.nodes.get(frame.id) : undefined
     let actualFrame = frame
-    if (frame && frameMap.has(frame.id)) {
-      // Merge the frame data with the latest data from frameMap
-      const mapData = frameMap.get(frame.id)
+    if (frame && node) {
       actualFrame = {
         ...frame,
-        ...mapData,
+        ...toFrameData(node),
         // Ensure we preserve the original width from the frame if it exists
-        width: frame.width !== undefined ? frame.width : mapData.width
+        width: frame.width !== undefined ? frame.width : node.width
       }
     }
 
@@ -150,9 +169,9 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
     if (stack && children) {
       setStackTrace(stack)
       setFrameChildren(children)
-    } else if (actualFrame) {
-      setStackTrace(buildStackTrace(actualFrame.id))
-      setFrameChildren(findFrameChildren(actualFrame.id))
+    } else if (node) {
+      setStackTrace(getStackTrace(node))
+      setFrameChildren(node.children)
     } else {
       setStackTrace([])
       setFrameChildren([])
@@ -163,136 +182,113 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
     setFrames(sortedFrames)
   }
 
-  // Build the complete flame graph structure to get all frames
-  const allFramesFlat = useMemo(() => {
-    const allNodes: FlameNode[] = []
-    
-    // Helper function to traverse the flame graph tree
-    const traverse = (node: FlameNode) => {
-      if (!node) {return}
-      allNodes.push(node)
-      if (node.children && node.children.length > 0) {
-        node.children.forEach(traverse)
-      }
+  // Select the heaviest frame of a function in the normal or inverted tree, as
+  // frame paths differ between the two
+  const selectFunction = (frame: FrameData, invertedTree: boolean) => {
+    const tree = getFlameTree(profile, { showAppCodeOnly, sampleTypeIndex, inverted: invertedTree })
+    const node = findHeaviestFrame(tree, frame.name, frame.fileName)
+    if (!node) {
+      handleFrameSelection(null)
+      return
     }
-    
-    // Build flame graph structure from profile (similar to how FlameGraph does it)
-    const buildFlameGraph = () => {
-      const root: FlameNode = {
-        id: 'root',
-        name: 'root',
-        value: 0,
-        selfValue: 0,
-        sampleCount: 0,
-        selfSampleCount: 0,
-        children: [],
-        depth: 0,
-        x: 0,
-        width: 1,
-        selfWidth: 0
-      }
 
-      // Use the correct value index from profile metadata
-      const valueIndex = profileMetadata?.sampleTypeIndex ?? 0
-
-      // Process each sample in the profile
-      if (profile && profile.sample) {
-        profile.sample.forEach((sample: any) => {
-          if (!sample.locationId || sample.locationId.length === 0) {return}
-
-          let currentNode = root
-          const value = sample.value?.[valueIndex] || 1
-          // value could be a BigInt, convert to Number safely
-          root.value += Number(value)
-          root.sampleCount += 1  // Count each sample
-          
-          // Build the stack for this sample
-          const stack: string[] = []
-          sample.locationId.forEach((locationId: any) => {
-            const location = profile.location?.find((loc: any) => loc.id === locationId)
-            if (location && location.line && location.line.length > 0) {
-              const func = profile.function?.find((f: any) => f.id === location.line?.[0]?.functionId)
-              if (func) {
-                const nameIndex = Number(func.name)
-                const funcName = (profile.stringTable as any)?.[nameIndex] || `func_${func.id}`
-                stack.push(funcName)
-              }
-            }
-          })
-          
-          // Traverse/create the tree based on the stack
-          stack.reverse().forEach((funcName, depth) => {
-            let child = currentNode.children.find(c => c.name === funcName)
-            if (!child) {
-              const nodeId = currentNode.id === 'root'
-                ? funcName
-                : `${currentNode.id}/${funcName}`
-              child = {
-                id: nodeId,
-                name: funcName,
-                value: 0,
-                selfValue: 0,
-                sampleCount: 0,
-                selfSampleCount: 0,
-                children: [],
-                depth: depth + 1,
-                x: 0,
-                width: 0,
-                selfWidth: 0
-              }
-              currentNode.children.push(child)
-            }
-            child.value += Number(value)
-            child.sampleCount += 1  // Count each sample that passes through this node
-            currentNode = child
-          })
-        })
-      }
-      
-      // Calculate x and width for each node
-      const calculatePositions = (node: FlameNode, x: number = 0, parentWidth: number = 1) => {
-        node.x = x
-        node.width = parentWidth
-
-        if (node.children.length > 0) {
-          const totalValue = node.children.reduce((sum, child) => sum + child.value, 0)
-          let currentX = x
-
-          node.children.forEach(child => {
-            const childWidth = (child.value / totalValue) * parentWidth
-            calculatePositions(child, currentX, childWidth)
-            currentX += childWidth
-          })
-        }
-      }
+    handleFrameSelection(toFrameData(node), getStackTrace(node), node.children)
+  }
 
-      // Calculate self values and self sample counts
-      const calculateSelfValues = (node: FlameNode) => {
-        // Calculate self value (node's value minus children's value)
-        const childrenTotalValue = node.children.reduce((sum, child) => sum + child.value, 0)
-        node.selfValue = Math.max(0, node.value - childrenTotalValue)
+  const handleInvertedToggle = (enabled: boolean) => {
+    // Keep the selected function highlighted in the other tree
+    if (selectedFrame) {
+      selectFunction(selectedFrame, enabled)
+    }
+    setInverted(enabled)
+  }
 
-        // Calculate self width as percentage of root
-        node.selfWidth = node.selfValue / (root.value || 1)
+  // Hottest frames are always listed from the normal tree
+  const handleHottestFrameSelection = (frame: FrameData | null) => {
+    if (inverted && frame) {
+      selectFunction(frame, true)
+    } else {
+      handleFrameSelection(frame)
+    }
+  }
 
-        // Calculate self sample count (samples that end at this frame)
-        const childrenTotalSamples = node.children.reduce((sum, child) => sum + child.sampleCount, 0)
-        node.selfSampleCount = Math.max(0, node.sampleCount - childrenTotalSamples)
+  // The table aggregates the normal tree, so its frames need mapping in the inverted view
+  const handleFunctionTableSelection = (frame: FrameData, stack: FlameNode[], children: FlameNode[]) => {
+    if (inverted) {
+      selectFunction(frame, true)
+    } else {
+      handleFrameSelection(frame, stack, children)
+    }
+  }
 
-        // Recursively process children
-        node.children.forEach(calculateSelfValues)
-      }
+  const handleSearchResults = (result: SearchResult | null) => {
+    setSearchResult(result)
+    setSearchMatchIndex(-1)
+  }
 
-      calculatePositions(root)
-      calculateSelfValues(root)
-      return root
+  // Step through matches, heaviest first; selecting a match zooms to it
+  const stepSearchMatch = (direction: 1 | -1) => {
+    const matches = searchResult?.matches ?? []
+    if (matches.length === 0) {
+      return
     }
-    
-    const flameRoot = buildFlameGraph()
-    traverse(flameRoot)
 
-    return allNodes
-  }, [profile, profileMetadata])
+    const index = searchMatchIndex < 0
+      ? (direction === 1 ? 0 : matches.length - 1)
+      : (searchMatchIndex + direction + matches.length) % matches.length
+    const node = matches[index]
+
+    setSearchMatchIndex(index)
+    handleFrameSelection(toFrameData(node), getStackTrace(node), node.children)
+  }
+
+  const handleSampleTypeChange = (index: number | undefined) => {
+    // Values change for every frame, so the current selection no longer applies
+    handleFrameSelection(null)
+    setSelectedSampleTypeIndex(index)
+  }
+
+  // Follow the props when the parent changes them, or the default sample type of a new profile
+  useEffect(() => {
+    if (sampleTypeIndexProp !== selectedSampleTypeIndex) {
+      handleSampleTypeChange(sampleTypeIndexProp)
+    }
+  }, [sampleTypeIndexProp, profile])
+
+  useEffect(() => {
+    if (invertedProp !== inverted) {
+      handleInvertedToggle(invertedProp)
+    }
+  }, [invertedProp])
+
+  // Export the zoomed-in frame, or the whole graph when nothing is selected
+  const handleExport = (format: FlameTreeExportFormat) => {
+    const node = (selectedFrameId ? flameTree.nodes.get(selectedFrameId) : undefined) ?? flameTree.root
+    const data = exportFlameTree(node, format, flameTree.profileMetadata)
+
+    if (onExport) {
+      onExport(data, format)
+      return
+    }
+
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format]
+    const suffix = node.parent ? `-${node.name.replace(/[^\w.-]+/g, '_')}` : ''
+    downloadFile(data, `flamegraph${suffix}.${extension}`, mimeType)
+  }
+
+  // All frames of the displayed tree, e.g. to colour the selected frame like the graph does
+  const allFramesFlat = useMemo(() => [...flameTree.nodes.values()], [flameTree])
+
+  // The default scheme has no legend, and custom color functions only the one they are given
+  let legend: { title: string, entries: ColorLegendEntry[] } | null = null
+  if (typeof colorScheme === 'function') {
+    legend = colorLegend ? { title: 'Custom', entries: colorLegend } : null
+  } else if (colorScheme !== 'ratio' || colorLegend) {
+    legend = {
+      title: COLOR_SCHEME_LABELS[colorScheme],
+      entries: colorLegend ?? getColorLegend(colorScheme, primaryColor, secondaryColor)
+    }
+  }
 
   // Find the current frame based on selection
   const currentFrame = frames.find(f => selectedFrame && f.nodeId === selectedFrame.id)
@@ -315,13 +311,15 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
         <div style={{ marginBottom: '10px' }}>
           <HottestFramesBar
             profile={profile}
+            showAppCodeOnly={showAppCodeOnly}
+            sampleTypeIndex={sampleTypeIndex}
             height={hottestFramesHeight}
             primaryColor={primaryColor}
             secondaryColor={secondaryColor}
             backgroundColor={backgroundColor}
             textColor={textColor}
             selectedFrame={selectedFrame}
-            onFrameSelect={handleFrameSelection}
+            onFrameSelect={handleHottestFrameSelection}
             onNavigationChange={handleNavigationChange}
           />
         </div>
@@ -340,8 +338,10 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
             <div style={{ flex: '0 0 auto', display: 'flex', gap: '16px', alignItems: 'center' }}>
               <HottestFramesControls
                 profile={profile}
+                showAppCodeOnly={showAppCodeOnly}
+                sampleTypeIndex={sampleTypeIndex}
                 selectedFrame={selectedFrame}
-                onFrameSelect={handleFrameSelection}
+                onFrameSelect={handleHottestFrameSelection}
                 textColor={textColor}
               />
               <FilterControls
@@ -349,6 +349,36 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
                 onToggle={setShowAppCodeOnly}
                 textColor={textColor}
               />
+              <InvertControls
+                inverted={inverted}
+                onToggle={handleInvertedToggle}
+                textColor={textColor}
+              />
+              {sampleTypes.length > 1 && sampleTypeIndex !== undefined && (
+                <SampleTypeSelector
+                  sampleTypes={sampleTypes}
+                  sampleTypeIndex={sampleTypeIndex}
+                  onChange={handleSampleTypeChange}
+                  textColor={textColor}
+                  backgroundColor={backgroundColor}
+                />
+              )}
+              <SearchControls
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                result={searchResult}
+                currentMatchIndex={searchMatchIndex}
+                onNextMatch={() => stepSearchMatch(1)}
+                onPreviousMatch={() => stepSearchMatch(-1)}
+                textColor={textColor}
+                backgroundColor={backgroundColor}
+              />
+              <ExportControls
+                onExport={handleExport}
+                selectedFrameName={selectedFrame && selectedFrame.depth > 0 ? selectedFrame.name : null}
+                textColor={textColor}
+                backgroundColor={backgroundColor}
+              />
             </div>
           )}
 
@@ -366,6 +396,17 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
         </div>
       )}
 
+      {legend && (
+        <div style={{ marginBottom: '10px' }}>
+          <ColorLegend
+            title={legend.title}
+            entries={legend.entries}
+            textColor={textColor}
+            fontFamily={fontFamily}
+          />
+        </div>
+      )}
+
       <div style={{ position: 'relative' }}>
         <FlameGraph
           ref={flameGraphRef}
@@ -375,9 +416,15 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
           secondaryColor={secondaryColor}
           backgroundColor={backgroundColor}
           textColor={textColor}
+          colorScheme={colorScheme}
           fontFamily={fontFamily}
           selectedFrameId={selectedFrameId}
           showAppCodeOnly={showAppCodeOnly}
+          sampleTypeIndex={sampleTypeIndex}
+          orientation={orientation}
+          inverted={inverted}
+          searchQuery={searchQuery}
+          onSearchResults={handleSearchResults}
           onFrameClick={handleFrameSelection}
         />
 
@@ -439,6 +486,7 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
                 textColor={textColor}
                 primaryColor={primaryColor}
                 secondaryColor={secondaryColor}
+                colorScheme={colorScheme}
                 width="100%"
                 height="100%"
                 allFrames={allFramesFlat}
@@ -449,6 +497,39 @@ export const FullFlameGraph: React.FC<FullFlameGraphProps> = ({
           </div>
         )}
       </div>
+
+      {showFunctionTable && (
+        <div style={{ marginTop: '10px' }}>
+          <FunctionTable
+            profile={profile}
+            showAppCodeOnly={showAppCodeOnly}
+            sampleTypeIndex={sampleTypeIndex}
+            selectedFrame={selectedFrame}
+            onFrameSelect={handleFunctionTableSelection}
+            textColor={textColor}
+            backgroundColor={backgroundColor}
+            primaryColor={primaryColor}
+            fontFamily={fontFamily}
+          />
+        </div>
+      )}
+
+      {showSandwichView && selectedFrame && selectedFrame.depth > 0 && (
+        <div style={{ marginTop: '10px' }}>
+          <SandwichView
+            profile={profile}
+            functionName={selectedFrame.name}
+            fileName={selectedFrame.fileName}
+            showAppCodeOnly={showAppCodeOnly}
+            sampleTypeIndex={sampleTypeIndex}
+            primaryColor={primaryColor}
+            secondaryColor={secondaryColor}
+            backgroundColor={backgroundColor}
+            textColor={textColor}
+            fontFamily={fontFamily}
+          />
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,117 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { FunctionTable } from './FunctionTable.js'
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
+
+// A server where the same helpers are reached from several request handlers
+const createServerProfile = (): Profile => {
+  const stringTable = new StringTable()
+
+  const functions = [
+    { name: 'main', file: '/app/server.js', line: 1 },
+    { name: 'getUser', file: '/app/routes/user.js', line: 12 },
+    { name: 'listOrders', file: '/app/routes/orders.js', line: 30 },
+    { name: 'getProduct', file: '/app/routes/product.js', line: 8 },
+    { name: 'db.query', file: '/app/node_modules/pg/lib/client.js', line: 512 },
+    { name: 'JSON.stringify', file: 'json.js', line: 1 },
+    { name: 'validate', file: '/app/lib/validate.js', line: 20 }
+  ]
+
+  const profileFunctions = functions.map((func, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(func.name),
+    filename: stringTable.dedup(func.file),
+    startLine: func.line
+  }))
+
+  const locations = profileFunctions.map((func, i) => new Location({
+    id: i + 1,
+    line: [new Line({ functionId: func.id, line: functions[i].line })]
+  }))
+
+  // Stacks are listed root first with their sample counts
+  const stacks: Array<[number[], number]> = [
+    [[1, 2, 5], 20],
+    [[1, 2, 6], 10],
+    [[1, 3, 5], 35],
+    [[1, 3, 6], 25],
+    [[1, 4, 7], 15],
+    [[1, 4, 5], 10],
+    [[1, 4, 6], 5]
+  ]
+
+  const samples: Sample[] = []
+  for (const [stack, count] of stacks) {
+    for (let i = 0; i < count; i++) {
+      samples.push(new Sample({
+        locationId: [...stack].reverse(),
+        value: [1, 10000000]
+      }))
+    }
+  }
+
+  return new Profile({
+    sampleType: [
+      new ValueType({ type: stringTable.dedup('samples'), unit: stringTable.dedup('count') }),
+      new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })
+    ],
+    sample: samples,
+    location: locations,
+    function: profileFunctions,
+    stringTable,
+    periodType: new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') }),
+    period: 10000000
+  })
+}
+
+const profile = createServerProfile()
+
+const meta = {
+  title: 'FunctionTable',
+  component: FunctionTable,
+  parameters: {
+    layout: 'padded',
+  },
+  argTypes: {
+    // Exclude profile from controls as it contains BigInt values that can't be serialized
+    profile: { control: false },
+    onFrameSelect: { control: false },
+  },
+} satisfies Meta<typeof FunctionTable>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    profile,
+    onFrameSelect: (frame) => console.log('Frame selected:', frame.id),
+  },
+}
+
+export const AppCodeOnly: Story = {
+  args: {
+    profile,
+    showAppCodeOnly: true,
+    onFrameSelect: (frame) => console.log('Frame selected:', frame.id),
+  },
+}
+
+export const WithSelection: Story = {
+  args: {
+    profile,
+    selectedFrame: {
+      id: 'root/main/listOrders/db.query',
+      name: 'db.query',
+      value: 350000000,
+      selfValue: 350000000,
+      depth: 3,
+      x: 0,
+      width: 0.29,
+      selfWidth: 0.29,
+      functionName: 'db.query',
+      fileName: '/app/node_modules/pg/lib/client.js',
+      lineNumber: 512,
+      totalValue: 350000000,
+    },
+  },
+}
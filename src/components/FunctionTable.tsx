@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react'
+import { Profile } from '../parser.js'
+import { FlameNode, FrameData, formatValue, formatPercentage, formatSampleCount, getSelfValueLabel, getTotalValueLabel, getMetricLabel } from '../renderer/index.js'
+import { FunctionStats, aggregateFunctions, getFunctionKey } from '../utils/functionStats.js'
+import { useFlameTree } from './hooks/useFlameTree.js'
+import { useTheme } from './ThemeProvider.js'
+
+export type FunctionTableSortKey = 'name' | 'selfValue' | 'totalValue' | 'sampleCount' | 'percentage'
+
+export interface FunctionTableProps {
+  profile: Profile
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  selectedFrame?: FrameData | null
+  onFrameSelect?: (frame: FrameData, stackTrace: FlameNode[], children: FlameNode[]) => void
+  maxHeight?: number
+  textColor?: string
+  backgroundColor?: string
+  primaryColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+export const FunctionTable: React.FC<FunctionTableProps> = ({
+  profile,
+  showAppCodeOnly = false,
+  sampleTypeIndex,
+  selectedFrame,
+  onFrameSelect,
+  maxHeight = 300,
+  textColor: textColorProp,
+  backgroundColor: backgroundColorProp,
+  primaryColor: primaryColorProp,
+  fontSize = '13px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor, backgroundColor, primaryColor } = useTheme({
+    textColor: textColorProp,
+    backgroundColor: backgroundColorProp,
+    primaryColor: primaryColorProp
+  })
+
+  const [sortKey, setSortKey] = useState<FunctionTableSortKey>('selfValue')
+  const [sortAscending, setSortAscending] = useState(false)
+
+  const { root, profileMetadata } = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex })
+  const functions = useMemo(() => aggregateFunctions(root), [root])
+
+  const sortedFunctions = useMemo(() => {
+    const direction = sortAscending ? 1 : -1
+    return [...functions].sort((a, b) => {
+      if (sortKey === 'name') {
+        return a.name.localeCompare(b.name) * direction
+      }
+      return (a[sortKey] - b[sortKey]) * direction
+    })
+  }, [functions, sortKey, sortAscending])
+
+  const selectedKey = selectedFrame
+    ? getFunctionKey(selectedFrame.name, selectedFrame.fileName, selectedFrame.lineNumber)
+    : null
+
+  const handleSort = (key: FunctionTableSortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      // Names read best A-Z, values largest first
+      setSortAscending(key === 'name')
+    }
+  }
+
+  const handleRowClick = (entry: FunctionStats) => {
+    if (!onFrameSelect) {return}
+
+    const node = entry.heaviestNode
+    const stackTrace: FlameNode[] = []
+    let current: FlameNode | undefined = node
+    while (current) {
+      stackTrace.unshift(current)
+      current = current.parent
+    }
+
+    onFrameSelect(
+      {
+        id: node.id,
+        name: node.name,
+        value: node.value,
+        selfValue: node.selfValue,
+        depth: node.depth,
+        x: node.x,
+        width: node.width,
+        selfWidth: node.selfWidth,
+        functionName: node.name,
+        fileName: node.fileName,
+        lineNumber: node.lineNumber,
+        inlined: node.inlined,
+        totalValue: node.value,
+        sampleCount: node.sampleCount
+      },
+      stackTrace,
+      node.children
+    )
+  }
+
+  const format = (value: number) => formatValue(value, profileMetadata)
+
+  const columns: Array<{ key: FunctionTableSortKey; label: string; align: 'left' | 'right' }> = [
+    { key: 'name', label: 'Function', align: 'left' },
+    { key: 'selfValue', label: getSelfValueLabel(profileMetadata), align: 'right' },
+    { key: 'totalValue', label: getTotalValueLabel(profileMetadata), align: 'right' },
+    { key: 'sampleCount', label: getMetricLabel(profileMetadata), align: 'right' },
+    { key: 'percentage', label: '% of Total', align: 'right' },
+  ]
+
+  const cellStyle = (align: 'left' | 'right'): React.CSSProperties => ({
+    padding: '4px 8px',
+    textAlign: align,
+    whiteSpace: 'nowrap',
+    borderBottom: `1px solid ${textColor}20`,
+  })
+
+  return (
+    <div
+      data-testid="function-table"
+      style={{
+        maxHeight: `${maxHeight}px`,
+        overflowY: 'auto',
+        backgroundColor,
+        color: textColor,
+        fontSize,
+        fontFamily,
+      }}
+    >
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            {columns.map(column => (
+              <th
+                key={column.key}
+                aria-sort={sortKey === column.key ? (sortAscending ? 'ascending' : 'descending') : 'none'}
+                style={{
+                  ...cellStyle(column.align),
+                  position: 'sticky',
+                  top: 0,
+                  backgroundColor,
+                  fontWeight: 'bold',
+                  padding: 0,
+                }}
+              >
+                <button
+                  onClick={() => handleSort(column.key)}
+                  style={{
+                    width: '100%',
+                    background: 'transparent',
+                    border: 'none',
+                    color: textColor,
+                    font: 'inherit',
+                    fontWeight: 'bold',
+                    textAlign: column.align,
+                    padding: '6px 8px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {column.label}
+                  {sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedFunctions.map(entry => {
+            const isSelected = entry.key === selectedKey
+            return (
+              <tr
+                key={entry.key}
+                onClick={() => handleRowClick(entry)}
+                aria-selected={isSelected}
+                title={entry.frameCount > 1 ? `Merged from ${entry.frameCount} frames` : undefined}
+                style={{
+                  cursor: onFrameSelect ? 'pointer' : 'default',
+                  backgroundColor: isSelected ? `${primaryColor}40` : 'transparent',
+                }}
+              >
+                <td style={{ ...cellStyle('left'), maxWidth: '400px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  <span>{entry.name}</span>
+                  {entry.fileName && (
+                    <span style={{ opacity: 0.6 }}>
+                      {' '}{entry.fileName}{entry.lineNumber ? `:${entry.lineNumber}` : ''}
+                    </span>
+                  )}
+                </td>
+                <td style={cellStyle('right')}>{format(entry.selfValue)}</td>
+                <td style={cellStyle('right')}>{format(entry.totalValue)}</td>
+                <td style={cellStyle('right')}>{formatSampleCount(entry.sampleCount)}</td>
+                <td style={cellStyle('right')}>{formatPercentage(entry.percentage)}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react'
 import { Profile } from '../parser'
-import { FrameData, FlameNode, detectProfileMetadata } from '../renderer/index.js'
+import { FrameData, FlameNode } from '../renderer/index.js'
+import { useFlameTree } from './hooks/useFlameTree.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface HottestFramesBarProps {
   profile: Profile
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
   width?: number | string
   height?: number
   primaryColor?: string
@@ -21,245 +25,81 @@ export interface FrameWithSelfTime {
   nodeId: string
 }
 
+/**
+ * List every frame of a tree except the root, sorted by self-time and then
+ * by total value for frames without self-time
+ */
+export function getFramesBySelfTime(root: FlameNode): FrameWithSelfTime[] {
+  const frames: FrameWithSelfTime[] = []
+
+  const collectFrames = (node: FlameNode) => {
+    if (node.id !== 'root') {
+      frames.push({
+        frame: {
+          id: node.id,
+          name: node.name,
+          value: node.selfValue,
+          selfValue: node.selfValue,
+          depth: node.depth,
+          x: 0, // Will be calculated by the caller
+          width: 0, // Will be calculated by the caller
+          selfWidth: node.selfWidth,
+          functionName: node.name,
+          fileName: node.fileName,
+          lineNumber: node.lineNumber,
+          inlined: node.inlined,
+          totalValue: node.value,
+          sampleCount: node.sampleCount,
+        },
+        selfTime: node.selfValue,
+        nodeId: node.id
+      })
+    }
+
+    for (const child of node.children) {
+      collectFrames(child)
+    }
+  }
+
+  collectFrames(root)
+
+  return frames.sort((a, b) => {
+    if (a.selfTime !== b.selfTime) {
+      return b.selfTime - a.selfTime
+    }
+    return b.frame.totalValue - a.frame.totalValue
+  })
+}
+
 export const HottestFramesBar: React.FC<HottestFramesBarProps> = ({
   profile,
+  showAppCodeOnly = false,
+  sampleTypeIndex,
   width = '100%',
   height = 10,
-  primaryColor = '#ff4444',
-  secondaryColor = '#ffcc66',
-  backgroundColor = '#1e1e1e',
-  textColor = '#ffffff',
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
   selectedFrame,
   onFrameSelect,
   onNavigationChange,
 }) => {
+  const { primaryColor, secondaryColor, backgroundColor, textColor } = useTheme({
+    primaryColor: primaryColorProp,
+    secondaryColor: secondaryColorProp,
+    backgroundColor: backgroundColorProp,
+    textColor: textColorProp
+  })
+
   const [selectedIndex, setSelectedIndex] = useState(0)
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
 
-  // Process profile to get frames sorted by self-time
-  const sortedFrames = useMemo(() => {
-    const frameMap = new Map<string, FrameWithSelfTime>()
-
-    // Detect profile metadata to get the correct sample type index
-    const metadata = detectProfileMetadata(profile)
-    const valueIndex = metadata.sampleTypeIndex
+  const { root } = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex })
 
-    // We need to build the same flame graph structure as the FlameGraph component
-    // to ensure frame IDs match
-    const buildFlameGraph = (profile: Profile) => {
-      const samples: Array<{stack: string[], value: number, locations?: any[]}> = []
-      let totalValue = 0
-
-      // Extract function names from string table
-      const stringTable = profile.stringTable?.strings || []
-
-      // Helper function to safely get string from table
-      const getString = (index: number | bigint | undefined): string | undefined => {
-        if (index === undefined) {
-          return undefined
-        }
-        const idx = Number(index)
-        return stringTable[idx]
-      }
-
-      // Build function and location lookup tables
-      const functions = new Map()
-      const locations = new Map()
-
-      // Build function lookup table
-      for (const func of profile.function || []) {
-        if (func.id && func.name) {
-          const name = getString(func.name) || `func_${func.id}`
-          const filename = getString(func.filename)
-
-          functions.set(func.id.toString(), {
-            name,
-            filename,
-            startLine: func.startLine
-          })
-        }
-      }
-
-      // Build location lookup table
-      for (const location of profile.location || []) {
-        if (location.id) {
-          const locInfo: any = { functions: [] }
-
-          for (const line of location.line || []) {
-            const funcId = line.functionId?.toString()
-            const func = functions.get(funcId)
-
-            if (func) {
-              locInfo.functions.push({
-                functionName: func.name,
-                filename: func.filename,
-                line: line.line ? Number(line.line) : undefined
-              })
-            }
-          }
-
-          locations.set(location.id.toString(), locInfo)
-        }
-      }
-
-      // Process samples
-      for (const sample of profile.sample || []) {
-        const value = sample.value?.[valueIndex] || 0
-        const numericValue = typeof value === 'bigint' ? Number(value) : value
-        totalValue += numericValue
-
-        // Build the stack from locationIds
-        const stack: string[] = []
-        const locationInfo: any[] = []
-
-        // In pprof format, locationIds are stored from leaf to root
-        // We need to reverse to get root to leaf for building the flame graph tree
-        for (let i = (sample.locationId?.length || 0) - 1; i >= 0; i--) {
-          const locId = sample.locationId?.[i]?.toString()
-          const loc = locations.get(locId)
-
-          if (loc && loc.functions.length > 0) {
-            // Use the first function at this location
-            const func = loc.functions[0]
-            stack.push(func.functionName)
-            locationInfo.push(func)
-          }
-        }
-
-        if (stack.length > 0) {
-          samples.push({
-            stack,
-            value: numericValue,
-            locations: locationInfo
-          })
-        }
-      }
-
-      return { samples, totalValue }
-    }
-
-    const { samples, totalValue } = buildFlameGraph(profile)
-
-    // Create flame graph nodes similar to FlameDataProcessor
-    const root: FlameNode = {
-      id: 'root',
-      name: 'all',
-      value: totalValue,
-      selfValue: 0, // Will be calculated
-      sampleCount: 0,
-      selfSampleCount: 0,
-      x: 0,
-      width: 1,
-      selfWidth: 0, // Will be calculated
-      depth: 0,
-      children: []
-    }
-
-    // Build tree structure
-    const nodeMap = new Map<string, FlameNode>()
-    nodeMap.set('root', root)
-
-    for (const sample of samples) {
-      let currentParent = root
-      let currentPath = 'root'
-
-      for (let i = 0; i < sample.stack.length; i++) {
-        const functionName = sample.stack[i]
-        const nodeId = `${currentPath}/${functionName}`
-        const location = sample.locations?.[i]
-
-        let node = nodeMap.get(nodeId)
-
-        if (!node) {
-          // Create new node
-          node = {
-            id: nodeId,
-            name: functionName,
-            value: 0,
-            selfValue: 0, // Will be calculated
-            sampleCount: 0,
-            selfSampleCount: 0,
-            x: 0,
-            width: 0,
-            selfWidth: 0, // Will be calculated
-            depth: i + 1,
-            children: [],
-            parent: currentParent,
-            fileName: location?.filename,
-            lineNumber: location?.line
-          }
-
-          nodeMap.set(nodeId, node)
-          currentParent.children.push(node)
-        }
-
-        // Accumulate sample value and count
-        node.value += sample.value
-        node.sampleCount += 1
-
-        currentParent = node
-        currentPath = nodeId
-      }
-    }
-
-    // Calculate self-time values for all nodes
-    const calculateSelfTimes = (node: FlameNode) => {
-      const childrenTotalValue = node.children.reduce((sum, child) => sum + child.value, 0)
-      node.selfValue = Math.max(0, node.value - childrenTotalValue)
-      node.selfWidth = node.selfValue / root.value
-      
-      // Recursively process children
-      node.children.forEach(calculateSelfTimes)
-    }
-    
-    calculateSelfTimes(root)
-
-    // Collect all frames with their pre-computed self-time
-    const collectFrames = (node: FlameNode) => {
-      // Use pre-computed self-time from FlameDataProcessor
-      const selfTime = node.selfValue
-
-      // Include ALL frames except root, even with zero self-time
-      if (node.id !== 'root') {
-        frameMap.set(node.id, {
-          frame: {
-            id: node.id,
-            name: node.name,
-            value: selfTime,
-            selfValue: node.selfValue,
-            depth: node.depth,
-            x: 0, // Will be calculated later
-            width: 0, // Will be calculated later
-            selfWidth: node.selfWidth,
-            functionName: node.name,
-            fileName: node.fileName,
-            lineNumber: node.lineNumber,
-            totalValue: node.value,
-            sampleCount: node.sampleCount,
-          },
-          selfTime: selfTime,
-          nodeId: node.id
-        })
-      }
-
-      // Recursively collect from children
-      for (const child of node.children) {
-        collectFrames(child)
-      }
-    }
-
-    collectFrames(root)
-
-    // Sort frames by self-time (descending), then by total value for frames with 0 self-time
-    const sorted = Array.from(frameMap.values())
-      .sort((a, b) => {
-        // First sort by self-time
-        if (a.selfTime !== b.selfTime) {
-          return b.selfTime - a.selfTime
-        }
-        // For frames with equal self-time (including 0), sort by total value
-        return b.frame.totalValue - a.frame.totalValue
-      })
+  // Frames sorted by self-time, laid out for the bar
+  const sortedFrames = useMemo(() => {
+    const sorted = getFramesBySelfTime(root)
 
     // Calculate widths for visualization
     // Frames with self-time get proportional width
@@ -289,7 +129,7 @@ export const HottestFramesBar: React.FC<HottestFramesBarProps> = ({
     })
 
     return sorted
-  }, [profile])
+  }, [root])
 
   // Update selected index when external frame is selected or unselected
   useEffect(() => {
@@ -1,10 +1,14 @@
 import React, { useMemo, useEffect, useState } from 'react'
 import { Profile } from '../parser.js'
-import { FrameData, FlameNode, detectProfileMetadata } from '../renderer/index.js'
-import { FrameWithSelfTime } from './HottestFramesBar.js'
+import { FrameData } from '../renderer/index.js'
+import { getFramesBySelfTime } from './HottestFramesBar.js'
+import { useFlameTree } from './hooks/useFlameTree.js'
+import { useTheme } from './ThemeProvider.js'
 
 export interface HottestFramesControlsProps {
   profile: Profile
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
   selectedFrame?: FrameData | null
   onFrameSelect?: (frame: FrameData) => void
   textColor?: string
@@ -14,208 +18,22 @@ export interface HottestFramesControlsProps {
 
 export const HottestFramesControls: React.FC<HottestFramesControlsProps> = ({
   profile,
+  showAppCodeOnly = false,
+  sampleTypeIndex,
   selectedFrame,
   onFrameSelect,
-  textColor = '#ffffff',
+  textColor: textColorProp,
   fontSize = '14px',
   fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
 }) => {
+  const { textColor } = useTheme({ textColor: textColorProp })
+
   const [currentIndex, setCurrentIndex] = useState(0)
   
-  // Process profile to get sorted frames (reuse logic from HottestFramesBar)
-  const sortedFrames = useMemo(() => {
-    // This is a simplified version - in production you'd want to share this logic
-    // with HottestFramesBar through a custom hook or utility function
-    const frameMap = new Map<string, FrameWithSelfTime>()
-
-    // Detect profile metadata to get the correct sample type index
-    const metadata = detectProfileMetadata(profile)
-    const valueIndex = metadata.sampleTypeIndex
-
-    // Build flame graph structure from profile
-    const buildFlameGraph = (profile: Profile) => {
-      const samples: Array<{stack: string[], value: number, locations?: any[]}> = []
-      let totalValue = 0
-
-      const stringTable = profile.stringTable?.strings || []
-      const getString = (index: number | bigint | undefined): string | undefined => {
-        if (index === undefined) {return undefined}
-        const idx = Number(index)
-        return stringTable[idx]
-      }
-
-      const functions = new Map()
-      const locations = new Map()
-
-      for (const func of profile.function || []) {
-        if (func.id && func.name) {
-          const name = getString(func.name) || `func_${func.id}`
-          const filename = getString(func.filename)
-          functions.set(func.id.toString(), {
-            name,
-            filename,
-            startLine: func.startLine
-          })
-        }
-      }
-
-      for (const location of profile.location || []) {
-        if (location.id) {
-          const locInfo: any = { functions: [] }
-          for (const line of location.line || []) {
-            const funcId = line.functionId?.toString()
-            const func = functions.get(funcId)
-            if (func) {
-              locInfo.functions.push({
-                functionName: func.name,
-                filename: func.filename,
-                line: line.line ? Number(line.line) : undefined
-              })
-            }
-          }
-          locations.set(location.id.toString(), locInfo)
-        }
-      }
-
-      for (const sample of profile.sample || []) {
-        const value = sample.value?.[valueIndex] || 0
-        const numericValue = typeof value === 'bigint' ? Number(value) : value
-        totalValue += numericValue
-
-        const stack: string[] = []
-        const locationInfo: any[] = []
-
-        for (let i = (sample.locationId?.length || 0) - 1; i >= 0; i--) {
-          const locId = sample.locationId?.[i]?.toString()
-          const loc = locations.get(locId)
-          if (loc && loc.functions.length > 0) {
-            const func = loc.functions[0]
-            stack.push(func.functionName)
-            locationInfo.push(func)
-          }
-        }
-
-        if (stack.length > 0) {
-          samples.push({
-            stack,
-            value: numericValue,
-            locations: locationInfo
-          })
-        }
-      }
-
-      return { samples, totalValue }
-    }
-
-    const { samples, totalValue } = buildFlameGraph(profile)
-
-    // Build tree structure
-    const root: FlameNode = {
-      id: 'root',
-      name: 'all',
-      value: totalValue,
-      selfValue: 0, // Will be calculated
-      sampleCount: 0,
-      selfSampleCount: 0,
-      children: [],
-      depth: 0,
-      x: 0,
-      width: 1,
-      selfWidth: 0 // Will be calculated
-    }
-
-    const nodeMap = new Map<string, FlameNode>()
-    nodeMap.set('root', root)
-
-    for (const sample of samples) {
-      let currentParent = root
-      let currentPath = 'root'
-
-      for (let i = 0; i < sample.stack.length; i++) {
-        const functionName = sample.stack[i]
-        const nodeId = `${currentPath}/${functionName}`
-        const location = sample.locations?.[i]
-
-        let node = nodeMap.get(nodeId)
-        if (!node) {
-          node = {
-            id: nodeId,
-            name: functionName,
-            value: 0,
-            selfValue: 0, // Will be calculated
-            sampleCount: 0,
-            selfSampleCount: 0,
-            children: [],
-            depth: i + 1,
-            x: 0,
-            width: 0,
-            selfWidth: 0, // Will be calculated
-            fileName: location?.filename,
-            lineNumber: location?.line
-          }
-          nodeMap.set(nodeId, node)
-          currentParent.children.push(node)
-        }
-        node.value += sample.value
-        node.sampleCount += 1
-        currentParent = node
-        currentPath = nodeId
-      }
-    }
-
-    // Calculate self-time values for all nodes
-    const calculateSelfTimes = (node: FlameNode) => {
-      const childrenTotalValue = node.children.reduce((sum, child) => sum + child.value, 0)
-      node.selfValue = Math.max(0, node.value - childrenTotalValue)
-      node.selfWidth = node.selfValue / root.value
-      
-      // Recursively process children
-      node.children.forEach(calculateSelfTimes)
-    }
-    
-    calculateSelfTimes(root)
-
-    // Collect frames with pre-computed self-time
-    const collectFrames = (node: FlameNode) => {
-      // Use pre-computed self-time from FlameDataProcessor
-      const selfTime = node.selfValue
-      if (node.id !== 'root') {
-        frameMap.set(node.id, {
-          frame: {
-            id: node.id,
-            name: node.name,
-            value: selfTime,
-            selfValue: node.selfValue,
-            depth: node.id.split('/').length - 1,
-            x: 0,
-            width: 0,
-            selfWidth: node.selfWidth,
-            functionName: node.name,
-            fileName: node.fileName,
-            lineNumber: node.lineNumber,
-            totalValue: node.value,
-            sampleCount: node.sampleCount,
-          },
-          selfTime: selfTime,
-          nodeId: node.id
-        })
-      }
-      for (const child of node.children) {
-        collectFrames(child)
-      }
-    }
-
-    collectFrames(root)
+  const { root } = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex })
 
-    // Sort by self-time
-    return Array.from(frameMap.values())
-      .sort((a, b) => {
-        if (a.selfTime !== b.selfTime) {
-          return b.selfTime - a.selfTime
-        }
-        return b.frame.totalValue - a.frame.totalValue
-      })
-  }, [profile])
+  // Same frames and order as HottestFramesBar
+  const sortedFrames = useMemo(() => getFramesBySelfTime(root), [root])
 
   // Update current index when selected frame changes
   useEffect(() => {
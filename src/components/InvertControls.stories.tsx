@@ -0,0 +1,59 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { useState } from 'react'
+import { InvertControls } from './InvertControls.js'
+
+const meta = {
+  title: 'InvertControls',
+  component: InvertControls,
+  parameters: {
+    layout: 'centered',
+  },
+  argTypes: {
+    onToggle: { control: false },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ backgroundColor: '#1e1e1e', padding: '40px', minWidth: '400px' }}>
+        <Story />
+      </div>
+    ),
+  ],
+} satisfies Meta<typeof InvertControls>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Unchecked: Story = {
+  args: {
+    inverted: false,
+    onToggle: (enabled) => console.log('Invert toggled:', enabled),
+    textColor: '#ffffff',
+  },
+}
+
+export const Checked: Story = {
+  args: {
+    inverted: true,
+    onToggle: (enabled) => console.log('Invert toggled:', enabled),
+    textColor: '#ffffff',
+  },
+}
+
+export const Interactive: Story = {
+  render: () => {
+    const [inverted, setInverted] = useState(false)
+
+    return (
+      <div>
+        <InvertControls
+          inverted={inverted}
+          onToggle={setInverted}
+          textColor="#ffffff"
+        />
+        <div style={{ marginTop: '20px', color: '#ffffff', textAlign: 'center' }}>
+          Current view: {inverted ? 'Inverted (callers)' : 'Normal (callees)'}
+        </div>
+      </div>
+    )
+  },
+}
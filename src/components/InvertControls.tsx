@@ -0,0 +1,99 @@
+import React from 'react'
+import { useTheme } from './ThemeProvider.js'
+
+export interface InvertControlsProps {
+  inverted: boolean
+  onToggle: (enabled: boolean) => void
+  textColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+export const InvertControls: React.FC<InvertControlsProps> = ({
+  inverted,
+  onToggle,
+  textColor: textColorProp,
+  fontSize = '14px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor, backgroundColor } = useTheme({ textColor: textColorProp })
+
+  const handleCheckboxChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onToggle(event.target.checked)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '8px',
+        color: textColor,
+        fontSize,
+        fontFamily,
+        padding: '8px 0',
+      }}
+    >
+      <label
+        title="Build the graph from the functions samples ended in up to their callers"
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          cursor: 'pointer',
+          userSelect: 'none',
+        }}
+      >
+        <div
+          style={{
+            position: 'relative',
+            width: '16px',
+            height: '16px',
+            border: `1.5px solid ${textColor}`,
+            borderRadius: '3px',
+            backgroundColor: inverted ? textColor : 'transparent',
+            transition: 'background-color 0.15s',
+            flexShrink: 0,
+          }}
+        >
+          {inverted && (
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 16 16"
+              fill="none"
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+              }}
+            >
+              <path
+                d="M3 8L6.5 11.5L13 4.5"
+                stroke={backgroundColor}
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+          <input
+            type="checkbox"
+            checked={inverted}
+            onChange={handleCheckboxChange}
+            style={{
+              position: 'absolute',
+              opacity: 0,
+              width: '100%',
+              height: '100%',
+              cursor: 'pointer',
+              margin: 0,
+            }}
+          />
+        </div>
+        <span>Invert Stacks</span>
+      </label>
+    </div>
+  )
+}
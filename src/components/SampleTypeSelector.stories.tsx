@@ -0,0 +1,73 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { useState } from 'react'
+import { SampleTypeSelector } from './SampleTypeSelector.js'
+
+const goHeapSampleTypes = [
+  { index: 0, type: 'alloc_objects', unit: 'count' },
+  { index: 1, type: 'alloc_space', unit: 'bytes' },
+  { index: 2, type: 'inuse_objects', unit: 'count' },
+  { index: 3, type: 'inuse_space', unit: 'bytes' }
+]
+
+const meta = {
+  title: 'SampleTypeSelector',
+  component: SampleTypeSelector,
+  parameters: {
+    layout: 'centered',
+  },
+  argTypes: {
+    onChange: { control: false },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ backgroundColor: '#1e1e1e', padding: '40px', minWidth: '400px' }}>
+        <Story />
+      </div>
+    ),
+  ],
+} satisfies Meta<typeof SampleTypeSelector>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const GoHeapProfile: Story = {
+  args: {
+    sampleTypes: goHeapSampleTypes,
+    sampleTypeIndex: 1,
+    onChange: (index) => console.log('Sample type changed:', index),
+    textColor: '#ffffff',
+  },
+}
+
+export const SingleSampleType: Story = {
+  args: {
+    sampleTypes: [{ index: 0, type: 'cpu', unit: 'nanoseconds' }],
+    sampleTypeIndex: 0,
+    onChange: (index) => console.log('Sample type changed:', index),
+    textColor: '#ffffff',
+  },
+}
+
+export const Interactive: Story = {
+  args: {
+    sampleTypes: goHeapSampleTypes,
+    sampleTypeIndex: 1,
+    onChange: () => {},
+  },
+  render: (args) => {
+    const [sampleTypeIndex, setSampleTypeIndex] = useState(args.sampleTypeIndex)
+
+    return (
+      <div>
+        <SampleTypeSelector
+          {...args}
+          sampleTypeIndex={sampleTypeIndex}
+          onChange={setSampleTypeIndex}
+        />
+        <div style={{ marginTop: '20px', color: '#ffffff', textAlign: 'center' }}>
+          Current sample type: {goHeapSampleTypes[sampleTypeIndex].type}
+        </div>
+      </div>
+    )
+  },
+}
@@ -0,0 +1,77 @@
+import React from 'react'
+import { SampleTypeInfo } from '../renderer/index.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface SampleTypeSelectorProps {
+  sampleTypes: SampleTypeInfo[]
+  sampleTypeIndex: number
+  onChange: (sampleTypeIndex: number) => void
+  textColor?: string
+  backgroundColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+export const SampleTypeSelector: React.FC<SampleTypeSelectorProps> = ({
+  sampleTypes,
+  sampleTypeIndex,
+  onChange,
+  textColor: textColorProp,
+  backgroundColor: backgroundColorProp,
+  fontSize = '14px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor, backgroundColor } = useTheme({ textColor: textColorProp, backgroundColor: backgroundColorProp })
+
+  const handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange(Number(event.target.value))
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '8px',
+        color: textColor,
+        fontSize,
+        fontFamily,
+        padding: '8px 0',
+      }}
+    >
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          userSelect: 'none',
+        }}
+      >
+        <span>Sample Type</span>
+        <select
+          value={sampleTypeIndex}
+          onChange={handleSelectChange}
+          disabled={sampleTypes.length < 2}
+          aria-label="Sample type"
+          style={{
+            backgroundColor,
+            color: textColor,
+            border: `1px solid ${textColor}`,
+            borderRadius: '2px',
+            padding: '4px 8px',
+            fontSize,
+            fontFamily,
+            cursor: sampleTypes.length < 2 ? 'not-allowed' : 'pointer',
+          }}
+        >
+          {sampleTypes.map(sampleType => (
+            <option key={sampleType.index} value={sampleType.index}>
+              {sampleType.unit ? `${sampleType.type} (${sampleType.unit})` : sampleType.type}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { SandwichView } from './SandwichView.js'
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
+
+// A server where JSON.parse is reached from several places and calls into helpers of its own
+const createServerProfile = (): Profile => {
+  const stringTable = new StringTable()
+
+  const functions = [
+    { name: 'main', file: '/app/server.js', line: 1 },
+    { name: 'handleRequest', file: '/app/server.js', line: 24 },
+    { name: 'loadConfig', file: '/app/config.js', line: 8 },
+    { name: 'readBody', file: '/app/body.js', line: 15 },
+    { name: 'JSON.parse', file: 'json.js', line: 1 },
+    { name: 'reviver', file: '/app/body.js', line: 40 },
+    { name: 'Date.parse', file: 'date.js', line: 1 }
+  ]
+
+  const profileFunctions = functions.map((func, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(func.name),
+    filename: stringTable.dedup(func.file),
+    startLine: func.line
+  }))
+
+  const locations = profileFunctions.map((func, i) => new Location({
+    id: i + 1,
+    line: [new Line({ functionId: func.id, line: functions[i].line })]
+  }))
+
+  // Stacks are listed root first with their sample counts
+  const stacks: Array<[number[], number]> = [
+    [[1, 2, 4, 5], 40],
+    [[1, 2, 4, 5, 6], 25],
+    [[1, 2, 4, 5, 6, 7], 15],
+    [[1, 3, 5], 20],
+    [[1, 2], 10],
+    [[1, 3], 5]
+  ]
+
+  const samples: Sample[] = []
+  for (const [stack, count] of stacks) {
+    for (let i = 0; i < count; i++) {
+      samples.push(new Sample({
+        locationId: [...stack].reverse(),
+        value: [1, 10000000]
+      }))
+    }
+  }
+
+  return new Profile({
+    sampleType: [
+      new ValueType({ type: stringTable.dedup('samples'), unit: stringTable.dedup('count') }),
+      new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })
+    ],
+    sample: samples,
+    location: locations,
+    function: profileFunctions,
+    stringTable,
+    periodType: new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') }),
+    period: 10000000
+  })
+}
+
+const profile = createServerProfile()
+
+const meta = {
+  title: 'SandwichView',
+  component: SandwichView,
+  parameters: {
+    layout: 'padded',
+  },
+  argTypes: {
+    // Exclude profile from controls as it contains BigInt values that can't be serialized
+    profile: { control: false },
+  },
+} satisfies Meta<typeof SandwichView>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    profile,
+    functionName: 'JSON.parse',
+    fileName: 'json.js',
+  },
+}
+
+export const AppCodeOnly: Story = {
+  args: {
+    profile,
+    functionName: 'readBody',
+    fileName: '/app/body.js',
+    showAppCodeOnly: true,
+  },
+}
+
+export const MissingFunction: Story = {
+  args: {
+    profile,
+    functionName: 'notInProfile',
+  },
+}
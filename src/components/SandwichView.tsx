@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Profile } from '../parser.js'
+import { FlameDataProcessor, FlameGraphRenderer, FlameGraphOrientation, FlameNode, ProfileMetadata, formatValue, formatPercentage } from '../renderer/index.js'
+import { FlameGraphTooltip } from './FlameGraphTooltip.js'
+import { useFlameTree } from './hooks/useFlameTree.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface SandwichViewProps {
+  profile: Profile
+  functionName: string
+  fileName?: string
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  maxPaneHeight?: number
+  primaryColor?: string
+  secondaryColor?: string
+  backgroundColor?: string
+  textColor?: string
+  fontFamily?: string
+}
+
+interface SandwichPaneProps {
+  tree: FlameNode
+  orientation: FlameGraphOrientation
+  label: string
+  maxHeight: number
+  profileMetadata?: ProfileMetadata
+  primaryColor: string
+  secondaryColor: string
+  backgroundColor: string
+  textColor: string
+  fontFamily: string
+}
+
+// One half of the sandwich, drawn by its own renderer
+const SandwichPane: React.FC<SandwichPaneProps> = ({
+  tree,
+  orientation,
+  label,
+  maxHeight,
+  profileMetadata,
+  primaryColor,
+  secondaryColor,
+  backgroundColor,
+  textColor,
+  fontFamily,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rendererRef = useRef<FlameGraphRenderer | null>(null)
+  const [paneHeight, setPaneHeight] = useState(0)
+  const [hoveredFrame, setHoveredFrame] = useState<FlameNode | null>(null)
+  const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null)
+  const [initError, setInitError] = useState<string | null>(null)
+
+  const sizeCanvas = (width: number, height: number) => {
+    const dpr = window.devicePixelRatio
+    canvasRef.current!.width = width * dpr
+    canvasRef.current!.height = height * dpr
+    canvasRef.current!.style.width = `${width}px`
+    canvasRef.current!.style.height = `${height}px`
+  }
+
+  useEffect(() => {
+    if (!canvasRef.current || !containerRef.current) {
+      return
+    }
+
+    let renderer: FlameGraphRenderer
+    try {
+      setInitError(null)
+      renderer = new FlameGraphRenderer(canvasRef.current)
+      if (!renderer.isInitialized()) {
+        throw new Error('Failed to initialize WebGL renderer')
+      }
+    } catch (error) {
+      setInitError(error instanceof Error ? error.message : 'Failed to initialize WebGL renderer')
+      return
+    }
+
+    renderer.setColors(primaryColor, secondaryColor, backgroundColor, textColor)
+    renderer.setFontFamily(fontFamily)
+    renderer.setOrientation(orientation)
+
+    const width = containerRef.current.getBoundingClientRect().width
+    const requiredHeight = renderer.setTree(tree, profileMetadata ?? null)
+    const height = Math.min(requiredHeight, maxHeight)
+
+    // Taller trees scroll inside the pane
+    renderer.setHeightMode(requiredHeight > maxHeight)
+    sizeCanvas(width, height)
+    renderer.resize(width, height)
+    renderer.render()
+
+    rendererRef.current = renderer
+    setPaneHeight(height)
+
+    const resizeObserver = new ResizeObserver(entries => {
+      const observedWidth = entries[0].contentRect.width
+      if (observedWidth > 0 && rendererRef.current === renderer) {
+        sizeCanvas(observedWidth, height)
+        renderer.resize(observedWidth, height)
+        renderer.render()
+      }
+    })
+    resizeObserver.observe(containerRef.current)
+
+    return () => {
+      resizeObserver.disconnect()
+      renderer.destroy()
+      if (rendererRef.current === renderer) {
+        rendererRef.current = null
+      }
+    }
+  }, [tree, orientation, maxHeight, profileMetadata, primaryColor, secondaryColor, backgroundColor, textColor, fontFamily])
+
+  const getPosition = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!rendererRef.current) {return}
+
+    const { x, y } = getPosition(event)
+    rendererRef.current.handleClick(x, y)
+    rendererRef.current.render()
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!rendererRef.current) {return}
+
+    const { x, y } = getPosition(event)
+    const frame = rendererRef.current.findFrameAt(x, y)
+
+    setMousePosition({ x: event.clientX, y: event.clientY })
+    if (frame?.id !== hoveredFrame?.id) {
+      setHoveredFrame(frame)
+      rendererRef.current.setFrameStates(rendererRef.current.getSelectedFrameId(), frame?.id ?? null)
+      rendererRef.current.render()
+    }
+  }
+
+  const handleMouseLeave = () => {
+    setHoveredFrame(null)
+    setMousePosition(null)
+    if (rendererRef.current) {
+      rendererRef.current.setFrameStates(rendererRef.current.getSelectedFrameId(), null)
+      rendererRef.current.render()
+    }
+  }
+
+  return (
+    <div>
+      <div style={{ color: textColor, fontFamily, fontSize: '12px', opacity: 0.7, margin: '4px 0' }}>
+        {label}
+      </div>
+      <div ref={containerRef} style={{ position: 'relative', width: '100%', height: `${paneHeight}px`, backgroundColor }}>
+        {initError
+          ? (
+            <div style={{ color: textColor, fontFamily, fontSize: '12px', opacity: 0.7 }}>
+              {initError}
+            </div>
+          )
+          : (
+            <canvas
+              ref={canvasRef}
+              onClick={handleClick}
+              onMouseMove={handleMouseMove}
+              onMouseLeave={handleMouseLeave}
+              role="img"
+              aria-label={label}
+              style={{ display: 'block', cursor: 'pointer' }}
+            />
+          )}
+      </div>
+
+      {hoveredFrame && mousePosition && (
+        <FlameGraphTooltip
+          frameData={hoveredFrame}
+          mouseX={mousePosition.x}
+          mouseY={mousePosition.y}
+          fontFamily={fontFamily}
+          profileMetadata={profileMetadata}
+        />
+      )}
+    </div>
+  )
+}
+
+export const SandwichView: React.FC<SandwichViewProps> = ({
+  profile,
+  functionName,
+  fileName,
+  showAppCodeOnly = false,
+  sampleTypeIndex,
+  maxPaneHeight = 300,
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
+  fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { primaryColor, secondaryColor, backgroundColor, textColor } = useTheme({
+    primaryColor: primaryColorProp,
+    secondaryColor: secondaryColorProp,
+    backgroundColor: backgroundColorProp,
+    textColor: textColorProp
+  })
+
+  // Both halves come from the same processed tree as the main flame graph
+  const flameTree = useFlameTree(profile, { showAppCodeOnly, sampleTypeIndex })
+  const profileMetadata = flameTree.profileMetadata
+  const totalValue = flameTree.root.value
+
+  const sandwich = useMemo(() => {
+    const processor = new FlameDataProcessor()
+    processor.setTree(flameTree.root, flameTree.profileMetadata)
+    return processor.buildSandwich(functionName, fileName)
+  }, [flameTree, functionName, fileName])
+
+  return (
+    <div
+      data-testid="sandwich-view"
+      style={{
+        backgroundColor,
+        color: textColor,
+        fontFamily,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ fontSize: '14px', marginBottom: '4px' }}>
+        <span style={{ fontWeight: 'bold' }}>{functionName}</span>
+        {fileName && <span style={{ opacity: 0.7 }}> ({fileName})</span>}
+        {sandwich && (
+          <span style={{ opacity: 0.7 }}>
+            {' '}· {formatValue(sandwich.callees.value, profileMetadata)}
+            {totalValue > 0 && ` (${formatPercentage(sandwich.callees.value / totalValue)} of total)`}
+          </span>
+        )}
+      </div>
+
+      {sandwich
+        ? (
+          <>
+            <SandwichPane
+              tree={sandwich.callers}
+              orientation="flame"
+              label="Callers"
+              maxHeight={maxPaneHeight}
+              profileMetadata={profileMetadata}
+              primaryColor={primaryColor}
+              secondaryColor={secondaryColor}
+              backgroundColor={backgroundColor}
+              textColor={textColor}
+              fontFamily={fontFamily}
+            />
+            <SandwichPane
+              tree={sandwich.callees}
+              orientation="icicle"
+              label="Callees"
+              maxHeight={maxPaneHeight}
+              profileMetadata={profileMetadata}
+              primaryColor={primaryColor}
+              secondaryColor={secondaryColor}
+              backgroundColor={backgroundColor}
+              textColor={textColor}
+              fontFamily={fontFamily}
+            />
+          </>
+        )
+        : (
+          <div style={{ fontSize: '12px', opacity: 0.7 }}>
+            No frames of this function in the current view
+          </div>
+        )}
+    </div>
+  )
+}
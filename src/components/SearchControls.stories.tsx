@@ -0,0 +1,106 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { useState } from 'react'
+import { SearchControls } from './SearchControls.js'
+import type { FlameNode } from '../renderer/index.js'
+
+const matchNode = (id: string, value: number): FlameNode => ({
+  id,
+  name: id.split('/').pop()!,
+  value,
+  selfValue: value,
+  sampleCount: 1,
+  selfSampleCount: 1,
+  children: [],
+  depth: id.split('/').length - 1,
+  x: 0,
+  width: 0,
+  selfWidth: 0,
+})
+
+const result = {
+  matches: [
+    matchNode('root/main/handleRequest/JSON.parse', 400),
+    matchNode('root/main/loadConfig/JSON.parse', 300),
+  ],
+  matchedValue: 700,
+  totalValue: 1000,
+  percentage: 0.7,
+}
+
+const meta = {
+  title: 'SearchControls',
+  component: SearchControls,
+  parameters: {
+    layout: 'centered',
+  },
+  argTypes: {
+    onQueryChange: { control: false },
+    onNextMatch: { control: false },
+    onPreviousMatch: { control: false },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ backgroundColor: '#1e1e1e', padding: '40px', minWidth: '400px' }}>
+        <Story />
+      </div>
+    ),
+  ],
+} satisfies Meta<typeof SearchControls>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Empty: Story = {
+  args: {
+    query: '',
+    onQueryChange: (query) => console.log('Query changed:', query),
+    result: null,
+    currentMatchIndex: -1,
+    onNextMatch: () => console.log('Next match'),
+    onPreviousMatch: () => console.log('Previous match'),
+  },
+}
+
+export const WithMatches: Story = {
+  args: {
+    query: 'JSON',
+    onQueryChange: (query) => console.log('Query changed:', query),
+    result,
+    currentMatchIndex: 0,
+    onNextMatch: () => console.log('Next match'),
+    onPreviousMatch: () => console.log('Previous match'),
+  },
+}
+
+export const NoMatches: Story = {
+  args: {
+    query: 'missing',
+    onQueryChange: (query) => console.log('Query changed:', query),
+    result: { matches: [], matchedValue: 0, totalValue: 1000, percentage: 0 },
+    currentMatchIndex: -1,
+    onNextMatch: () => console.log('Next match'),
+    onPreviousMatch: () => console.log('Previous match'),
+  },
+}
+
+export const Interactive: Story = {
+  render: () => {
+    const [query, setQuery] = useState('')
+    const [index, setIndex] = useState(-1)
+    const active = query.length > 0
+
+    return (
+      <SearchControls
+        query={query}
+        onQueryChange={(value) => {
+          setQuery(value)
+          setIndex(-1)
+        }}
+        result={active ? result : null}
+        currentMatchIndex={index}
+        onNextMatch={() => setIndex((index + 1) % result.matches.length)}
+        onPreviousMatch={() => setIndex((index - 1 + result.matches.length) % result.matches.length)}
+      />
+    )
+  },
+}
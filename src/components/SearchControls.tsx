@@ -0,0 +1,103 @@
+import React from 'react'
+import { formatPercentage } from '../renderer/index.js'
+import type { SearchResult } from '../utils/frameSearch.js'
+import { useTheme } from './ThemeProvider.js'
+
+export interface SearchControlsProps {
+  query: string
+  onQueryChange: (query: string) => void
+  result: SearchResult | null
+  currentMatchIndex: number
+  onNextMatch: () => void
+  onPreviousMatch: () => void
+  textColor?: string
+  backgroundColor?: string
+  fontSize?: string
+  fontFamily?: string
+}
+
+export const SearchControls: React.FC<SearchControlsProps> = ({
+  query,
+  onQueryChange,
+  result,
+  currentMatchIndex,
+  onNextMatch,
+  onPreviousMatch,
+  textColor: textColorProp,
+  backgroundColor: backgroundColorProp,
+  fontSize = '14px',
+  fontFamily = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
+}) => {
+  const { textColor, backgroundColor } = useTheme({ textColor: textColorProp, backgroundColor: backgroundColorProp })
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onQueryChange(event.target.value)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      if (event.shiftKey) {
+        onPreviousMatch()
+      } else {
+        onNextMatch()
+      }
+    } else if (event.key === 'Escape') {
+      onQueryChange('')
+    }
+  }
+
+  const matchCount = result ? result.matches.length : 0
+
+  let status = ''
+  if (result && matchCount === 0) {
+    status = 'No matches'
+  } else if (result) {
+    const position = currentMatchIndex >= 0 ? `${currentMatchIndex + 1}/${matchCount}` : `${matchCount}`
+    status = `${position} ${matchCount === 1 ? 'match' : 'matches'} · ${formatPercentage(result.percentage)} of total`
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '8px',
+        color: textColor,
+        fontSize,
+        fontFamily,
+        padding: '8px 0',
+      }}
+    >
+      <input
+        type="search"
+        value={query}
+        onChange={handleInputChange}
+        onKeyDown={handleKeyDown}
+        placeholder="Search functions"
+        aria-label="Search functions"
+        title="Enter: next match, Shift+Enter: previous match"
+        style={{
+          backgroundColor,
+          color: textColor,
+          border: `1px solid ${textColor}`,
+          borderRadius: '2px',
+          padding: '4px 8px',
+          width: '180px',
+          fontSize,
+          fontFamily,
+        }}
+      />
+      {status && (
+        <span
+          className="search-status"
+          aria-live="polite"
+          style={{ opacity: 0.8, whiteSpace: 'nowrap' }}
+        >
+          {status}
+        </span>
+      )}
+    </div>
+  )
+}
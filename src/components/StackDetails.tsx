@@ -1,6 +1,9 @@
 import React, { useMemo } from 'react'
-import { getFrameColorHexBySameDepthRatio } from '../renderer/colors.js'
-import { ProfileMetadata, formatValue, formatPercentage, formatSampleCount, getMetricLabel, getSelfValueLabel, getTotalValueLabel } from '../renderer/index.js'
+import { getFrameColorHexBySameDepthRatio, getFrameColorHexByDiff, getDiffRatio, hexToRgb, rgbToHex } from '../renderer/colors.js'
+import { ColorScheme, getFrameColorByScheme } from '../renderer/colorSchemes.js'
+import { DIFF_COLORS } from '../renderer/constants.js'
+import { ProfileMetadata, formatValue, formatPercentage, formatDelta, formatRelativeDelta, formatSampleCount, getMetricLabel, getSelfValueLabel, getTotalValueLabel } from '../renderer/index.js'
+import { useTheme } from './ThemeProvider.js'
 
 // Internal component interfaces
 interface EmptyStateProps {
@@ -25,6 +28,11 @@ interface FrameMetricsProps {
   profileMetadata?: ProfileMetadata
 }
 
+interface DiffMetricsProps {
+  frame: any
+  profileMetadata?: ProfileMetadata
+}
+
 interface StackTraceFrameProps {
   frame: any
   index: number
@@ -159,6 +167,25 @@ const FrameMetrics: React.FC<FrameMetricsProps> = ({ frame, selfTimePercentage,
   </div>
 )
 
+const DiffMetrics: React.FC<DiffMetricsProps> = ({ frame, profileMetadata }) => {
+  const value = frame.value || 0
+  const baseValue = frame.baseValue || 0
+  const format = (v: number) => profileMetadata ? formatValue(v, profileMetadata) : v.toLocaleString()
+
+  return (
+    <div className="stack-frame-diff" style={{
+      fontSize: '12px',
+      opacity: 0.7
+    }}>
+      <span>Base: {format(baseValue)}</span>
+      {' • '}
+      <span>Target: {format(value)}</span>
+      {' • '}
+      <span>Delta: {profileMetadata ? formatDelta(value - baseValue, profileMetadata) : (value - baseValue).toLocaleString()} ({formatRelativeDelta(value, baseValue)})</span>
+    </div>
+  )
+}
+
 const StackTraceFrame: React.FC<StackTraceFrameProps> = ({
   frame,
   index,
@@ -221,6 +248,7 @@ const StackTraceFrame: React.FC<StackTraceFrameProps> = ({
         </span>
       </div>
       <FrameMetrics frame={frame} selfTimePercentage={selfTimePercentage} profileMetadata={profileMetadata} />
+      {frame.baseValue !== undefined && <DiffMetrics frame={frame} profileMetadata={profileMetadata} />}
     </div>
   )
 }
@@ -331,6 +359,7 @@ const ChildFrameItem: React.FC<ChildFrameItemProps> = ({
         <strong style={{ color: textColor }}>{typeof child.name === 'object' ? JSON.stringify(child.name) : child.name}</strong>
       </div>
       <FrameMetrics frame={child} selfTimePercentage={selfTimePercentage} profileMetadata={profileMetadata} />
+      {child.baseValue !== undefined && <DiffMetrics frame={child} profileMetadata={profileMetadata} />}
     </div>
   )
 }
@@ -399,6 +428,7 @@ export interface StackDetailsProps {
   textColor?: string
   primaryColor?: string
   secondaryColor?: string
+  colorScheme?: ColorScheme  // Color scheme of the flame graph, for the selected frame's color
   fontFamily?: string
   width?: number | string
   height?: number | string
@@ -411,10 +441,11 @@ export const StackDetails: React.FC<StackDetailsProps> = ({
   selectedFrame,
   stackTrace = [],
   children = [],
-  backgroundColor = '#1e1e1e',
-  textColor = '#ffffff',
-  primaryColor = '#ff4444',
-  secondaryColor: _secondaryColor = '#ffcc66',
+  backgroundColor: backgroundColorProp,
+  textColor: textColorProp,
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  colorScheme = 'ratio',
   fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Helvetica Neue", Arial, sans-serif',
   width = '100%',
   height = 'auto',
@@ -422,6 +453,13 @@ export const StackDetails: React.FC<StackDetailsProps> = ({
   profileMetadata,
   onFrameClick
 }) => {
+  const { backgroundColor, textColor, primaryColor, secondaryColor } = useTheme({
+    backgroundColor: backgroundColorProp,
+    textColor: textColorProp,
+    primaryColor: primaryColorProp,
+    secondaryColor: secondaryColorProp
+  })
+
   // Sort children by descending weight (value)
   const sortedChildren = useMemo(() => {
     return [...children].sort((a, b) => b.value - a.value)
@@ -444,11 +482,24 @@ export const StackDetails: React.FC<StackDetailsProps> = ({
     // Using the exact same algorithm as the FlameGraph renderer
     let computedColor = primaryColor
 
-    // Calculate total value at this frame's depth level
-    if (selectedFrame.id && selectedFrame.depth !== undefined) {
-      // Use allFrames if available, otherwise fall back to stackTrace
-      const framesToSearch = allFrames.length > 0 ? allFrames : stackTrace
-      
+    // Diff frames are coloured by growth against the base profile, like the renderer does
+    const framesToSearch = allFrames.length > 0 ? allFrames : stackTrace
+    const rootFrame = framesToSearch.find(f => f && f.depth === 0)
+
+    if (selectedFrame.baseValue !== undefined && rootFrame?.baseValue !== undefined) {
+      const diffRatio = getDiffRatio(
+        selectedFrame.value || 0,
+        rootFrame.value || 0,
+        selectedFrame.baseValue,
+        rootFrame.baseValue
+      )
+      computedColor = getFrameColorHexByDiff(DIFF_COLORS.growth, DIFF_COLORS.shrink, DIFF_COLORS.neutral, diffRatio)
+    } else if (colorScheme !== 'ratio') {
+      const maxSelfValue = framesToSearch.reduce((max, f) => Math.max(max, f?.selfValue || 0), 0)
+      const color = getFrameColorByScheme(colorScheme, selectedFrame, hexToRgb(primaryColor), hexToRgb(secondaryColor), 0, maxSelfValue)
+      computedColor = rgbToHex(color[0], color[1], color[2])
+    } else if (selectedFrame.id && selectedFrame.depth !== undefined) {
+      // Calculate total value at this frame's depth level
       // Find all frames at the same depth level
       const framesAtDepth = framesToSearch.filter(f => f && f.depth === selectedFrame.depth)
       const totalValueAtDepth = framesAtDepth.reduce((sum, f) => sum + (f.value || 0), 0)
@@ -457,7 +508,7 @@ export const StackDetails: React.FC<StackDetailsProps> = ({
         // Use the shared color computation function
         computedColor = getFrameColorHexBySameDepthRatio(
           primaryColor,
-          _secondaryColor,
+          secondaryColor,
           selectedFrame.value,
           totalValueAtDepth
         )
@@ -465,7 +516,7 @@ export const StackDetails: React.FC<StackDetailsProps> = ({
     }
 
     setFrameBackgroundColor(computedColor)
-  }, [selectedFrame, stackTrace, frameKey, primaryColor, _secondaryColor, allFrames])
+  }, [selectedFrame, stackTrace, frameKey, primaryColor, secondaryColor, colorScheme, allFrames])
 
   if (!selectedFrame) {
     return (
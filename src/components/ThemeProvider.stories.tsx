@@ -0,0 +1,124 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { ThemeProvider } from './ThemeProvider.js'
+import { FullFlameGraph } from './FullFlameGraph.js'
+import { lightTheme } from '../renderer/themes.js'
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
+
+// A small server with app code, a dependency and Node.js internals
+const createServerProfile = (): Profile => {
+  const stringTable = new StringTable()
+
+  const functions = [
+    { name: 'main', file: '/app/server.js', line: 1 },
+    { name: 'handleRequest', file: '/app/server.js', line: 24 },
+    { name: 'fastify.routing', file: '/app/node_modules/fastify/lib/route.js', line: 89 },
+    { name: 'renderPage', file: '/app/views.js', line: 12 },
+    { name: 'JSON.stringify', file: 'json.js', line: 1 },
+    { name: 'fs.readFile', file: 'fs.js', line: 342 }
+  ]
+
+  const profileFunctions = functions.map((func, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(func.name),
+    filename: stringTable.dedup(func.file),
+    startLine: func.line
+  }))
+
+  const locations = profileFunctions.map((func, i) => new Location({
+    id: i + 1,
+    line: [new Line({ functionId: func.id, line: functions[i].line })]
+  }))
+
+  // Stacks are listed root first with their sample counts
+  const stacks: Array<[number[], number]> = [
+    [[1, 3, 2, 4], 40],
+    [[1, 3, 2, 4, 5], 25],
+    [[1, 3, 2], 15],
+    [[1, 6], 20]
+  ]
+
+  const samples: Sample[] = []
+  for (const [stack, count] of stacks) {
+    for (let i = 0; i < count; i++) {
+      samples.push(new Sample({
+        locationId: [...stack].reverse(),
+        value: [1, 10000000]
+      }))
+    }
+  }
+
+  return new Profile({
+    sampleType: [
+      new ValueType({ type: stringTable.dedup('samples'), unit: stringTable.dedup('count') }),
+      new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })
+    ],
+    sample: samples,
+    location: locations,
+    function: profileFunctions,
+    stringTable,
+    periodType: new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') }),
+    period: 10000000
+  })
+}
+
+const profile = createServerProfile()
+
+const meta = {
+  title: 'ThemeProvider',
+  component: ThemeProvider,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  argTypes: {
+    theme: {
+      control: 'select',
+      options: ['dark', 'light', 'high-contrast'],
+    },
+    children: { control: false },
+  },
+  args: {
+    children: (
+      <div style={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
+        <FullFlameGraph profile={profile} />
+      </div>
+    ),
+  },
+} satisfies Meta<typeof ThemeProvider>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+// Follows the color scheme of the browser
+export const SystemPreference: Story = {
+  args: {},
+}
+
+export const Dark: Story = {
+  args: {
+    theme: 'dark',
+  },
+}
+
+export const Light: Story = {
+  args: {
+    theme: 'light',
+  },
+}
+
+export const HighContrast: Story = {
+  args: {
+    theme: 'high-contrast',
+  },
+}
+
+export const CustomTheme: Story = {
+  args: {
+    theme: {
+      ...lightTheme,
+      name: 'brand',
+      primaryColor: '#2563eb',
+      secondaryColor: '#7dd3fc',
+      highlightColor: '#d97706',
+    },
+  },
+}
@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useMemo, useSyncExternalStore } from 'react'
+import { Theme, ThemeName, darkTheme, lightTheme, resolveTheme } from '../renderer/themes.js'
+
+export interface ThemeProviderProps {
+  theme?: Theme | ThemeName  // Follows the prefers-color-scheme media query when omitted
+  children: React.ReactNode
+}
+
+const ThemeContext = createContext<Theme | null>(null)
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)'
+const LIGHT_SCHEME_QUERY = '(prefers-color-scheme: light)'
+
+/**
+ * Provide the colors of every flame graph component below it
+ * Color props passed to a component still take precedence over the theme.
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ theme, children }) => {
+  const preferredTheme = usePreferredTheme()
+  const value = useMemo(() => theme ? resolveTheme(theme) : preferredTheme, [theme, preferredTheme])
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+}
+
+/**
+ * Get the theme of the closest ThemeProvider, or the one matching the system color scheme
+ * Defined overrides replace colors of the theme, so components can apply their color props.
+ *
+ * @param overrides Colors passed to a component as props
+ * @returns The theme with the overrides applied
+ */
+export function useTheme(overrides: Partial<Theme> = {}): Theme {
+  const contextTheme = useContext(ThemeContext)
+  const preferredTheme = usePreferredTheme()
+  const theme = contextTheme ?? preferredTheme
+
+  const entries = Object.entries(overrides).filter(([, value]) => value !== undefined)
+  return entries.length > 0 ? { ...theme, ...Object.fromEntries(entries) } : theme
+}
+
+function usePreferredTheme(): Theme {
+  const prefersDark = useSyncExternalStore(subscribeToColorScheme, getPrefersDark, () => true)
+  return prefersDark ? darkTheme : lightTheme
+}
+
+function subscribeToColorScheme(onChange: () => void): () => void {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return () => {}
+  }
+
+  // Both, as going from light to no preference falls back to dark
+  const queries = [window.matchMedia(DARK_SCHEME_QUERY), window.matchMedia(LIGHT_SCHEME_QUERY)]
+  queries.forEach(query => query.addEventListener('change', onChange))
+  return () => queries.forEach(query => query.removeEventListener('change', onChange))
+}
+
+// Dark stays the default where the color scheme cannot be queried, as before themes existed
+function getPrefersDark(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return true
+  }
+  return window.matchMedia(DARK_SCHEME_QUERY).matches || !window.matchMedia(LIGHT_SCHEME_QUERY).matches
+}
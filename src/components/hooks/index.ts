@@ -3,4 +3,6 @@
 export { useFlameGraphRenderer } from './useFlameGraphRenderer.js'
 export { useCanvasResize } from './useCanvasResize.js'
 export { useMouseInteractions } from './useMouseInteractions.js'
-export { useTooltip } from './useTooltip.js'
\ No newline at end of file
+export { useTooltip } from './useTooltip.js'
+export { useFlameTree, getFlameTree, type FlameTree, type FlameTreeOptions } from './useFlameTree.js'
+export { useWorkerFlameTree } from './useWorkerFlameTree.js'
@@ -0,0 +1,94 @@
+import { useMemo } from 'react'
+import { Profile } from '../../parser.js'
+import { FlameDataProcessor, FlameNode, ProfileMetadata, detectProfileMetadata } from '../../renderer/index.js'
+
+export interface FlameTreeOptions {
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  baseProfile?: Profile
+  inverted?: boolean
+}
+
+/**
+ * A processed profile shared by every component that shows it
+ */
+export interface FlameTree {
+  root: FlameNode
+  profileMetadata: ProfileMetadata
+  nodes: Map<string, FlameNode>  // Every node of the tree by frame path ID, including the root
+}
+
+// Trees are cached per profile (and base profile) so they are dropped with it
+const NO_BASE_PROFILE = {}
+const treeCache = new WeakMap<Profile, WeakMap<object, Map<string, FlameTree>>>()
+
+/**
+ * Get the processed tree of a profile, building it on first use
+ * Calls with the same profile and options return the same tree, so node IDs,
+ * values and filtering agree between all components. The tree is shared and
+ * must not be modified.
+ */
+export function getFlameTree(profile: Profile, options: FlameTreeOptions = {}): FlameTree {
+  const { showAppCodeOnly = false, baseProfile, inverted = false } = options
+
+  // Resolve the default sample type so an explicit index shares its tree
+  const sampleTypeIndex = detectProfileMetadata(profile, options.sampleTypeIndex).sampleTypeIndex
+  const key = `${sampleTypeIndex}:${showAppCodeOnly}:${inverted}`
+
+  let byBaseProfile = treeCache.get(profile)
+  if (!byBaseProfile) {
+    byBaseProfile = new WeakMap()
+    treeCache.set(profile, byBaseProfile)
+  }
+
+  let trees = byBaseProfile.get(baseProfile ?? NO_BASE_PROFILE)
+  if (!trees) {
+    trees = new Map()
+    byBaseProfile.set(baseProfile ?? NO_BASE_PROFILE, trees)
+  }
+
+  let tree = trees.get(key)
+  if (!tree) {
+    tree = buildFlameTree(profile, showAppCodeOnly, sampleTypeIndex, baseProfile, inverted)
+    trees.set(key, tree)
+  }
+
+  return tree
+}
+
+/**
+ * Custom hook returning the shared processed tree of a profile
+ * Without a profile, e.g. while the tree comes from a worker, it returns null.
+ */
+export function useFlameTree(profile: Profile, options?: FlameTreeOptions): FlameTree
+export function useFlameTree(profile: Profile | undefined, options?: FlameTreeOptions): FlameTree | null
+export function useFlameTree(profile: Profile | undefined, options: FlameTreeOptions = {}): FlameTree | null {
+  const { showAppCodeOnly, sampleTypeIndex, baseProfile, inverted } = options
+
+  return useMemo(
+    () => profile ? getFlameTree(profile, { showAppCodeOnly, sampleTypeIndex, baseProfile, inverted }) : null,
+    [profile, showAppCodeOnly, sampleTypeIndex, baseProfile, inverted]
+  )
+}
+
+function buildFlameTree(profile: Profile, showAppCodeOnly: boolean, sampleTypeIndex: number, baseProfile: Profile | undefined, inverted: boolean): FlameTree {
+  const processor = new FlameDataProcessor()
+  const root = processor.processProfile(profile, showAppCodeOnly, sampleTypeIndex, baseProfile, inverted)
+  const nodes = new Map<string, FlameNode>()
+
+  // Filtering copies nodes, so parent links are set again to point into this tree
+  const index = (node: FlameNode) => {
+    nodes.set(node.id, node)
+    for (const child of node.children) {
+      child.parent = node
+      index(child)
+    }
+  }
+  index(root)
+
+  return {
+    root,
+    profileMetadata: processor.getProfileMetadata() ?? detectProfileMetadata(profile, sampleTypeIndex),
+    nodes
+  }
+}
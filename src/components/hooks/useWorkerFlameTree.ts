@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from 'react'
+import { ProfileWorker } from '../../worker/ProfileWorker.js'
+import type { ProfileLoadProgress, WorkerFlameTreeOptions } from '../../worker/protocol.js'
+import type { FlameTree } from './useFlameTree.js'
+
+interface WorkerFlameTreeState {
+  flameTree: FlameTree | null
+  progress: ProfileLoadProgress | null
+  error: Error | null
+}
+
+/**
+ * Custom hook loading a profile and building its tree in a Web Worker
+ * The profile is fetched once per source; changing the options only builds
+ * another tree. The previous tree is kept while a new one is being built for
+ * the same profile.
+ */
+export function useWorkerFlameTree(
+  source: string | ArrayBuffer | null,
+  options: WorkerFlameTreeOptions = {}
+): WorkerFlameTreeState {
+  const { showAppCodeOnly, sampleTypeIndex, inverted } = options
+  const workerRef = useRef<ProfileWorker | null>(null)
+  const loadRef = useRef<{ source: string | ArrayBuffer; promise: Promise<void> } | null>(null)
+  const [state, setState] = useState<WorkerFlameTreeState>({ flameTree: null, progress: null, error: null })
+
+  // One worker per component, stopped when it unmounts
+  useEffect(() => {
+    const worker = new ProfileWorker()
+    workerRef.current = worker
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      loadRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!worker || source === null) {
+      return
+    }
+
+    let cancelled = false
+    const onProgress = (progress: ProfileLoadProgress) => {
+      if (!cancelled) {
+        setState(current => ({ ...current, progress }))
+      }
+    }
+
+    if (loadRef.current?.source !== source) {
+      setState({ flameTree: null, progress: { stage: 'fetching' }, error: null })
+      loadRef.current = { source, promise: worker.load(source, onProgress) }
+    }
+
+    loadRef.current.promise
+      .then(() => worker.buildTree({ showAppCodeOnly, sampleTypeIndex, inverted }, onProgress))
+      .then(flameTree => {
+        if (!cancelled) {
+          setState({ flameTree, progress: null, error: null })
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ flameTree: null, progress: null, error: error instanceof Error ? error : new Error(String(error)) })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, showAppCodeOnly, sampleTypeIndex, inverted])
+
+  return state
+}
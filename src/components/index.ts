@@ -4,3 +4,8 @@ export { HottestFramesBar, type HottestFramesBarProps, type FrameWithSelfTime, u
 export { HottestFramesControls, type HottestFramesControlsProps } from './HottestFramesControls.js'
 export { FrameDetails, type FrameDetailsProps } from './FrameDetails.js'
 export { FullFlameGraph, type FullFlameGraphProps } from './FullFlameGraph.js'
+export { DiffFlameGraph, type DiffFlameGraphProps } from './DiffFlameGraph.js'
+export { SandwichView, type SandwichViewProps } from './SandwichView.js'
+export { FunctionTable, type FunctionTableProps, type FunctionTableSortKey } from './FunctionTable.js'
+export { ThemeProvider, useTheme, type ThemeProviderProps } from './ThemeProvider.js'
+export { ColorLegend, type ColorLegendProps } from './ColorLegend.js'
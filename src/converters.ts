@@ -0,0 +1,261 @@
+// Converters to pprof from V8 JSON profiles (Chrome DevTools, node --cpu-prof,
+// node --heap-prof) and from folded stacks (perf, eBPF and flamegraph.pl tooling)
+import { Profile } from 'pprof-format'
+import { PprofBuilder } from './utils/pprofBuilder.js'
+
+export interface V8CallFrame {
+  functionName: string
+  scriptId?: string | number
+  url: string
+  lineNumber: number  // 0-based
+  columnNumber: number  // 0-based
+}
+
+/**
+ * A .cpuprofile, as written by Chrome DevTools and node --cpu-prof
+ * Times are in microseconds.
+ */
+export interface CpuProfile {
+  nodes: Array<{
+    id: number
+    callFrame: V8CallFrame
+    hitCount?: number
+    children?: number[]
+    parent?: number
+  }>
+  startTime: number
+  endTime: number
+  samples?: number[]  // Node ID of each sample
+  timeDeltas?: number[]  // Time since the previous sample, one per sample
+}
+
+export interface HeapProfileNode {
+  id?: number
+  callFrame: V8CallFrame
+  selfSize: number  // Bytes allocated by this frame and still sampled
+  children: HeapProfileNode[]
+}
+
+/**
+ * A .heapprofile, as written by Chrome DevTools and node --heap-prof
+ */
+export interface HeapProfile {
+  head: HeapProfileNode
+  samples?: Array<{ size: number, nodeId: number, ordinal?: number }>
+}
+
+export interface FoldedStacksOptions {
+  sampleType?: string  // e.g. 'cpu' or 'space', so detectProfileMetadata can classify the profile
+  unit?: string  // e.g. 'nanoseconds' or 'bytes'
+}
+
+// Synthetic root frame of V8 profiles, which is not part of any stack
+const ROOT_FRAME_NAME = '(root)'
+const MICROSECONDS_TO_NANOSECONDS = 1000
+
+// A folded stack line: frames separated by ';', then whitespace and the value
+const FOLDED_LINE = /^(.*\S)\s+(\d+(?:\.\d+)?)$/
+
+/**
+ * Checks whether parsed JSON looks like a .cpuprofile
+ * @param value The parsed JSON
+ * @returns Whether the value has the nodes and time range of a CPU profile
+ */
+export function isCpuProfile(value: unknown): value is CpuProfile {
+  const candidate = value as CpuProfile | null
+  return typeof candidate === 'object' && candidate !== null &&
+    Array.isArray(candidate.nodes) && typeof candidate.startTime === 'number' && typeof candidate.endTime === 'number'
+}
+
+/**
+ * Checks whether parsed JSON looks like a .heapprofile
+ * @param value The parsed JSON
+ * @returns Whether the value has the sampling tree of a heap profile
+ */
+export function isHeapProfile(value: unknown): value is HeapProfile {
+  const candidate = value as HeapProfile | null
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.head === 'object' && candidate.head !== null && typeof candidate.head.selfSize === 'number'
+}
+
+/**
+ * Converts a .cpuprofile into a pprof profile with sample counts and CPU time
+ * Each sample lasts until the next one; the last one lasts until endTime.
+ * Profiles without samples fall back to the hit counts of their nodes.
+ *
+ * @param cpuProfile The parsed .cpuprofile
+ * @returns The equivalent pprof profile
+ */
+export function convertCpuProfile(cpuProfile: CpuProfile): Profile {
+  const { nodes, startTime, endTime, samples, timeDeltas } = cpuProfile
+  const builder = new PprofBuilder([['samples', 'count'], ['cpu', 'nanoseconds']])
+  const duration = Math.max(0, endTime - startTime)
+
+  const parents = new Map<number, number>()
+  for (const node of nodes) {
+    if (node.parent !== undefined) {
+      parents.set(node.id, node.parent)
+    }
+    for (const childId of node.children ?? []) {
+      parents.set(childId, node.id)
+    }
+  }
+  const nodesById = new Map(nodes.map(node => [node.id, node]))
+
+  // Stacks of location IDs per node, leaf first
+  const stacks = new Map<number, number[]>()
+  const getStack = (nodeId: number): number[] => {
+    let stack = stacks.get(nodeId)
+    if (!stack) {
+      stack = []
+      for (let id: number | undefined = nodeId; id !== undefined; id = parents.get(id)) {
+        const node = nodesById.get(id)
+        if (node && node.callFrame.functionName !== ROOT_FRAME_NAME) {
+          stack.push(getCallFrameLocationId(builder, node.callFrame))
+        }
+      }
+      stacks.set(nodeId, stack)
+    }
+    return stack
+  }
+
+  // One pprof sample per V8 sample, so sample counts stay exact
+  const addSample = (nodeId: number, time: number) => {
+    const stack = getStack(nodeId)
+    if (stack.length > 0) {
+      builder.addSample(stack, [1, Math.round(Math.max(0, time) * MICROSECONDS_TO_NANOSECONDS)])
+    }
+  }
+
+  let totalSamples = 0
+  if (samples && samples.length > 0) {
+    const fallbackInterval = duration / samples.length
+    let timestamp = startTime
+
+    samples.forEach((nodeId, i) => {
+      let time = fallbackInterval
+      if (timeDeltas && timeDeltas.length === samples.length) {
+        timestamp += timeDeltas[i]
+        time = i + 1 < samples.length ? timeDeltas[i + 1] : endTime - timestamp
+      }
+      addSample(nodeId, time)
+    })
+    totalSamples = samples.length
+  } else {
+    totalSamples = nodes.reduce((sum, node) => sum + (node.hitCount ?? 0), 0)
+    for (const node of nodes) {
+      for (let hit = 0; hit < (node.hitCount ?? 0); hit++) {
+        addSample(node.id, duration / totalSamples)
+      }
+    }
+  }
+
+  return builder.build({
+    timeNanos: Math.round(startTime * MICROSECONDS_TO_NANOSECONDS),
+    durationNanos: Math.round(duration * MICROSECONDS_TO_NANOSECONDS),
+    periodType: ['cpu', 'nanoseconds'],
+    period: totalSamples > 0 ? Math.round(duration * MICROSECONDS_TO_NANOSECONDS / totalSamples) : 0
+  })
+}
+
+/**
+ * Converts a .heapprofile into a pprof profile with allocation counts and sizes
+ * @param heapProfile The parsed .heapprofile
+ * @returns The equivalent pprof profile
+ */
+export function convertHeapProfile(heapProfile: HeapProfile): Profile {
+  const builder = new PprofBuilder([['objects', 'count'], ['space', 'bytes']])
+
+  const objectCounts = new Map<number, number>()
+  for (const sample of heapProfile.samples ?? []) {
+    objectCounts.set(sample.nodeId, (objectCounts.get(sample.nodeId) ?? 0) + 1)
+  }
+
+  // stack holds the location IDs from the visited node up to the root, leaf first
+  const visit = (node: HeapProfileNode, stack: number[]) => {
+    const isRoot = node.callFrame.functionName === ROOT_FRAME_NAME
+    const nodeStack = isRoot ? stack : [getCallFrameLocationId(builder, node.callFrame), ...stack]
+
+    if (node.selfSize > 0 && nodeStack.length > 0) {
+      const objects = node.id !== undefined ? objectCounts.get(node.id) ?? 0 : 0
+      builder.addSample(nodeStack, [objects, node.selfSize])
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, nodeStack)
+    }
+  }
+  visit(heapProfile.head, [])
+
+  return builder.build({ periodType: ['space', 'bytes'], period: 0 })
+}
+
+/**
+ * Converts parsed JSON of any supported V8 profile format
+ * @param value The parsed JSON
+ * @returns The equivalent pprof profile
+ */
+export function convertJsonProfile(value: unknown): Profile {
+  if (isCpuProfile(value)) {
+    return convertCpuProfile(value)
+  }
+  if (isHeapProfile(value)) {
+    return convertHeapProfile(value)
+  }
+  throw new Error('JSON is neither a .cpuprofile nor a .heapprofile')
+}
+
+/**
+ * Checks whether text looks like folded stacks, from its first line
+ * Blank lines and '#' comments are skipped.
+ *
+ * @param text The text to check
+ * @returns Whether the first stack line is frames followed by a value
+ */
+export function isFoldedStacks(text: string): boolean {
+  for (const line of text.split('\n', 100)) {
+    const trimmed = line.trim()
+    if (trimmed && !trimmed.startsWith('#')) {
+      return FOLDED_LINE.test(trimmed)
+    }
+  }
+  return false
+}
+
+/**
+ * Parses folded stacks, as written by Brendan Gregg's stackcollapse scripts
+ * Each line holds the frames of a stack from the root, separated by ';', then
+ * its value: `main;query;parse 123`. Values are sample counts unless a sample
+ * type and unit are given.
+ *
+ * @param text The folded stacks
+ * @param options The sample type and unit of the values
+ * @returns The equivalent pprof profile, with one sample per line
+ */
+export function parseFoldedStacks(text: string, options: FoldedStacksOptions = {}): Profile {
+  const { sampleType = 'samples', unit = 'count' } = options
+  const builder = new PprofBuilder([[sampleType, unit]])
+
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) {return}
+
+    const match = FOLDED_LINE.exec(trimmed)
+    if (!match) {
+      throw new Error(`Invalid folded stack on line ${index + 1}: ${trimmed}`)
+    }
+
+    const frames = match[1].split(';').filter(frame => frame !== '')
+    if (frames.length > 0) {
+      builder.addSample(frames.map(frame => builder.getLocationId(frame)).reverse(), [Math.round(Number(match[2]))])
+    }
+  })
+
+  return builder.build({ periodType: [sampleType, unit], period: 0 })
+}
+
+function getCallFrameLocationId(builder: PprofBuilder, callFrame: V8CallFrame): number {
+  // V8 lines are 0-based, pprof lines are 1-based
+  const line = callFrame.lineNumber >= 0 ? callFrame.lineNumber + 1 : 0
+  return builder.getLocationId(callFrame.functionName || '(anonymous)', callFrame.url ?? '', line, callFrame.columnNumber)
+}
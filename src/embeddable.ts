@@ -1,11 +1,39 @@
 import { FLAMEGRAPH_BUNDLE } from './generated/bundle.js'
+import { FoldedStacksOptions, convertJsonProfile, isFoldedStacks, parseFoldedStacks } from './converters.js'
+import { parseProfile } from './parser.js'
+import { FlameNode, FlameDataProcessor } from './renderer/FlameDataProcessor.js'
+import { getFrameColorBySameDepthRatio, hexToRgb } from './renderer/colors.js'
+import { FONT_DEFAULTS, OPACITY_DEFAULTS } from './renderer/constants.js'
+import { formatPercentage, formatValue, getSelfValueLabel, getTotalValueLabel } from './renderer/formatters.js'
+import { SvgFrame, renderFlameGraphSvg } from './renderer/svg.js'
+import { ThemeName, resolveTheme } from './renderer/themes.js'
+import { aggregateFunctions } from './utils/functionStats.js'
+import { isGzip } from './utils/gzip.js'
+
+const LOADING_PLACEHOLDER = `
+    <div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px;">
+      Loading profile...
+    </div>`
+
+// Same frame padding as the FlameGraph component, so the snapshot has the same rows
+const STATIC_FRAME_PADDING = 5
+
+// Labels cannot be measured without a canvas, so they are cut at an average character width
+const AVERAGE_CHAR_WIDTH_RATIO = 0.6
+const MIN_LABEL_FRAME_WIDTH = 16
+
+// Frames narrower than this are left out of snapshots to keep them small
+const MIN_STATIC_FRAME_WIDTH = 0.5
 
 export interface EmbeddableFlameGraphOptions {
   title?: string
   filename?: string
-  primaryColor?: string
-  secondaryColor?: string
+  theme?: ThemeName  // Built-in theme of the graph and its container (default: 'dark')
+  primaryColor?: string  // Defaults to the primary color of the theme
+  secondaryColor?: string  // Defaults to the secondary color of the theme
   height?: number | string
+  folded?: FoldedStacksOptions  // Sample type and unit of folded stack input
+  profileUrl?: string  // Fetch the profile from this URL in the browser instead of embedding it
 }
 
 export interface EmbeddableFlameGraphResult {
@@ -13,6 +41,16 @@ export interface EmbeddableFlameGraphResult {
   script: string
 }
 
+export interface StaticFlameGraphOptions extends EmbeddableFlameGraphOptions {
+  width?: number  // Width of the graph in pixels (default: 1200)
+  topFunctions?: number  // Functions listed below the graph (default: 10)
+  showAppCodeOnly?: boolean  // Hide node_modules and Node.js internals
+}
+
+export interface StaticFlameGraphResult extends EmbeddableFlameGraphResult {
+  svg: string  // The graph alone, e.g. to attach to an email or a PDF
+}
+
 export interface EmbeddableFlameGraphBundle {
   bundle: string
 }
@@ -30,33 +68,130 @@ export async function getFlamegraphBundle (): Promise<EmbeddableFlameGraphBundle
 /**
  * Generate embeddable HTML and JavaScript for a flamegraph from raw pprof data
  * Uses a function-based API that can be called multiple times for different graphs
+ * The profile is embedded as base64 of its gzipped bytes, and decoded by the bundle.
  *
- * @param profileBuffer - Raw pprof binary data (Buffer or Uint8Array)
+ * @param profileBuffer - Raw pprof binary data (Buffer or Uint8Array), plain or gzipped,
+ *   or the text of a V8 JSON profile or of folded stacks, which are converted to pprof.
+ *   Ignored, and may be null, when options.profileUrl is set
  * @param options - Configuration options for the flamegraph
  * @returns Object containing separate HTML and script strings for embedding
  */
 export async function generateEmbeddableFlameGraph (
-  profileBuffer: Buffer | Uint8Array,
+  profileBuffer: Buffer | Uint8Array | null,
   options: EmbeddableFlameGraphOptions = {}
 ): Promise<EmbeddableFlameGraphResult> {
+  return createEmbeddable(profileBuffer, options, LOADING_PLACEHOLDER)
+}
+
+/**
+ * Render a flamegraph to static HTML and SVG on the server
+ * The snapshot shows the graph and the hottest functions without JavaScript, for
+ * emails, PDF reports and feed readers. The returned script renders the
+ * interactive graph over the snapshot once the bundle is loaded, like the one of
+ * generateEmbeddableFlameGraph.
+ *
+ * @param profileBuffer - Raw pprof binary data (Buffer or Uint8Array), plain or gzipped,
+ *   or the text of a V8 JSON profile or of folded stacks
+ * @param options - Configuration options for the flamegraph and the snapshot
+ * @returns The HTML container holding the snapshot, the render script and the SVG of the graph
+ */
+export async function renderStaticFlameGraph (
+  profileBuffer: Buffer | Uint8Array,
+  options: StaticFlameGraphOptions = {}
+): Promise<StaticFlameGraphResult> {
+  const theme = resolveTheme(options.theme ?? 'dark')
   const {
     title = 'Profile',
-    filename = 'profile.pb',
-    primaryColor = '#ff4444',
-    secondaryColor = '#ffcc66'
+    primaryColor = theme.primaryColor,
+    secondaryColor = theme.secondaryColor,
+    width = 1200,
+    topFunctions = 10,
+    showAppCodeOnly = false,
+    folded
   } = options
 
-  // Convert Buffer to Uint8Array if needed
-  const uint8Array = profileBuffer instanceof Buffer
-    ? new Uint8Array(profileBuffer)
-    : profileBuffer
+  const profile = await parseProfile(profileBuffer instanceof Buffer ? new Uint8Array(profileBuffer) : profileBuffer, { folded })
+
+  const processor = new FlameDataProcessor()
+  processor.setFramePadding(STATIC_FRAME_PADDING)
+  const root = processor.processProfile(profile, showAppCodeOnly)
+  const profileMetadata = processor.getProfileMetadata()!
+
+  const svg = renderFlameGraphSvg(
+    getStaticFrames(processor.generateFrames(), width, hexToRgb(primaryColor), hexToRgb(secondaryColor)),
+    {
+      width,
+      height: processor.calculateGraphHeight(),
+      backgroundColor: hexToRgb(theme.backgroundColor),
+      fontSize: FONT_DEFAULTS.size,
+      fontFamily: FONT_DEFAULTS.family,
+      textColor: theme.textColor,
+      shadowOpacity: theme.shadowOpacity,
+      highlightColor: theme.highlightColor
+    }
+  )
+
+  const format = (value: number) => formatValue(value, profileMetadata)
+  const share = (value: number) => formatPercentage(root.value > 0 ? value / root.value : 0)
+  const cell = `padding: 4px 8px; border-bottom: 1px solid ${theme.textColor}33;`
+  const rows = aggregateFunctions(root).slice(0, Math.max(0, topFunctions)).map(entry => `
+        <tr>
+          <td style="${cell} text-align: right;">${format(entry.selfValue)}</td>
+          <td style="${cell} text-align: right;">${share(entry.selfValue)}</td>
+          <td style="${cell} text-align: right;">${format(entry.totalValue)}</td>
+          <td style="${cell} text-align: right;">${share(entry.totalValue)}</td>
+          <td style="${cell}">${escapeHtml(formatFrameText(entry))}</td>
+        </tr>`).join('')
+
+  const snapshot = `
+    <div style="display: flex; flex-direction: column; gap: 16px; padding: 16px; overflow: auto;">
+      <div style="font-size: 18px;">${escapeHtml(title)}</div>
+      <div style="overflow-x: auto;">${svg}</div>
+      <table style="border-collapse: collapse; font-size: 12px;">
+        <tr>
+          <th style="${cell} text-align: right;">${getSelfValueLabel(profileMetadata)}</th>
+          <th style="${cell} text-align: right;">Self %</th>
+          <th style="${cell} text-align: right;">${getTotalValueLabel(profileMetadata)}</th>
+          <th style="${cell} text-align: right;">Total %</th>
+          <th style="${cell} text-align: left;">Function</th>
+        </tr>${rows}
+      </table>
+    </div>`
+
+  return { ...(await createEmbeddable(profileBuffer, options, snapshot)), svg }
+}
+
+async function createEmbeddable (
+  profileBuffer: Buffer | Uint8Array | null,
+  options: EmbeddableFlameGraphOptions,
+  placeholder: string
+): Promise<EmbeddableFlameGraphResult> {
+  const themeName = options.theme ?? 'dark'
+  const theme = resolveTheme(themeName)
+  const {
+    title = 'Profile',
+    filename = 'profile.pb',
+    primaryColor = theme.primaryColor,
+    secondaryColor = theme.secondaryColor,
+    folded,
+    profileUrl
+  } = options
 
   // Generate unique ID for this graph instance
   const containerId = `react-pprof-${Math.random().toString(36).substr(2, 9)}`
   const rootId = `${containerId}-root`
 
-  // Generate the array literal for the profile data
-  const arrayLiteral = `new Uint8Array([${Array.from(uint8Array).join(',')}])`
+  let profileSource: string
+  if (profileUrl) {
+    profileSource = `profileUrl: ${toScriptLiteral(profileUrl)}`
+  } else {
+    // Convert Buffer to Uint8Array if needed, and text profiles to pprof
+    const uint8Array = toPprof(profileBuffer instanceof Buffer
+      ? new Uint8Array(profileBuffer)
+      : profileBuffer ?? new Uint8Array(), folded)
+
+    profileSource = `profileBase64: '${Buffer.from(await compress(uint8Array)).toString('base64')}'`
+  }
 
   // Create the render call script (doesn't use globals)
   const script = `
@@ -66,14 +201,13 @@ export async function generateEmbeddableFlameGraph (
     return;
   }
 
-  const profileData = ${arrayLiteral}.buffer;
-
   window.renderReactPprofFlameGraph('${rootId}', {
-    profileData: profileData,
-    filename: ${JSON.stringify(filename)},
-    title: ${JSON.stringify(title)},
-    primaryColor: ${JSON.stringify(primaryColor)},
-    secondaryColor: ${JSON.stringify(secondaryColor)}
+    ${profileSource},
+    filename: ${toScriptLiteral(filename)},
+    title: ${toScriptLiteral(title)},
+    theme: ${toScriptLiteral(themeName)},
+    primaryColor: ${toScriptLiteral(primaryColor)},
+    secondaryColor: ${toScriptLiteral(secondaryColor)}
   });
 })();
 `
@@ -81,14 +215,121 @@ export async function generateEmbeddableFlameGraph (
   // Create the HTML container with unique IDs
   // Use flex: 1 to fill the parent container properly
   const html = `
-<div id="${containerId}" style="display: flex; flex-direction: column; flex: 1; min-height: 0; background-color: #1e1e1e; color: #ffffff; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
-  <div id="${rootId}" style="display: flex; flex-direction: column; flex: 1; min-height: 0;">
-    <div style="display: flex; align-items: center; justify-content: center; height: 100%; font-size: 18px;">
-      Loading profile...
-    </div>
+<div id="${containerId}" style="display: flex; flex-direction: column; flex: 1; min-height: 0; background-color: ${theme.backgroundColor}; color: ${theme.textColor}; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div id="${rootId}" style="display: flex; flex-direction: column; flex: 1; min-height: 0;">${placeholder}
   </div>
 </div>
 `
 
   return { html, script }
 }
+
+/**
+ * Write a value as a JavaScript literal for an inline script
+ * '<' is escaped so values cannot close the script element, e.g. with '</script>'.
+ */
+function toScriptLiteral (value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+/**
+ * Convert text profiles to pprof, so they are embedded compactly
+ * Binary and gzipped data is passed through and decoded in the browser.
+ */
+function toPprof (bytes: Uint8Array, folded?: FoldedStacksOptions): Uint8Array {
+  // JSON profiles start with '{', which pprof protobuf never does
+  if (bytes[0] === 0x7b) {
+    return convertJsonProfile(JSON.parse(Buffer.from(bytes).toString('utf8'))).encode()
+  }
+
+  // pprof protobuf starts with a field tag and length, which are not printable
+  if (bytes.length > 0 && bytes[0] >= 0x20) {
+    const text = Buffer.from(bytes).toString('utf8')
+    if (isFoldedStacks(text)) {
+      return parseFoldedStacks(text, folded).encode()
+    }
+  }
+
+  return bytes
+}
+
+/**
+ * Gzip a profile before it is embedded, unless it already is
+ * CompressionStream is used instead of zlib so this module stays importable in browsers.
+ */
+async function compress (bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes.length === 0 || isGzip(bytes)) {
+    return bytes
+  }
+
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Lay out frames for a snapshot at the given width, colored like the WebGL graph
+ */
+function getStaticFrames (
+  frames: Array<{node: FlameNode, x1: number, x2: number, y1: number, y2: number}>,
+  width: number,
+  primaryColor: [number, number, number],
+  secondaryColor: [number, number, number]
+): SvgFrame[] {
+  const totalValueByDepth = new Map<number, number>()
+  for (const frame of frames) {
+    totalValueByDepth.set(frame.node.depth, (totalValueByDepth.get(frame.node.depth) ?? 0) + frame.node.value)
+  }
+
+  const fontSize = FONT_DEFAULTS.size
+  const charWidth = fontSize * AVERAGE_CHAR_WIDTH_RATIO
+  const staticFrames: SvgFrame[] = []
+
+  for (const { node, x1, x2, y1, y2 } of frames) {
+    const screenX1 = x1 * width
+    const screenX2 = x2 * width
+    if (screenX2 - screenX1 < MIN_STATIC_FRAME_WIDTH) {continue}
+
+    const opacity = OPACITY_DEFAULTS.unselected
+    const color = getFrameColorBySameDepthRatio(primaryColor, secondaryColor, node.value, totalValueByDepth.get(node.depth) ?? node.value)
+
+    let label = null
+    const maxWidth = screenX2 - screenX1 - STATIC_FRAME_PADDING * 2
+    if (screenX2 - screenX1 >= MIN_LABEL_FRAME_WIDTH + STATIC_FRAME_PADDING * 2) {
+      const text = truncateLabel(formatFrameText(node), Math.floor(maxWidth / charWidth))
+      if (text.length > 0) {
+        label = {
+          text,
+          x: screenX1 + STATIC_FRAME_PADDING,
+          y: y1 + STATIC_FRAME_PADDING + (y2 - y1 - fontSize - STATIC_FRAME_PADDING * 2) / 2,
+          maxWidth
+        }
+      }
+    }
+
+    staticFrames.push({ node, x1: screenX1, x2: screenX2, y1, y2, color, opacity, searchMatch: false, label })
+  }
+
+  return staticFrames
+}
+
+function formatFrameText (frame: { name: string, fileName?: string, lineNumber?: number }): string {
+  if (!frame.fileName || !frame.lineNumber) {
+    return frame.name
+  }
+  return `${frame.name} at ${frame.fileName}:${frame.lineNumber}`
+}
+
+function truncateLabel (text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text
+  }
+  return maxChars > 1 ? `${text.slice(0, maxChars - 1)}…` : ''
+}
+
+function escapeHtml (text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -1,21 +1,118 @@
 // Main library exports
-export { FlameGraph, type FlameGraphProps } from './components/FlameGraph.js'
+export { FlameGraph, type FlameGraphProps, type FlameGraphHandle } from './components/FlameGraph.js'
 export { StackDetails, type StackDetailsProps } from './components/StackDetails.js'
 export { FlameGraphTooltip, type FlameGraphTooltipProps } from './components/FlameGraphTooltip.js'
 export { HottestFramesBar, type HottestFramesBarProps } from './components/HottestFramesBar.js'
 export { HottestFramesControls, type HottestFramesControlsProps } from './components/HottestFramesControls.js'
 export { FrameDetails, type FrameDetailsProps } from './components/FrameDetails.js'
 export { FullFlameGraph, type FullFlameGraphProps } from './components/FullFlameGraph.js'
-export { fetchProfile, type Profile } from './parser.js'
+export { DiffFlameGraph, type DiffFlameGraphProps } from './components/DiffFlameGraph.js'
+export { SandwichView, type SandwichViewProps } from './components/SandwichView.js'
+export { FunctionTable, type FunctionTableProps, type FunctionTableSortKey } from './components/FunctionTable.js'
+export { ThemeProvider, useTheme, type ThemeProviderProps } from './components/ThemeProvider.js'
+export { ColorLegend, type ColorLegendProps } from './components/ColorLegend.js'
+export {
+  darkTheme,
+  lightTheme,
+  highContrastTheme,
+  themes,
+  resolveTheme,
+  type Theme,
+  type ThemeName
+} from './renderer/themes.js'
+export {
+  getModuleCategory,
+  getColorLegend,
+  type ColorScheme,
+  type ColorSchemeName,
+  type FrameColorFunction,
+  type ModuleCategory,
+  type ColorLegendEntry
+} from './renderer/colorSchemes.js'
+export {
+  fetchProfile,
+  parseProfile,
+  ProfileNetworkError,
+  ProfileHttpError,
+  ProfileDecodeError,
+  type Profile,
+  type ParseProfileOptions,
+  type FetchProfileOptions,
+  type FetchProfileProgress
+} from './parser.js'
+export {
+  convertCpuProfile,
+  convertHeapProfile,
+  convertJsonProfile,
+  isCpuProfile,
+  isHeapProfile,
+  parseFoldedStacks,
+  isFoldedStacks,
+  type FoldedStacksOptions,
+  type CpuProfile,
+  type HeapProfile,
+  type HeapProfileNode,
+  type V8CallFrame
+} from './converters.js'
+export {
+  createProfileReport,
+  formatProfileReport,
+  type ProfileReport,
+  type ProfileReportFunction,
+  type ProfileReportOptions,
+  type ProfileReportSortKey
+} from './report.js'
+export {
+  checkBudgets,
+  formatBudgetReport,
+  parseBudgetValue,
+  type Budget,
+  type BudgetCheckOptions,
+  type BudgetCheckResult,
+  type BudgetResult,
+  type BudgetViolation
+} from './budgets.js'
+export { useFlameTree, getFlameTree, type FlameTree, type FlameTreeOptions } from './components/hooks/useFlameTree.js'
+export { useWorkerFlameTree } from './components/hooks/useWorkerFlameTree.js'
+export { ProfileWorker, loadFlameTreeInWorker } from './worker/ProfileWorker.js'
+export type { ProfileLoadProgress, ProfileLoadStage, WorkerFlameTreeOptions } from './worker/protocol.js'
+export {
+  exportFlameTree,
+  type FlameTreeExportFormat,
+  type ExportedFlameTree,
+  type ExportedFlameNode
+} from './utils/exportFlameTree.js'
 
 // Embeddable flamegraph generation for server-side use
 export {
   generateEmbeddableFlameGraph,
   getFlamegraphBundle,
+  renderStaticFlameGraph,
   type EmbeddableFlameGraphOptions,
   type EmbeddableFlameGraphResult,
-  type EmbeddableFlameGraphBundle
+  type EmbeddableFlameGraphBundle,
+  type StaticFlameGraphOptions,
+  type StaticFlameGraphResult
 } from './embeddable.js'
 
+// Routes to capture and view profiles from Express and Fastify apps
+export {
+  createProfilerMiddleware,
+  fastifyProfiler,
+  createDatadogCapture,
+  type CaptureProfileType,
+  type CaptureProfileFunction,
+  type DatadogPprofLike,
+  type ProfilerRoutesOptions,
+  type ProfileCapture,
+  type FastifyInstanceLike,
+  type FastifyRequestLike,
+  type FastifyReplyLike
+} from './middleware.js'
+
 // Internal types - not recommended for external use
-export type { FlameNode, FrameData } from './renderer/FlameDataProcessor.js'
+export type { FlameNode, FrameData, FlameGraphOrientation, SandwichTrees } from './renderer/FlameDataProcessor.js'
+export type { ImageExportFormat, ImageExportOptions } from './renderer/FlameGraphRenderer.js'
+export type { SearchQuery, SearchResult } from './utils/frameSearch.js'
+export type { FunctionStats } from './utils/functionStats.js'
+export type { PackedFlameTree } from './utils/packedFlameTree.js'
@@ -0,0 +1,411 @@
+// Routes to capture profiles of a running Node.js app and view them as flame graphs, for Express and Fastify
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'node:http'
+import { generateEmbeddableFlameGraph, getFlamegraphBundle } from './embeddable.js'
+
+export type CaptureProfileType = 'cpu' | 'heap'
+
+/**
+ * Records a profile of the running process
+ * Resolves with the encoded pprof profile, plain or gzipped, once the duration has passed.
+ */
+export type CaptureProfileFunction = (type: CaptureProfileType, durationSeconds: number) => Promise<Uint8Array>
+
+/**
+ * The parts of @datadog/pprof used by createDatadogCapture, so it is not a dependency
+ */
+export interface DatadogPprofLike {
+  encode(profile: unknown): Promise<Uint8Array>
+  time: { profile(options: { durationMillis: number }): Promise<unknown> }
+  heap: { start(intervalBytes: number, stackDepth: number): void, stop(): void, profile(): unknown }
+}
+
+export interface ProfilerRoutesOptions {
+  capture: CaptureProfileFunction  // Records the profiles, e.g. createDatadogCapture(pprof)
+  maxCaptures?: number  // Captures kept in memory, the oldest are dropped first (default: 10)
+  defaultDuration?: number  // Seconds captured when the request does not say (default: 10)
+  maxDuration?: number  // Longest capture a request may ask for, in seconds (default: 60)
+  title?: string  // Title of the pages (default: 'Profiles')
+}
+
+export interface ProfileCapture {
+  id: string
+  type: CaptureProfileType
+  duration: number  // Seconds
+  capturedAt: string  // ISO date of the end of the capture
+  size: number  // Bytes of the encoded profile
+}
+
+/**
+ * The parts of a Fastify instance the plugin uses, so Fastify is not a dependency
+ */
+export interface FastifyInstanceLike {
+  prefix: string
+  route(options: {
+    method: string[]
+    url: string
+    handler: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>
+  }): unknown
+}
+
+export interface FastifyRequestLike {
+  method: string
+  url: string
+  headers: IncomingHttpHeaders
+  params: unknown
+}
+
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike
+  headers(headers: Record<string, string>): FastifyReplyLike
+  send(payload?: unknown): unknown
+}
+
+interface ProfilerRequest {
+  method: string
+  path: string  // Path below the mount point of the routes, starting with '/'
+  basePath: string  // Mount point of the routes, without a trailing '/'
+  query: URLSearchParams
+  headers: IncomingHttpHeaders
+}
+
+interface ProfilerResponse {
+  status: number
+  headers: Record<string, string>
+  body: string | Uint8Array
+}
+
+type ProfilerHandler = (request: ProfilerRequest) => Promise<ProfilerResponse | null>
+
+const CAPTURE_TYPES: CaptureProfileType[] = ['cpu', 'heap']
+
+// Sampling of heap captures with @datadog/pprof, as in its documentation
+const HEAP_INTERVAL_BYTES = 512 * 1024
+const HEAP_STACK_DEPTH = 64
+
+/**
+ * Create Express middleware serving the profiler routes
+ * Mount it on a path, e.g. app.use('/profiler', createProfilerMiddleware({ capture })). It
+ * also works as a plain node:http listener, then answering unknown paths with 404.
+ *
+ * - GET / lists the captures, with buttons to start new ones
+ * - POST /captures?type=cpu|heap&duration=10 captures a profile, refused for requests from other sites
+ * - GET /captures lists the captures as JSON
+ * - GET /captures/:id renders a capture as a flame graph
+ * - GET /captures/:id/profile.pb downloads a capture
+ *
+ * @param options The capture function and how many captures to keep
+ * @returns The middleware
+ */
+export function createProfilerMiddleware(options: ProfilerRoutesOptions) {
+  const handle = createProfilerHandler(options)
+
+  return (request: IncomingMessage & { baseUrl?: string }, response: ServerResponse, next?: (error?: unknown) => void): void => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+
+    handle({
+      method: request.method ?? 'GET',
+      path: url.pathname,
+      basePath: (request.baseUrl ?? '').replace(/\/$/, ''),
+      query: url.searchParams,
+      headers: request.headers
+    }).then(result => {
+      if (!result) {
+        if (next) {
+          next()
+          return
+        }
+        result = { status: 404, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: 'Not found' }
+      }
+
+      response.writeHead(result.status, result.headers)
+      response.end(result.body)
+    }, error => {
+      if (next) {
+        next(error)
+        return
+      }
+      response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' })
+      response.end(getErrorMessage(error))
+    })
+  }
+}
+
+/**
+ * Fastify plugin serving the profiler routes
+ * Register it with a prefix, e.g. fastify.register(fastifyProfiler, { prefix: '/profiler', capture }).
+ * The routes are the ones of createProfilerMiddleware, and their links start with the prefix.
+ *
+ * @param fastify The Fastify instance
+ * @param options The capture function and how many captures to keep
+ */
+export async function fastifyProfiler(fastify: FastifyInstanceLike, options: ProfilerRoutesOptions): Promise<void> {
+  const handle = createProfilerHandler(options)
+
+  const handler = async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const url = new URL(request.url, 'http://localhost')
+    const wildcard = (request.params as Record<string, string | undefined>)['*'] ?? ''
+
+    const result = await handle({
+      method: request.method,
+      path: `/${wildcard}`,
+      basePath: fastify.prefix.replace(/\/$/, ''),
+      query: url.searchParams,
+      headers: request.headers
+    }) ?? { status: 404, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: 'Not found' }
+
+    return reply
+      .code(result.status)
+      .headers(result.headers)
+      .send(typeof result.body === 'string' ? result.body : Buffer.from(result.body))
+  }
+
+  fastify.route({ method: ['GET', 'POST'], url: '/', handler })
+  fastify.route({ method: ['GET', 'POST'], url: '/*', handler })
+}
+
+/**
+ * Create a capture function recording profiles with @datadog/pprof
+ * The module is passed in, e.g. createDatadogCapture(await import('@datadog/pprof')),
+ * so apps that capture profiles another way do not need it installed.
+ *
+ * @param pprof The @datadog/pprof module
+ * @returns A capture function resolving with gzipped pprof profiles
+ */
+export function createDatadogCapture(pprof: DatadogPprofLike): CaptureProfileFunction {
+  return async (type, durationSeconds) => {
+    if (type === 'cpu') {
+      return pprof.encode(await pprof.time.profile({ durationMillis: durationSeconds * 1000 }))
+    }
+
+    pprof.heap.start(HEAP_INTERVAL_BYTES, HEAP_STACK_DEPTH)
+    try {
+      await new Promise(resolve => setTimeout(resolve, durationSeconds * 1000))
+      return await pprof.encode(pprof.heap.profile())
+    } finally {
+      pprof.heap.stop()
+    }
+  }
+}
+
+/**
+ * Route requests to the profiler pages, independently of the framework
+ * Resolves with null for paths that are not profiler routes.
+ */
+function createProfilerHandler(options: ProfilerRoutesOptions): ProfilerHandler {
+  const {
+    capture,
+    maxCaptures = 10,
+    defaultDuration = 10,
+    maxDuration = 60,
+    title = 'Profiles'
+  } = options
+
+  // Newest first
+  const captures: Array<ProfileCapture & { data: Uint8Array }> = []
+  const running = new Set<CaptureProfileType>()
+  let sequence = 0
+
+  const text = (status: number, body: string): ProfilerResponse =>
+    ({ status, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body })
+  const json = (status: number, body: unknown): ProfilerResponse =>
+    ({ status, headers: { 'Content-Type': 'application/json; charset=utf-8' }, body: JSON.stringify(body) })
+  const html = (body: string): ProfilerResponse =>
+    ({ status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' }, body })
+
+  const captureProfile = async (request: ProfilerRequest): Promise<ProfilerResponse> => {
+    // The forms of the index page are simple requests, which other sites can send without a preflight
+    if (isCrossSiteRequest(request.headers)) {
+      return text(403, 'Profiles can only be captured from the pages of the profiler')
+    }
+
+    const type = request.query.get('type') ?? 'cpu'
+    if (!CAPTURE_TYPES.includes(type as CaptureProfileType)) {
+      return text(400, `Unknown profile type '${type}', expected ${CAPTURE_TYPES.join(' or ')}`)
+    }
+
+    const duration = Number(request.query.get('duration') ?? defaultDuration)
+    if (!Number.isFinite(duration) || duration <= 0 || duration > maxDuration) {
+      return text(400, `Duration must be a number of seconds between 0 and ${maxDuration}`)
+    }
+
+    // Profilers record the whole process, so two captures of one type cannot overlap
+    const captureType = type as CaptureProfileType
+    if (running.has(captureType)) {
+      return text(409, `A ${captureType} profile is already being captured`)
+    }
+
+    running.add(captureType)
+    let data: Uint8Array
+    try {
+      data = await capture(captureType, duration)
+    } catch (error) {
+      return text(500, `Failed to capture the ${captureType} profile: ${getErrorMessage(error)}`)
+    } finally {
+      running.delete(captureType)
+    }
+
+    const entry = {
+      id: `${captureType}-${++sequence}`,
+      type: captureType,
+      duration,
+      capturedAt: new Date().toISOString(),
+      size: data.length,
+      data
+    }
+    captures.unshift(entry)
+    captures.splice(Math.max(0, maxCaptures))
+
+    // Forms of the index page are sent to the new flame graph, API clients get its description
+    if ((request.headers.accept ?? '').includes('text/html')) {
+      return { status: 303, headers: { Location: `${request.basePath}/captures/${entry.id}` }, body: '' }
+    }
+    return json(201, toCapture(entry))
+  }
+
+  return async request => {
+    const { method, path, basePath } = request
+
+    if (path === '/' && method === 'GET') {
+      return html(renderCapturesPage(title, basePath, captures, defaultDuration))
+    }
+
+    if (path === '/bundle.js' && method === 'GET') {
+      const { bundle } = await getFlamegraphBundle()
+      return { status: 200, headers: { 'Content-Type': 'text/javascript; charset=utf-8' }, body: bundle }
+    }
+
+    if (path === '/captures') {
+      if (method === 'POST') {
+        return captureProfile(request)
+      }
+      return method === 'GET' ? json(200, captures.map(toCapture)) : null
+    }
+
+    const match = /^\/captures\/([^/]+)(\/profile\.pb)?$/.exec(path)
+    if (!match || method !== 'GET') {
+      return null
+    }
+
+    const entry = captures.find(capture => capture.id === decodeURIComponent(match[1]))
+    if (!entry) {
+      return text(404, `Capture '${decodeURIComponent(match[1])}' not found`)
+    }
+
+    if (match[2]) {
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="${entry.id}.pb"`
+        },
+        body: entry.data
+      }
+    }
+
+    // The page fetches the profile from the download route instead of embedding it
+    const { html: graph, script } = await generateEmbeddableFlameGraph(null, {
+      title: `${entry.type.toUpperCase()} profile ${entry.id}`,
+      filename: `${entry.id}.pb`,
+      profileUrl: `${basePath}/captures/${entry.id}/profile.pb`
+    })
+    return html(renderPage(`${title}: ${entry.id}`, `${graph}
+<script src="${escapeHtml(basePath)}/bundle.js"></script>
+<script>${script}</script>`))
+  }
+}
+
+function renderCapturesPage(title: string, basePath: string, captures: ProfileCapture[], duration: number): string {
+  const rows = captures.map(capture => `
+    <tr>
+      <td><a href="${escapeHtml(basePath)}/captures/${capture.id}">${capture.id}</a></td>
+      <td>${capture.type}</td>
+      <td>${capture.duration}s</td>
+      <td>${escapeHtml(capture.capturedAt)}</td>
+      <td>${capture.size} bytes</td>
+      <td><a href="${escapeHtml(basePath)}/captures/${capture.id}/profile.pb">Download</a></td>
+    </tr>`).join('')
+
+  // text/plain bodies are accepted by Fastify without a form body parser
+  const forms = CAPTURE_TYPES.map(type => `
+    <form method="post" enctype="text/plain" action="${escapeHtml(basePath)}/captures?type=${type}&amp;duration=${duration}">
+      <button type="submit">Capture ${type} profile (${duration}s)</button>
+    </form>`).join('')
+
+  return renderPage(title, `
+  <main style="padding: 16px;">
+    <h1 style="font-size: 20px;">${escapeHtml(title)}</h1>
+    <div style="display: flex; gap: 8px;">${forms}
+    </div>
+    ${captures.length > 0
+    ? `<table style="margin-top: 16px; border-collapse: collapse;">
+      <tr><th>Capture</th><th>Type</th><th>Duration</th><th>Captured at</th><th>Size</th><th></th></tr>${rows}
+    </table>`
+    : '<p>No captures yet.</p>'}
+  </main>`)
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    html, body { margin: 0; padding: 0; height: 100%; }
+    body {
+      display: flex;
+      flex-direction: column;
+      background-color: #1e1e1e;
+      color: #ffffff;
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+    }
+    a { color: #ffcc66; }
+    th, td { padding: 4px 12px 4px 0; text-align: left; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+/**
+ * Whether a browser sent the request from a page of another origin
+ * Browsers send Sec-Fetch-Site, older ones only an Origin to compare with the host.
+ * Requests with neither, e.g. from curl, are not sent by a page.
+ */
+function isCrossSiteRequest(headers: IncomingHttpHeaders): boolean {
+  const fetchSite = headers['sec-fetch-site']
+  if (fetchSite) {
+    // 'none' is a request the user started, e.g. by reloading the page
+    return fetchSite !== 'same-origin' && fetchSite !== 'none'
+  }
+
+  if (!headers.origin) {
+    return false
+  }
+  try {
+    return new URL(headers.origin).host !== headers.host
+  } catch {
+    // Such as the 'null' origin of sandboxed pages
+    return true
+  }
+}
+
+function toCapture({ id, type, duration, capturedAt, size }: ProfileCapture): ProfileCapture {
+  return { id, type, duration, capturedAt, size }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -1,19 +1,190 @@
 // Simple Profile fetcher and decoder
 import { Profile } from 'pprof-format'
+import { gunzip, isGzip } from './utils/gzip.js'
+import { FoldedStacksOptions, convertJsonProfile, isFoldedStacks, parseFoldedStacks } from './converters.js'
 
 // Re-export Profile type from pprof-format
 export { Profile } from 'pprof-format'
 
+// pprof protobuf never starts with '{', so it marks JSON profiles
+const JSON_OBJECT_START = 0x7b
+// Bytes checked for control characters to tell text from protobuf
+const TEXT_SNIFF_LENGTH = 512
+
+export interface FetchProfileProgress {
+  loaded: number  // Bytes received so far
+  total?: number  // Size of the download, when the server sends it
+}
+
+export interface ParseProfileOptions {
+  folded?: FoldedStacksOptions  // Sample type and unit of folded stack input
+}
+
+export interface FetchProfileOptions {
+  headers?: HeadersInit
+  credentials?: RequestCredentials
+  signal?: AbortSignal
+  onProgress?: (progress: FetchProfileProgress) => void
+}
+
+/**
+ * Thrown when a profile cannot be downloaded, e.g. when the server is unreachable
+ */
+export class ProfileNetworkError extends Error {
+  readonly url: string
+
+  constructor(url: string, message: string) {
+    super(`Failed to fetch profile: ${message}`)
+    this.name = 'ProfileNetworkError'
+    this.url = url
+  }
+}
+
+/**
+ * Thrown when the server answers a profile request with an error status
+ */
+export class ProfileHttpError extends Error {
+  readonly url: string
+  readonly status: number
+  readonly statusText: string
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`Failed to fetch profile: ${status} ${statusText}`)
+    this.name = 'ProfileHttpError'
+    this.url = url
+    this.status = status
+    this.statusText = statusText
+  }
+}
+
+/**
+ * Thrown when a payload is neither a pprof protobuf nor a supported JSON profile
+ */
+export class ProfileDecodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProfileDecodeError'
+  }
+}
+
+/**
+ * Parse a profile that is already in memory, inflating it first when it is gzipped
+ * Profiles written by Go and @datadog/pprof are usually gzipped. JSON payloads
+ * (.cpuprofile and .heapprofile from Chrome DevTools or node --cpu-prof and
+ * --heap-prof) and folded stacks are converted to pprof; folded stack values
+ * are read as sample counts unless options.folded gives their sample type.
+ */
+export async function parseProfile(data: ArrayBuffer | Uint8Array, options: ParseProfileOptions = {}): Promise<Profile> {
+  let bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+
+  if (isGzip(bytes)) {
+    try {
+      bytes = await gunzip(bytes)
+    } catch (error) {
+      throw new ProfileDecodeError(`Failed to decompress gzipped profile: ${getErrorMessage(error)}`)
+    }
+  }
+
+  if (bytes[0] === JSON_OBJECT_START) {
+    try {
+      return convertJsonProfile(JSON.parse(new TextDecoder().decode(bytes)))
+    } catch (error) {
+      throw new ProfileDecodeError(`Profile is not a supported JSON profile: ${getErrorMessage(error)}`)
+    }
+  }
+
+  if (isText(bytes)) {
+    const text = new TextDecoder().decode(bytes)
+    if (isFoldedStacks(text)) {
+      try {
+        return parseFoldedStacks(text, options.folded)
+      } catch (error) {
+        throw new ProfileDecodeError(`Profile is not valid folded stacks: ${getErrorMessage(error)}`)
+      }
+    }
+  }
+
+  try {
+    return Profile.decode(bytes)
+  } catch (error) {
+    throw new ProfileDecodeError(`Profile is not valid pprof data: ${getErrorMessage(error)}`)
+  }
+}
+
 /**
- * Load and parse a pprof file from a URL, returning the Profile object
+ * Load and parse a profile from a URL, returning the Profile object
+ * Gzipped files are inflated and JSON profiles converted automatically.
+ * Failures reject with a ProfileNetworkError, ProfileHttpError or
+ * ProfileDecodeError; aborting through the signal rejects with the signal's
+ * AbortError.
  */
-export async function fetchProfile(url: string): Promise<Profile> {
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`Failed to fetch profile: ${response.status} ${response.statusText}`)
+export async function fetchProfile(url: string, options: FetchProfileOptions = {}): Promise<Profile> {
+  const { headers, credentials, signal, onProgress } = options
+
+  let buffer: ArrayBuffer | Uint8Array
+  try {
+    const response = await fetch(url, { headers, credentials, signal })
+    if (!response.ok) {
+      throw new ProfileHttpError(url, response.status, response.statusText)
+    }
+
+    buffer = onProgress ? await readWithProgress(response, onProgress) : await response.arrayBuffer()
+  } catch (error) {
+    if (error instanceof ProfileHttpError || signal?.aborted) {
+      throw error
+    }
+    throw new ProfileNetworkError(url, getErrorMessage(error))
+  }
+
+  return parseProfile(buffer)
+}
+
+async function readWithProgress(response: Response, onProgress: (progress: FetchProfileProgress) => void): Promise<Uint8Array> {
+  // Content-Length counts encoded bytes, so it is only a total without a content encoding
+  const contentLength = Number(response.headers.get('content-length'))
+  const total = contentLength > 0 && !response.headers.get('content-encoding') ? contentLength : undefined
+
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    onProgress({ loaded: bytes.length, total: total ?? bytes.length })
+    return bytes
   }
 
-  const buffer = await response.arrayBuffer()
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+
+  onProgress({ loaded, total })
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {break}
+
+    chunks.push(value)
+    loaded += value.length
+    onProgress({ loaded, total })
+  }
+
+  const bytes = new Uint8Array(loaded)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+function isText(bytes: Uint8Array): boolean {
+  const length = Math.min(bytes.length, TEXT_SNIFF_LENGTH)
+  for (let i = 0; i < length; i++) {
+    const byte = bytes[i]
+    // Tab, line feed and carriage return are the only control characters of text
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) {
+      return false
+    }
+  }
+  return length > 0
+}
 
-  return Profile.decode(new Uint8Array(buffer))
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
 }
@@ -1,4 +1,5 @@
 import { mat3 } from 'gl-matrix'
+import type { FlameGraphOrientation } from './FlameDataProcessor.js'
 
 interface CameraState {
   x: number
@@ -17,6 +18,7 @@ interface CameraState {
  * - Root frame always at least viewport width (min scale = 1)
  * - Selected frame centers in viewport and fills viewport width
  * - Proper bounds enforcement
+ * - Flame orientation rests with the root row on the bottom edge of the viewport
  */
 export class CameraController {
   #camera: CameraState = {
@@ -32,6 +34,8 @@ export class CameraController {
   #viewportHeight: number = 0
   #contentHeight: number = 0
   #isFixedHeight: boolean = false
+  #orientation: FlameGraphOrientation = 'icicle'
+  #isAtRestingY: boolean = true
 
   /**
    * Set the viewport dimensions
@@ -39,6 +43,7 @@ export class CameraController {
   setViewport(width: number, height: number): void {
     this.#viewportWidth = width
     this.#viewportHeight = height
+    this.#settleVertically()
   }
 
   /**
@@ -46,6 +51,7 @@ export class CameraController {
    */
   setFixedHeightMode(isFixed: boolean): void {
     this.#isFixedHeight = isFixed
+    this.#settleVertically()
   }
 
   /**
@@ -53,6 +59,16 @@ export class CameraController {
    */
   setContentHeight(height: number): void {
     this.#contentHeight = height
+    this.#settleVertically()
+  }
+
+  /**
+   * Set the vertical orientation, moving back to its resting position
+   */
+  setOrientation(orientation: FlameGraphOrientation): void {
+    this.#orientation = orientation
+    this.#isAtRestingY = true
+    this.#settleVertically()
   }
 
   /**
@@ -110,7 +126,8 @@ export class CameraController {
     // Center the frame in the viewport
     const viewportCenter = this.#viewportWidth / 2
     this.#camera.targetX = viewportCenter - (frameCenter * this.#camera.targetScale)
-    this.#camera.targetY = 0 // Always keep vertical position at 0 (horizontal scaling only)
+    this.#camera.targetY = this.#getRestingY() // Always keep vertical position at rest (horizontal scaling only)
+    this.#isAtRestingY = true
 
     // Apply bounds
     this.#applyBounds()
@@ -121,8 +138,9 @@ export class CameraController {
    */
   resetZoom(): void {
     this.#camera.targetX = 0
-    this.#camera.targetY = 0
+    this.#camera.targetY = this.#getRestingY()
     this.#camera.targetScale = 1
+    this.#isAtRestingY = true
     this.#applyBounds()
   }
 
@@ -149,6 +167,7 @@ export class CameraController {
 
     // Apply bounds
     this.#applyBounds()
+    this.#isAtRestingY = this.#camera.targetY === this.#getRestingY()
   }
 
   /**
@@ -169,6 +188,7 @@ export class CameraController {
     // Set targets to match current position (stops animation pull)
     this.#camera.targetX = this.#camera.x
     this.#camera.targetY = this.#camera.y
+    this.#isAtRestingY = this.#camera.y === this.#getRestingY()
   }
 
   /**
@@ -190,6 +210,7 @@ export class CameraController {
     // Update camera position
     this.#camera.y = constrainedPosition.y
     this.#camera.targetY = this.#camera.y
+    this.#isAtRestingY = this.#camera.y === this.#getRestingY()
   }
 
   /**
@@ -281,11 +302,35 @@ export class CameraController {
     } else if (!this.#isFixedHeight) {
       // Auto-height mode: no vertical panning
       boundedY = 0
+    } else if (this.#orientation === 'flame') {
+      // Fixed height mode with content that fits: keep the root row on the bottom edge
+      boundedY = this.#getRestingY()
     }
 
     return { x: boundedX, y: boundedY }
   }
 
+  /**
+   * Vertical camera position the graph rests at when not scrolled
+   * Icicle graphs rest with the root at the top; flame graphs with the root at the bottom
+   */
+  #getRestingY(): number {
+    if (this.#orientation === 'flame' && this.#isFixedHeight) {
+      return this.#viewportHeight - this.#contentHeight
+    }
+    return 0
+  }
+
+  /**
+   * Keep the camera at its resting position when the layout changes,
+   * unless the user has scrolled away from it
+   */
+  #settleVertically(): void {
+    if (!this.#isAtRestingY) {return}
+
+    this.#camera.y = this.#camera.targetY = this.#getRestingY()
+  }
+
   /**
    * Apply bounds to keep content properly positioned
    */
@@ -314,5 +359,6 @@ export class CameraController {
     this.#camera.y = this.#camera.targetY = y
     this.#camera.scale = this.#camera.targetScale = scale
     this.#applyBounds()
+    this.#isAtRestingY = this.#camera.targetY === this.#getRestingY()
   }
 }
@@ -1,6 +1,6 @@
 import { Profile } from 'pprof-format'
 import { ProfileMetadata, detectProfileMetadata } from './ProfileMetadata.js'
-import { filterAndRecalculate } from '../utils/frameFilters.js'
+import { filterAndRecalculate, getLayoutValues } from '../utils/frameFilters.js'
 
 // FlameNode and FrameData types belong here since this class owns them
 export interface FlameNode {
@@ -18,6 +18,9 @@ export interface FlameNode {
   selfWidth: number
   fileName?: string
   lineNumber?: number
+  inlined?: boolean  // Inlined into its caller, from a location with several lines
+  baseValue?: number  // Value of the same frame path in the base profile (diff mode only)
+  baseSelfValue?: number  // Self value of the same frame path in the base profile (diff mode only)
 }
 
 export interface FrameData {
@@ -32,14 +35,39 @@ export interface FrameData {
   functionName: string
   fileName?: string
   lineNumber?: number
+  inlined?: boolean
   totalValue: number
   sampleCount?: number
+  baseValue?: number
+  baseSelfValue?: number
+}
+
+/**
+ * Vertical layout of the graph: 'icicle' hangs callees below their callers
+ * with the root at the top, 'flame' stacks them upwards from a root at the bottom
+ */
+export type FlameGraphOrientation = 'icicle' | 'flame'
+
+/**
+ * Merged trees around one function: callers grow from the function to the
+ * entry points, callees from the function to the leaves
+ */
+export interface SandwichTrees {
+  callers: FlameNode
+  callees: FlameNode
+}
+
+interface PprofFrame {
+  functionName: string
+  filename?: string
+  line?: number
+  inlined: boolean
 }
 
 interface PprofSample {
   stack: string[]
   value: number
-  locations?: Array<{functionName: string; filename?: string; line?: number}>
+  locations?: PprofFrame[]
 }
 
 interface ParsedProfile {
@@ -53,15 +81,30 @@ interface ParsedProfile {
 export class FlameDataProcessor {
   #data: FlameNode | null = null
   #framePadding = 5
+  #orientation: FlameGraphOrientation = 'icicle'
   #profileMetadata: ProfileMetadata | null = null
 
   /**
    * Convert Profile to FlameNode structure
+   * sampleTypeIndex selects which profile.sampleType entry to aggregate; it
+   * defaults to the first non-count sample type
+   * When baseProfile is given, both trees are merged by frame path and every
+   * node carries the value of its path in the base profile, so the tree can be
+   * rendered as a diff. Paths that only exist in the base profile are added
+   * with a value of 0, and frames are sized to fit both profiles (see getLayoutValues).
+   * When inverted is set, stacks are aggregated from leaf to root, so the
+   * top-level frames are the functions samples ended in and their children
+   * are the callers that led to them.
    */
-  processProfile(profile: Profile, showAppCodeOnly: boolean = false): FlameNode {
-    // Detect profile metadata first
-    this.#profileMetadata = detectProfileMetadata(profile)
-    const rawData = this.#profileToFlameGraph(profile)
+  processProfile(profile: Profile, showAppCodeOnly: boolean = false, sampleTypeIndex?: number, baseProfile?: Profile, inverted: boolean = false): FlameNode {
+    // Build the base tree first so the target metadata is the one that sticks
+    const baseData = baseProfile ? this.#buildTree(baseProfile, sampleTypeIndex, inverted) : null
+    const rawData = this.#buildTree(profile, sampleTypeIndex, inverted)
+
+    if (baseData) {
+      this.#mergeWithBase(rawData, baseData)
+      this.#calculateLayout(rawData, getLayoutValues(rawData))
+    }
 
     // Apply filtering if requested
     this.#data = showAppCodeOnly ? filterAndRecalculate(rawData, showAppCodeOnly) : rawData
@@ -69,6 +112,65 @@ export class FlameDataProcessor {
     return this.#data
   }
 
+  /**
+   * Use an already laid out tree, such as a shared profile tree or one half of a sandwich, instead of a profile
+   */
+  setTree(root: FlameNode, profileMetadata: ProfileMetadata | null = null): FlameNode {
+    this.#data = root
+    this.#profileMetadata = profileMetadata
+    return root
+  }
+
+  /**
+   * Build the sandwich trees of a function from the processed data
+   * Every frame of the function is merged, except recursive calls nested in
+   * another frame of it, so each sample is counted once. Both trees are
+   * rooted at the function and laid out relative to its total value.
+   */
+  buildSandwich(name: string, fileName?: string): SandwichTrees | null {
+    if (!this.#data) {return null}
+
+    const isTarget = (node: FlameNode) => node.depth > 0 && node.name === name && node.fileName === fileName
+    const occurrences: FlameNode[] = []
+    const collect = (node: FlameNode) => {
+      if (isTarget(node)) {
+        occurrences.push(node)
+        return
+      }
+      node.children.forEach(collect)
+    }
+    collect(this.#data)
+
+    if (occurrences.length === 0) {return null}
+
+    const callers = this.#createSandwichRoot(name, fileName)
+    const callees = this.#createSandwichRoot(name, fileName)
+
+    for (const occurrence of occurrences) {
+      callers.value += occurrence.value
+      callers.sampleCount += occurrence.sampleCount
+      callees.value += occurrence.value
+      callees.sampleCount += occurrence.sampleCount
+
+      // Walk up from the direct caller to the entry point
+      let parent = callers
+      let caller = occurrence.parent
+      while (caller && caller.depth > 0) {
+        parent = this.#addSandwichChild(parent, caller, occurrence.value, occurrence.sampleCount)
+        caller = caller.parent
+      }
+
+      this.#mergeCallees(callees, occurrence)
+    }
+
+    for (const root of [callers, callees]) {
+      this.#calculateLayout(root)
+      this.#calculateSelfTimes(root)
+    }
+
+    return { callers, callees }
+  }
+
   /**
    * Get the processed flame graph data
    */
@@ -97,6 +199,20 @@ export class FlameDataProcessor {
     return this.#framePadding
   }
 
+  /**
+   * Set the vertical orientation used by generateFrames
+   */
+  setOrientation(orientation: FlameGraphOrientation): void {
+    this.#orientation = orientation
+  }
+
+  /**
+   * Get the vertical orientation
+   */
+  getOrientation(): FlameGraphOrientation {
+    return this.#orientation
+  }
+
   /**
    * Get maximum depth of the flame graph
    */
@@ -141,9 +257,12 @@ export class FlameDataProcessor {
     if (!this.#data) {return frames}
 
     const frameHeight = this.getFrameHeight()
+    const maxDepth = this.#orientation === 'flame' ? this.getMaxDepth() : 0
 
     this.#traverseFlameGraph(this.#data, (node) => {
-      const y1 = node.depth * frameHeight
+      // Flame orientation puts the root on the bottom row instead of the top one
+      const row = this.#orientation === 'flame' ? maxDepth - node.depth : node.depth
+      const y1 = row * frameHeight
       const y2 = y1 + frameHeight
 
       frames.push({
@@ -209,7 +328,49 @@ export class FlameDataProcessor {
     return frame?.selfWidth || 0
   }
 
-  #profileToFlameGraph(profile: Profile): FlameNode {
+  #buildTree(profile: Profile, sampleTypeIndex?: number, inverted: boolean = false): FlameNode {
+    this.#profileMetadata = detectProfileMetadata(profile, sampleTypeIndex)
+    return this.#profileToFlameGraph(profile, inverted)
+  }
+
+  /**
+   * Merge the base tree into the target tree by frame path
+   * Target nodes get the values of their path in the base profile, and paths
+   * that stopped running are added with no value in the target profile.
+   */
+  #mergeWithBase(target: FlameNode, base: FlameNode | undefined): void {
+    target.baseValue = base?.value ?? 0
+    target.baseSelfValue = base?.selfValue ?? 0
+
+    const baseChildren = new Map((base?.children ?? []).map(child => [child.id, child]))
+    for (const child of target.children) {
+      this.#mergeWithBase(child, baseChildren.get(child.id))
+      baseChildren.delete(child.id)
+    }
+
+    for (const baseChild of baseChildren.values()) {
+      target.children.push(this.#createBaseOnlyNode(baseChild, target))
+    }
+  }
+
+  #createBaseOnlyNode(base: FlameNode, parent: FlameNode): FlameNode {
+    const node: FlameNode = {
+      ...base,
+      value: 0,
+      selfValue: 0,
+      sampleCount: 0,
+      selfSampleCount: 0,
+      selfWidth: 0,
+      children: [],
+      parent,
+      baseValue: base.value,
+      baseSelfValue: base.selfValue
+    }
+    node.children = base.children.map(child => this.#createBaseOnlyNode(child, node))
+    return node
+  }
+
+  #profileToFlameGraph(profile: Profile, inverted: boolean = false): FlameNode {
     const samples: PprofSample[] = []
     let totalValue = 0
 
@@ -223,8 +384,7 @@ export class FlameDataProcessor {
       return stringTable[idx]
     }
 
-    // Extract locations and functions
-    const locations = new Map()
+    // Extract functions
     const functions = new Map()
 
     // Build function lookup table
@@ -242,17 +402,24 @@ export class FlameDataProcessor {
     }
 
     // Build location lookup table
+    // A location with several lines holds inlined functions: the first line is
+    // the innermost function and the last one the caller it was inlined into,
+    // which is the same leaf-to-root order as the location IDs of a sample
+    const locations = new Map<string, PprofFrame[]>()
     for (const location of profile.location || []) {
       if (location.id && location.line && location.line.length > 0) {
-        const line = location.line[0]
-        const funcId = line.functionId?.toString()
-        const func = functions.get(funcId || '')
-
-        locations.set(location.id.toString(), {
-          functionName: func?.name || `loc_${location.id}`,
-          filename: func?.filename,
-          line: Number(line.line || 0)
-        })
+        const lastIndex = location.line.length - 1
+
+        locations.set(location.id.toString(), location.line.map((line, index) => {
+          const func = functions.get(line.functionId?.toString() || '')
+
+          return {
+            functionName: func?.name || `loc_${location.id}`,
+            filename: func?.filename,
+            line: Number(line.line || 0),
+            inlined: index < lastIndex
+          }
+        }))
       }
     }
 
@@ -266,19 +433,21 @@ export class FlameDataProcessor {
 
         // Build stack trace from location IDs
         const stack: string[] = []
-        const locationDetails: Array<{functionName: string; filename?: string; line?: number}> = []
+        const locationDetails: PprofFrame[] = []
 
         for (const locId of sample.locationId) {
-          const location = locations.get(locId.toString())
-          if (location) {
-            stack.push(location.functionName)
-            locationDetails.push(location)
+          for (const frame of locations.get(locId.toString()) ?? []) {
+            stack.push(frame.functionName)
+            locationDetails.push(frame)
           }
         }
 
         // Reverse stack to get root-to-leaf order
-        stack.reverse()
-        locationDetails.reverse()
+        // The inverted tree keeps the leaf-to-root order of the location IDs
+        if (!inverted) {
+          stack.reverse()
+          locationDetails.reverse()
+        }
 
         samples.push({
           stack,
@@ -340,7 +509,8 @@ export class FlameDataProcessor {
             children: [],
             parent: currentParent,
             fileName: location?.filename,
-            lineNumber: location?.line
+            lineNumber: location?.line,
+            inlined: location?.inlined
           }
 
           nodeMap.set(nodeId, node)
@@ -365,13 +535,75 @@ export class FlameDataProcessor {
     return root
   }
 
-  #calculateLayout(node: FlameNode): void {
+  #createSandwichRoot(name: string, fileName?: string): FlameNode {
+    return {
+      id: 'root',
+      name,
+      value: 0,
+      selfValue: 0,
+      sampleCount: 0,
+      selfSampleCount: 0,
+      x: 0,
+      width: 1,
+      selfWidth: 0,
+      depth: 0,
+      children: [],
+      fileName
+    }
+  }
+
+  /**
+   * Add value to the child of a sandwich node matching a frame, creating it if needed
+   */
+  #addSandwichChild(parent: FlameNode, frame: FlameNode, value: number, sampleCount: number): FlameNode {
+    let child = parent.children.find(c => c.name === frame.name && c.fileName === frame.fileName)
+
+    if (!child) {
+      child = {
+        id: `${parent.id}/${frame.name}`,
+        name: frame.name,
+        value: 0,
+        selfValue: 0,
+        sampleCount: 0,
+        selfSampleCount: 0,
+        x: 0,
+        width: 0,
+        selfWidth: 0,
+        depth: parent.depth + 1,
+        children: [],
+        parent,
+        fileName: frame.fileName,
+        lineNumber: frame.lineNumber,
+        inlined: frame.inlined
+      }
+      parent.children.push(child)
+    }
+
+    child.value += value
+    child.sampleCount += sampleCount
+    return child
+  }
+
+  #mergeCallees(target: FlameNode, source: FlameNode): void {
+    for (const child of source.children) {
+      const merged = this.#addSandwichChild(target, child, child.value, child.sampleCount)
+      this.#mergeCallees(merged, child)
+    }
+  }
+
+  /**
+   * Lay out children side by side within their parent
+   * Frames are sized by their value, or by the given layout values in diff trees
+   */
+  #calculateLayout(node: FlameNode, layoutValues?: Map<FlameNode, number>): void {
     if (node.children.length === 0) {
       return
     }
 
+    const layoutValue = (frame: FlameNode) => layoutValues?.get(frame) ?? frame.value
+
     // Sort children by value (descending) for consistent layout
-    node.children.sort((a, b) => b.value - a.value)
+    node.children.sort((a, b) => layoutValue(b) - layoutValue(a))
 
     let xOffset = 0
     const parentWidth = node.width
@@ -379,13 +611,13 @@ export class FlameDataProcessor {
 
     for (const child of node.children) {
       // Calculate child width as proportion of parent based on value (no gaps in layout)
-      child.width = (child.value / node.value) * parentWidth
+      child.width = (layoutValue(child) / layoutValue(node)) * parentWidth
       child.x = parentX + xOffset
 
       xOffset += child.width
 
       // Recursively calculate layout for children
-      this.#calculateLayout(child)
+      this.#calculateLayout(child, layoutValues)
     }
   }
 
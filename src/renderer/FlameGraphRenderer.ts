@@ -2,10 +2,24 @@ import { Profile } from 'pprof-format'
 import { WebGLManager } from './WebGLManager.js'
 import { CameraController } from './CameraController.js'
 import { InteractionHandler } from './InteractionHandler.js'
-import { FlameDataProcessor, FlameNode, FrameData } from './FlameDataProcessor.js'
+import { FlameDataProcessor, FlameNode, FrameData, FlameGraphOrientation } from './FlameDataProcessor.js'
 import { TextRenderer } from './TextRenderer.js'
 import { FrameRenderer } from './FrameRenderer.js'
 import { hexToRgb } from './colors.js'
+import { ColorScheme } from './colorSchemes.js'
+import { SEARCH_HIGHLIGHT } from './constants.js'
+import { ProfileMetadata } from './ProfileMetadata.js'
+import { renderFlameGraphSvg } from './svg.js'
+import { SearchQuery, SearchResult, isActiveSearchQuery, searchFlameTree } from '../utils/frameSearch.js'
+
+export type ImageExportFormat = 'png' | 'svg'
+
+export interface ImageExportOptions {
+  format: ImageExportFormat
+  // Pixels per logical pixel for PNG, defaulting to the device pixel ratio;
+  // multiplies the width and height of SVG, defaulting to 1
+  scale?: number
+}
 
 /**
  * Main renderer class that orchestrates all rendering components
@@ -28,6 +42,7 @@ export class FlameGraphRenderer {
   #primaryColor = [1, 0.27, 0.27]; // #ff4444
   #secondaryColor = [1, 0.8, 0.4]; // #ffcc66
   #backgroundColor = [0.12, 0.12, 0.12]; // #1e1e1e
+  #highlightColor = SEARCH_HIGHLIGHT.outline
 
   // Opacity settings
   #selectedOpacity = 1.0
@@ -38,6 +53,11 @@ export class FlameGraphRenderer {
   #selectedFrameId: string | null = null
   #hoveredFrameId: string | null = null
 
+  // Search
+  #searchQuery: SearchQuery | null = null
+  #searchResult: SearchResult | null = null
+  #searchMatchIds: Set<string> | null = null
+
   // Animation
   #animationFrame: number | null = null
   #onAnimationComplete?: () => void
@@ -82,23 +102,21 @@ export class FlameGraphRenderer {
 
   /**
    * Set the profile data and return the required height
+   * Passing a baseProfile renders the profile as a diff against it
+   * Setting inverted renders the bottom-up (callers) tree
    */
-  setData(profile: Profile, showAppCodeOnly: boolean = false): number {
-    this.#dataProcessor.processProfile(profile, showAppCodeOnly)
+  setData(profile: Profile, showAppCodeOnly: boolean = false, sampleTypeIndex?: number, baseProfile?: Profile, inverted: boolean = false): number {
+    this.#dataProcessor.processProfile(profile, showAppCodeOnly, sampleTypeIndex, baseProfile, inverted)
 
-    // Generate frames for rendering
-    this.#frames = this.#dataProcessor.generateFrames()
-
-    // Update interaction handler with frames
-    this.#interaction.setFrames(this.#frames)
-
-    // Calculate and return the required height
-    const requiredHeight = this.#dataProcessor.calculateGraphHeight()
-
-    // Update camera with content height
-    this.#camera.setContentHeight(requiredHeight)
+    return this.#updateFrames()
+  }
 
-    return requiredHeight
+  /**
+   * Render an already laid out tree, such as a shared profile tree or one half of a sandwich, and return the required height
+   */
+  setTree(root: FlameNode, profileMetadata: ProfileMetadata | null = null): number {
+    this.#dataProcessor.setTree(root, profileMetadata)
+    return this.#updateFrames()
   }
 
   /**
@@ -133,6 +151,21 @@ export class FlameGraphRenderer {
     }
   }
 
+  /**
+   * Set the color of search outlines and inlined frame markers
+   */
+  setHighlightColor(color: string): void {
+    this.#highlightColor = color
+    this.#frameRenderer.setHighlightColor(color)
+  }
+
+  /**
+   * Set how frames are colored: a built-in scheme or a function returning a hex color per frame
+   */
+  setColorScheme(scheme: ColorScheme): void {
+    this.#frameRenderer.setColorScheme(scheme)
+  }
+
   /**
    * Set opacity values
    */
@@ -159,6 +192,18 @@ export class FlameGraphRenderer {
     this.#camera.setContentHeight(requiredHeight)
   }
 
+  /**
+   * Set the vertical orientation ('icicle' puts the root at the top, 'flame' at the bottom)
+   */
+  setOrientation(orientation: FlameGraphOrientation): void {
+    this.#dataProcessor.setOrientation(orientation)
+    this.#camera.setOrientation(orientation)
+
+    // Regenerate frames so hit-testing and text placement use the new rows
+    this.#frames = this.#dataProcessor.generateFrames()
+    this.#interaction.setFrames(this.#frames)
+  }
+
   /**
    * Get the calculated graph height
    */
@@ -204,6 +249,30 @@ export class FlameGraphRenderer {
     }
   }
 
+  /**
+   * Highlight frames whose function name matches the query
+   * Pass null or an empty string to clear the search
+   */
+  setSearchQuery(query: SearchQuery | null): SearchResult | null {
+    this.#searchQuery = query
+    this.#updateSearch()
+    return this.#searchResult
+  }
+
+  /**
+   * Get the matches of the current search, or null when not searching
+   */
+  getSearchResult(): SearchResult | null {
+    return this.#searchResult
+  }
+
+  /**
+   * Get the id of the selected frame
+   */
+  getSelectedFrameId(): string | null {
+    return this.#selectedFrameId
+  }
+
   /**
    * Set height mode for zoom behavior
    */
@@ -269,6 +338,25 @@ export class FlameGraphRenderer {
     return result
   }
 
+  /**
+   * Find the deepest frame under a point in viewport coordinates, without selecting it
+   */
+  findFrameAt(x: number, y: number): FlameNode | null {
+    const camera = this.#camera.getCamera()
+    const worldX = (x - camera.x) / camera.scale / this.#logicalWidth
+    const worldY = y - camera.y
+
+    let found: FlameNode | null = null
+    for (const frame of this.#frames) {
+      if (worldX >= frame.x1 && worldX < frame.x2 && worldY >= frame.y1 && worldY < frame.y2) {
+        if (!found || frame.node.depth > found.depth) {
+          found = frame.node
+        }
+      }
+    }
+    return found
+  }
+
   /**
    * Handle mouse down event
    */
@@ -348,7 +436,8 @@ export class FlameGraphRenderer {
       this.#selectedOpacity,
       this.#hoverOpacity,
       this.#unselectedOpacity,
-      cameraState
+      cameraState,
+      this.#searchMatchIds
     )
 
     // Borders are now handled as insets in frame rendering, no separate border pass needed
@@ -365,6 +454,35 @@ export class FlameGraphRenderer {
     )
   }
 
+  /**
+   * Export the visible part of the graph as an image
+   * PNG re-renders the canvas at the requested scale, capped by the WebGL buffer
+   * size limit, then restores it. SVG writes the visible frames and their labels
+   * as vectors, with the same colors and opacities as the canvas.
+   */
+  async exportImage(options: ImageExportOptions): Promise<Blob> {
+    if (options.format === 'svg') {
+      return new Blob([this.#renderSvg(options.scale ?? 1)], { type: 'image/svg+xml' })
+    }
+
+    if (!this.#webgl.getContext()) {
+      throw new Error('Cannot export PNG: WebGL is not available')
+    }
+
+    // toBlob copies the drawing buffer synchronously, so the canvas is back to
+    // its on-screen resolution before the browser paints it again
+    const canvas = this.#webgl.getCanvas()
+    this.#webgl.resize(this.#logicalWidth, this.#logicalHeight, options.scale ?? (window.devicePixelRatio || 1))
+    this.render()
+    const png = new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png')
+    })
+    this.#webgl.resize(this.#logicalWidth, this.#logicalHeight)
+    this.render()
+
+    return png
+  }
+
   /**
    * Destroy the renderer and clean up resources
    */
@@ -408,6 +526,76 @@ export class FlameGraphRenderer {
 
   // Private methods
 
+  #updateFrames(): number {
+    // Matches refer to nodes of the previous tree
+    this.#updateSearch()
+
+    // Generate frames for rendering
+    this.#frames = this.#dataProcessor.generateFrames()
+
+    // Update interaction handler with frames
+    this.#interaction.setFrames(this.#frames)
+
+    // Calculate and return the required height
+    const requiredHeight = this.#dataProcessor.calculateGraphHeight()
+
+    // Update camera with content height
+    this.#camera.setContentHeight(requiredHeight)
+
+    return requiredHeight
+  }
+
+  #renderSvg(scale: number): string {
+    const viewportWidth = this.#logicalWidth
+    const viewportHeight = this.#logicalHeight
+    const framePadding = this.#dataProcessor.getFramePadding()
+    const textStyle = this.#textRenderer.getTextStyle()
+
+    const styles = this.#frameRenderer.getFrameStyles(
+      this.#frames,
+      viewportWidth,
+      viewportHeight,
+      this.#primaryColor as [number, number, number],
+      this.#secondaryColor as [number, number, number],
+      this.#selectedFrameId,
+      this.#hoveredFrameId,
+      this.#selectedOpacity,
+      this.#hoverOpacity,
+      this.#unselectedOpacity,
+      this.#camera.getCamera(),
+      this.#searchMatchIds
+    )
+    const frames = styles.map(style => ({
+      ...style,
+      label: this.#textRenderer.getLabel(style.node, style.x1, style.x2, style.y1, style.y2, viewportWidth, viewportHeight, framePadding)
+    }))
+
+    return renderFlameGraphSvg(frames, {
+      width: viewportWidth,
+      height: viewportHeight,
+      scale,
+      backgroundColor: this.#backgroundColor as [number, number, number],
+      fontSize: textStyle.fontSize,
+      fontFamily: textStyle.fontFamily,
+      textColor: textStyle.color,
+      shadowOpacity: textStyle.shadowOpacity,
+      highlightColor: this.#highlightColor
+    })
+  }
+
+  #updateSearch(): void {
+    const data = this.#dataProcessor.getData()
+
+    if (!data || !isActiveSearchQuery(this.#searchQuery)) {
+      this.#searchResult = null
+      this.#searchMatchIds = null
+      return
+    }
+
+    this.#searchResult = searchFlameTree(data, this.#searchQuery)
+    this.#searchMatchIds = new Set(this.#searchResult.matches.map(node => node.id))
+  }
+
   #startAnimation(): void {
     if (this.#animationFrame) {return}
 
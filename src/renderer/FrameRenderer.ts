@@ -1,7 +1,27 @@
 import { mat3 } from 'gl-matrix'
 import { WebGLManager } from './WebGLManager.js'
 import { FlameNode } from './FlameDataProcessor.js'
-import { getFrameColorBySameDepthRatio } from './colors.js'
+import { getFrameColorByDiff, getDiffRatio, hexToRgb } from './colors.js'
+import { ColorScheme, getFrameColorByScheme } from './colorSchemes.js'
+import { DIFF_COLORS, FRAME_BORDER_INSET, INLINED_FRAME, SEARCH_HIGHLIGHT } from './constants.js'
+
+const DIFF_GROWTH_COLOR = hexToRgb(DIFF_COLORS.growth)
+const DIFF_SHRINK_COLOR = hexToRgb(DIFF_COLORS.shrink)
+const DIFF_NEUTRAL_COLOR = hexToRgb(DIFF_COLORS.neutral)
+
+/**
+ * A visible frame in screen space, with the color and opacity it is drawn with
+ */
+export interface FrameStyle {
+  node: FlameNode
+  x1: number
+  x2: number
+  y1: number
+  y2: number
+  color: [number, number, number]
+  opacity: number
+  searchMatch: boolean  // Whether the frame matches the active search and is outlined
+}
 
 /**
  * Handles rendering of flame graph frames with proper inset borders
@@ -10,16 +30,37 @@ import { getFrameColorBySameDepthRatio } from './colors.js'
  * - Frames touch edge-to-edge with no gaps
  * - Inset borders provide visual separation without affecting size
  * - Borders are rendered at constant 0.5px in screen space
+ * - While searching, matches are outlined and all other frames are dimmed
+ * - Inlined frames carry a marker bar on their left edge
  */
 export class FrameRenderer {
   #webgl: WebGLManager
+  #searchOutlineColor = hexToRgb(SEARCH_HIGHLIGHT.outline)
+  #inlinedMarkerColor = hexToRgb(INLINED_FRAME.marker)
+  #colorScheme: ColorScheme = 'ratio'
 
   constructor(webgl: WebGLManager) {
     this.#webgl = webgl
   }
 
+  /**
+   * Set the color of search outlines and inlined frame markers
+   */
+  setHighlightColor(color: string): void {
+    this.#searchOutlineColor = hexToRgb(color)
+    this.#inlinedMarkerColor = hexToRgb(color)
+  }
+
+  /**
+   * Set how frames are colored; diff trees are always colored by growth
+   */
+  setColorScheme(scheme: ColorScheme): void {
+    this.#colorScheme = scheme
+  }
+
   /**
    * Render all visible frames with proper colors and inset borders
+   * searchMatchIds holds the ids of frames matching the active search, if any
    */
   renderFrames(
     frames: Array<{node: FlameNode, x1: number, x2: number, y1: number, y2: number}>,
@@ -33,7 +74,8 @@ export class FrameRenderer {
     selectedOpacity: number,
     hoverOpacity: number,
     unselectedOpacity: number,
-    camera: { x: number; y: number; scale: number }
+    camera: { x: number; y: number; scale: number },
+    searchMatchIds: Set<string> | null = null
   ): Map<string, number> {
     const gl = this.#webgl.getContext()
     const frameProgram = this.#webgl.getProgram()
@@ -59,52 +101,40 @@ export class FrameRenderer {
     const positions: number[] = []
     const colors: number[] = []
 
-    // Track colors and opacities for text rendering
-    const frameColors = new Map<string, [number, number, number]>()
+    // Search outlines are drawn after all frames so neighbours cannot cover them
+    const outlinePositions: number[] = []
+    const outlineColors: number[] = []
+
+    // Track opacities for text rendering
     const frameOpacities = new Map<string, number>()
 
     // Calculate border inset for visual separation
-    const borderInsetX = 0.5; // 0.5px border in screen space
-    const borderInsetY = 0.5; // 0.5px border
-
-    // Pre-compute total values at each depth level to avoid O(n²) complexity
-    const totalValueByDepth = new Map<number, number>()
-    for (const frame of frames) {
-      const depth = frame.node.depth
-      totalValueByDepth.set(depth, (totalValueByDepth.get(depth) ?? 0) + frame.node.value)
-    }
-
-    for (const frame of frames) {
-      const { node, x1, x2, y1, y2 } = frame
-
-      // Convert normalized coordinates to screen coordinates with camera applied
-      const screenX1 = (x1 * viewportWidth * camera.scale) + camera.x
-      const screenX2 = (x2 * viewportWidth * camera.scale) + camera.x
-      const screenY1 = y1 + camera.y
-      const screenY2 = y2 + camera.y
+    const borderInsetX = FRAME_BORDER_INSET
+    const borderInsetY = FRAME_BORDER_INSET
 
-      // Simple culling - skip frames that are clearly outside viewport
-      if (screenX2 < -50 || screenX1 > viewportWidth + 50) {continue}
-      if (screenY2 < -50 || screenY1 > viewportHeight + 50) {continue}
+    const styles = this.getFrameStyles(
+      frames,
+      viewportWidth,
+      viewportHeight,
+      primaryColor,
+      secondaryColor,
+      selectedFrameId,
+      hoveredFrameId,
+      selectedOpacity,
+      hoverOpacity,
+      unselectedOpacity,
+      camera,
+      searchMatchIds
+    )
 
-      // Calculate frame color based on relative size within its depth level
-      const color = this.#calculateFrameColor(
-        node,
-        totalValueByDepth,
-        primaryColor,
-        secondaryColor
-      )
+    for (const style of styles) {
+      const { node, x1: screenX1, x2: screenX2, y1: screenY1, y2: screenY2, color, opacity } = style
 
-      // Calculate opacity based on frame state
-      let opacity = unselectedOpacity
-      if (node.id === selectedFrameId) {
-        opacity = selectedOpacity
-      } else if (node.id === hoveredFrameId) {
-        opacity = hoverOpacity
+      if (style.searchMatch) {
+        this.#pushOutline(outlinePositions, outlineColors, screenX1, screenY1, screenX2, screenY2)
       }
 
       // Store for text rendering
-      frameColors.set(node.id, color)
       frameOpacities.set(node.id, opacity)
 
       // Add frame rectangle vertices with inset border (using screen coordinates)
@@ -122,6 +152,32 @@ export class FrameRenderer {
       for (let i = 0; i < 6; i++) {
         colors.push(color[0], color[1], color[2], opacity)
       }
+
+      if (node.inlined) {
+        const markerX1 = screenX1 + borderInsetX
+        const markerX2 = Math.min(markerX1 + INLINED_FRAME.markerWidth, (screenX1 + screenX2) / 2)
+        const markerY1 = screenY1 + borderInsetY
+        const markerY2 = screenY2 - borderInsetY
+
+        positions.push(
+          markerX1, markerY1,
+          markerX2, markerY1,
+          markerX1, markerY2,
+          markerX2, markerY1,
+          markerX2, markerY2,
+          markerX1, markerY2
+        )
+        for (let i = 0; i < 6; i++) {
+          colors.push(this.#inlinedMarkerColor[0], this.#inlinedMarkerColor[1], this.#inlinedMarkerColor[2], INLINED_FRAME.markerOpacity * opacity)
+        }
+      }
+    }
+
+    for (let i = 0; i < outlinePositions.length; i++) {
+      positions.push(outlinePositions[i])
+    }
+    for (let i = 0; i < outlineColors.length; i++) {
+      colors.push(outlineColors[i])
     }
 
     if (positions.length === 0) {
@@ -176,24 +232,142 @@ export class FrameRenderer {
   }
 
   /**
-   * Calculate frame color based on its relative size at the same depth level
-   * This matches the flame graph coloring algorithm
+   * Compute the screen bounds, color and opacity of the frames inside the viewport
+   * This is the color logic of renderFrames, shared with the SVG export
+   */
+  getFrameStyles(
+    frames: Array<{node: FlameNode, x1: number, x2: number, y1: number, y2: number}>,
+    viewportWidth: number,
+    viewportHeight: number,
+    primaryColor: [number, number, number],
+    secondaryColor: [number, number, number],
+    selectedFrameId: string | null,
+    hoveredFrameId: string | null,
+    selectedOpacity: number,
+    hoverOpacity: number,
+    unselectedOpacity: number,
+    camera: { x: number; y: number; scale: number },
+    searchMatchIds: Set<string> | null = null
+  ): FrameStyle[] {
+    const styles: FrameStyle[] = []
+
+    // Pre-compute total values at each depth level to avoid O(n²) complexity
+    const totalValueByDepth = new Map<number, number>()
+    for (const frame of frames) {
+      const depth = frame.node.depth
+      totalValueByDepth.set(depth, (totalValueByDepth.get(depth) ?? 0) + frame.node.value)
+    }
+
+    // Heat is relative to the hottest frame of the whole graph, not only the visible part
+    let maxSelfValue = 0
+    if (this.#colorScheme === 'heat') {
+      for (const frame of frames) {
+        maxSelfValue = Math.max(maxSelfValue, frame.node.selfValue)
+      }
+    }
+
+    // Diff trees are coloured by growth against the base profile totals
+    const rootNode = frames.find(frame => frame.node.depth === 0)?.node
+    const baseTotalValue = rootNode?.baseValue
+
+    for (const frame of frames) {
+      const { node, x1, x2, y1, y2 } = frame
+
+      // Convert normalized coordinates to screen coordinates with camera applied
+      const screenX1 = (x1 * viewportWidth * camera.scale) + camera.x
+      const screenX2 = (x2 * viewportWidth * camera.scale) + camera.x
+      const screenY1 = y1 + camera.y
+      const screenY2 = y2 + camera.y
+
+      // Simple culling - skip frames that are clearly outside viewport
+      if (screenX2 < -50 || screenX1 > viewportWidth + 50) {continue}
+      if (screenY2 < -50 || screenY1 > viewportHeight + 50) {continue}
+
+      // Calculate frame color with the color scheme, or on growth in diff mode
+      const color = baseTotalValue === undefined
+        ? this.#calculateFrameColor(node, totalValueByDepth, maxSelfValue, primaryColor, secondaryColor)
+        : this.#calculateDiffFrameColor(node, totalValueByDepth.get(0) ?? node.value, baseTotalValue)
+
+      // Calculate opacity based on frame state
+      let opacity = unselectedOpacity
+      if (node.id === selectedFrameId) {
+        opacity = selectedOpacity
+      } else if (node.id === hoveredFrameId) {
+        opacity = hoverOpacity
+      }
+
+      const searchMatch = searchMatchIds?.has(node.id) ?? false
+      if (searchMatchIds && !searchMatch) {
+        opacity *= SEARCH_HIGHLIGHT.dimmedOpacity
+      }
+
+      styles.push({ node, x1: screenX1, x2: screenX2, y1: screenY1, y2: screenY2, color, opacity, searchMatch })
+    }
+
+    return styles
+  }
+
+  /**
+   * Add the four edges of a search match outline, drawn inside the frame bounds
+   */
+  #pushOutline(
+    positions: number[],
+    colors: number[],
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number
+  ): void {
+    const width = Math.min(SEARCH_HIGHLIGHT.outlineWidth, (x2 - x1) / 2, (y2 - y1) / 2)
+    const edges: Array<[number, number, number, number]> = [
+      [x1, y1, x2, y1 + width],  // Top
+      [x1, y2 - width, x2, y2],  // Bottom
+      [x1, y1, x1 + width, y2],  // Left
+      [x2 - width, y1, x2, y2]   // Right
+    ]
+
+    for (const [ex1, ey1, ex2, ey2] of edges) {
+      positions.push(
+        ex1, ey1,
+        ex2, ey1,
+        ex1, ey2,
+        ex2, ey1,
+        ex2, ey2,
+        ex1, ey2
+      )
+      for (let i = 0; i < 6; i++) {
+        colors.push(this.#searchOutlineColor[0], this.#searchOutlineColor[1], this.#searchOutlineColor[2], 1)
+      }
+    }
+  }
+
+  /**
+   * Calculate frame color based on its growth or shrinkage against the base profile
+   */
+  #calculateDiffFrameColor(
+    node: FlameNode,
+    totalValue: number,
+    baseTotalValue: number
+  ): [number, number, number] {
+    const diffRatio = getDiffRatio(node.value, totalValue, node.baseValue ?? 0, baseTotalValue)
+
+    return getFrameColorByDiff(DIFF_GROWTH_COLOR, DIFF_SHRINK_COLOR, DIFF_NEUTRAL_COLOR, diffRatio)
+  }
+
+  /**
+   * Calculate frame color with the color scheme
+   * The default 'ratio' scheme colors frames by their relative size at the same depth level
    */
   #calculateFrameColor(
     node: FlameNode,
     totalValueByDepth: Map<number, number>,
+    maxSelfValue: number,
     primaryColor: [number, number, number],
     secondaryColor: [number, number, number]
   ): [number, number, number] {
     // Look up the pre-computed total value at this frame's depth level
     const totalValueAtDepth = totalValueByDepth.get(node.depth) ?? node.value
 
-    // Use the shared color computation function
-    return getFrameColorBySameDepthRatio(
-      primaryColor,
-      secondaryColor,
-      node.value,
-      totalValueAtDepth
-    )
+    return getFrameColorByScheme(this.#colorScheme, node, primaryColor, secondaryColor, totalValueAtDepth, maxSelfValue)
   }
 }
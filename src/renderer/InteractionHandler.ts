@@ -195,7 +195,10 @@ export class InteractionHandler {
           functionName: clickedFrame.name,
           fileName: clickedFrame.fileName,
           lineNumber: clickedFrame.lineNumber,
-          totalValue: this.#calculateTotalValue(clickedFrame)
+          inlined: clickedFrame.inlined,
+          totalValue: this.#calculateTotalValue(clickedFrame),
+          baseValue: clickedFrame.baseValue,
+          baseSelfValue: clickedFrame.baseSelfValue
         },
         stackTrace,
         children
@@ -40,51 +40,58 @@ export interface ProfileMetadata {
 }
 
 /**
- * Detect the profile type and unit from a Profile's sampleType
+ * A single sample type declared by a profile
+ */
+export interface SampleTypeInfo {
+  index: number
+  type: string
+  unit: string
+}
+
+/**
+ * List every sample type declared in a Profile's sampleType array
  */
-export function detectProfileMetadata(profile: Profile): ProfileMetadata {
+export function getSampleTypes(profile: Profile): SampleTypeInfo[] {
   const stringTable = profile.stringTable?.strings || []
 
-  // Helper to get string from table
-  const getString = (index: number | bigint | undefined): string => {
-    if (index === undefined) {
-      return ''
+  return (profile.sampleType || []).map((sampleType, index) => ({
+    index,
+    type: stringTable[Number(sampleType.type)] || '',
+    unit: stringTable[Number(sampleType.unit)] || ''
+  }))
+}
+
+/**
+ * Detect the profile type and unit from a Profile's sampleType
+ *
+ * When sampleTypeIndex is given, that sample type is classified instead of
+ * picking the first non-count entry.
+ */
+export function detectProfileMetadata(profile: Profile, sampleTypeIndex?: number): ProfileMetadata {
+  const sampleTypes = getSampleTypes(profile)
+
+  if (sampleTypeIndex !== undefined && sampleTypes[sampleTypeIndex]) {
+    const { type, unit } = sampleTypes[sampleTypeIndex]
+    return classifySampleType(type.toLowerCase(), unit.toLowerCase(), sampleTypeIndex) || {
+      profileType: ProfileType.UNKNOWN,
+      unit: TimeUnit.NANOSECONDS,
+      sampleTypeIndex,
+      scaleFactor: 1
     }
-    const idx = Number(index)
-    return stringTable[idx] || ''
   }
 
   // Check each sample type to find the primary one
-  const sampleTypes = profile.sampleType || []
-
-  for (let i = 0; i < sampleTypes.length; i++) {
-    const sampleType = sampleTypes[i]
-    const type = getString(sampleType.type).toLowerCase()
-    const unit = getString(sampleType.unit).toLowerCase()
+  for (const { index, type, unit } of sampleTypes) {
+    const lowerType = type.toLowerCase()
 
     // Skip the first entry if it's just a sample/allocation count
-    if (type === 'samples' || type === 'objects' || type === 'alloc_objects' || type === 'inuse_objects') {
+    if (lowerType === 'samples' || lowerType === 'objects' || lowerType === 'alloc_objects' || lowerType === 'inuse_objects') {
       continue
     }
 
-    // Check for CPU profile (wall time, cpu time, etc.)
-    if (type === 'wall' || type === 'cpu' || type === 'time') {
-      return {
-        profileType: ProfileType.CPU,
-        unit: normalizeTimeUnit(unit),
-        sampleTypeIndex: i,
-        scaleFactor: getTimeScaleFactor(unit)
-      }
-    }
-
-    // Check for heap profile (space allocations)
-    if (type === 'space' || type === 'alloc_space' || type === 'inuse_space') {
-      return {
-        profileType: ProfileType.HEAP,
-        unit: normalizeSpaceUnit(unit),
-        sampleTypeIndex: i,
-        scaleFactor: getSpaceScaleFactor(unit)
-      }
+    const metadata = classifySampleType(lowerType, unit.toLowerCase(), index)
+    if (metadata) {
+      return metadata
     }
   }
 
@@ -97,6 +104,33 @@ export function detectProfileMetadata(profile: Profile): ProfileMetadata {
   }
 }
 
+/**
+ * Classify a single sample type, returning null if it is neither time nor space
+ */
+function classifySampleType(type: string, unit: string, index: number): ProfileMetadata | null {
+  // Check for CPU profile (wall time, cpu time, etc.)
+  if (type === 'wall' || type === 'cpu' || type === 'time') {
+    return {
+      profileType: ProfileType.CPU,
+      unit: normalizeTimeUnit(unit),
+      sampleTypeIndex: index,
+      scaleFactor: getTimeScaleFactor(unit)
+    }
+  }
+
+  // Check for heap profile (space allocations)
+  if (type === 'space' || type === 'alloc_space' || type === 'inuse_space') {
+    return {
+      profileType: ProfileType.HEAP,
+      unit: normalizeSpaceUnit(unit),
+      sampleTypeIndex: index,
+      scaleFactor: getSpaceScaleFactor(unit)
+    }
+  }
+
+  return null
+}
+
 /**
  * Normalize time unit string to enum
  */
@@ -9,6 +9,16 @@ interface CharMetrics {
   height: number
 }
 
+/**
+ * A frame label in screen space; y is the top of the text line
+ */
+export interface TextLabel {
+  text: string
+  x: number
+  y: number
+  maxWidth: number
+}
+
 /**
  * Handles all text rendering for the flame graph
  *
@@ -196,9 +206,6 @@ export class TextRenderer {
     const texCoords: number[] = []
     const colors: number[] = []
 
-    const minFrameWidthForText = 16; // Minimum pixel width to show text (before padding)
-
-
     for (const frame of frames) {
       const { node, x1, x2, y1, y2 } = frame
 
@@ -207,27 +214,10 @@ export class TextRenderer {
       const screenX2 = (x2 * viewportWidth * camera.scale) + camera.x
       const screenY1 = y1 + camera.y
       const screenY2 = y2 + camera.y
-      const screenFrameWidth = screenX2 - screenX1
-      const screenFrameHeight = screenY2 - screenY1
-
-      // More permissive culling for text
-      if (screenX2 < -100 || screenX1 > viewportWidth + 100) {continue}
-      if (screenY2 < -100 || screenY1 > viewportHeight + 100) {continue}
-      if (screenFrameWidth < minFrameWidthForText + framePadding * 2) {continue}
-      if (screenFrameHeight < this.#fontSize + framePadding * 2) {continue}
-
-      // Calculate text position in screen coordinates with padding on all edges
-      // If frame overhangs left edge, position text at screen left edge + padding instead
-      const textX = Math.max(framePadding, screenX1 + framePadding)
-      const textY = screenY1 + framePadding + (screenFrameHeight - this.#fontSize - framePadding * 2) / 2
-
-      // Adjust max text width based on actual text position
-      const availableWidth = (screenX2 - Math.max(0, screenX1)) - framePadding
-      const maxTextWidth = Math.max(0, availableWidth - framePadding)
 
-      // Get text to render with filename and line number if available
-      const text = this.truncateText(this.formatFrameText(node), maxTextWidth)
-      if (text.length === 0) {continue}
+      const label = this.getLabel(node, screenX1, screenX2, screenY1, screenY2, viewportWidth, viewportHeight, framePadding)
+      if (!label) {continue}
+      const { text, x: textX, y: textY, maxWidth: maxTextWidth } = label
 
       // Get text color - use the configured text color
       const frameOpacity = frameOpacities.get(node.id) || 1
@@ -393,6 +383,58 @@ export class TextRenderer {
     gl.disable(gl.BLEND)
   }
 
+  /**
+   * Lay out the label of a frame from its screen bounds
+   * Returns null when the frame is off screen or too small for text
+   */
+  getLabel(
+    node: FlameNode,
+    screenX1: number,
+    screenX2: number,
+    screenY1: number,
+    screenY2: number,
+    viewportWidth: number,
+    viewportHeight: number,
+    framePadding: number = 2
+  ): TextLabel | null {
+    const minFrameWidthForText = 16; // Minimum pixel width to show text (before padding)
+    const screenFrameWidth = screenX2 - screenX1
+    const screenFrameHeight = screenY2 - screenY1
+
+    // More permissive culling for text
+    if (screenX2 < -100 || screenX1 > viewportWidth + 100) {return null}
+    if (screenY2 < -100 || screenY1 > viewportHeight + 100) {return null}
+    if (screenFrameWidth < minFrameWidthForText + framePadding * 2) {return null}
+    if (screenFrameHeight < this.#fontSize + framePadding * 2) {return null}
+
+    // Calculate text position in screen coordinates with padding on all edges
+    // If frame overhangs left edge, position text at screen left edge + padding instead
+    const x = Math.max(framePadding, screenX1 + framePadding)
+    const y = screenY1 + framePadding + (screenFrameHeight - this.#fontSize - framePadding * 2) / 2
+
+    // Adjust max text width based on actual text position
+    const availableWidth = (screenX2 - Math.max(0, screenX1)) - framePadding
+    const maxWidth = Math.max(0, availableWidth - framePadding)
+
+    // Get text to render with filename and line number if available
+    const text = this.truncateText(this.formatFrameText(node), maxWidth)
+    if (text.length === 0) {return null}
+
+    return { text, x, y, maxWidth }
+  }
+
+  /**
+   * Get the font and colors labels are drawn with
+   */
+  getTextStyle(): { fontSize: number; fontFamily: string; color: string; shadowOpacity: number } {
+    return {
+      fontSize: this.#fontSize,
+      fontFamily: this.#fontFamily,
+      color: this.#textColor,
+      shadowOpacity: this.#shadowOpacity
+    }
+  }
+
   /**
    * Format frame text with filename and line number if available
    */
@@ -160,11 +160,12 @@ export class WebGLManager {
 
   /**
    * Resize the WebGL viewport
+   * pixelRatio defaults to the device pixel ratio; image exports pass their own
    */
-  resize(width: number, height: number): void {
+  resize(width: number, height: number, pixelRatio: number = window.devicePixelRatio || 1): void {
     if (!this.#gl) {return}
 
-    const dpr = window.devicePixelRatio || 1
+    const dpr = pixelRatio
     let bufferWidth = Math.round(width * dpr)
     let bufferHeight = Math.round(height * dpr)
 
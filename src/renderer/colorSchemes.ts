@@ -0,0 +1,121 @@
+// Color schemes: how the frames of a flame graph are colored
+import { FlameNode } from './FlameDataProcessor.js'
+import { getFrameColorByHash, getFrameColorByHeat, getFrameColorBySameDepthRatio, hexToRgb, normalizeHex } from './colors.js'
+import { MODULE_COLORS } from './constants.js'
+import { isNodeInternal, isNodeModule } from '../utils/frameFilters.js'
+
+/**
+ * Built-in color schemes
+ * - 'ratio': gradient by each frame's share of its depth (default)
+ * - 'module': app code, node_modules, Node.js internals and frames without a file
+ * - 'hash': a stable color per function name
+ * - 'heat': gradient by self value, hottest frames in the primary color
+ */
+export type ColorSchemeName = 'ratio' | 'module' | 'hash' | 'heat'
+
+/**
+ * Custom colors, as a hex string per frame
+ */
+export type FrameColorFunction = (node: FlameNode) => string
+
+export type ColorScheme = ColorSchemeName | FrameColorFunction
+
+export type ModuleCategory = 'app' | 'dependency' | 'nodeInternal' | 'native'
+
+export interface ColorLegendEntry {
+  label: string
+  color: string  // Hex color of the swatch
+}
+
+export const COLOR_SCHEME_LABELS: Record<ColorSchemeName, string> = {
+  ratio: 'Share of depth',
+  module: 'Module',
+  hash: 'Function name',
+  heat: 'Self time'
+}
+
+const MODULE_LABELS: Record<ModuleCategory, string> = {
+  app: 'App code',
+  dependency: 'node_modules',
+  nodeInternal: 'Node.js internals',
+  native: 'No file'
+}
+
+/**
+ * Classify a frame by where its code comes from, like the app code filter
+ * @param fileName The file name from the flame node
+ * @returns 'native' for frames without a file, such as native code, GC and the root
+ */
+export function getModuleCategory(fileName: string | undefined): ModuleCategory {
+  if (!fileName) {
+    return 'native'
+  }
+  if (isNodeInternal(fileName)) {
+    return 'nodeInternal'
+  }
+  return isNodeModule(fileName) ? 'dependency' : 'app'
+}
+
+/**
+ * Get the color of a frame in a color scheme
+ * This is used by the FlameGraph renderer, outside diff mode
+ *
+ * @param scheme The color scheme
+ * @param node The frame
+ * @param primaryColor The primary color of the graph
+ * @param secondaryColor The secondary color of the graph
+ * @param totalValueAtDepth Total value of the frames at the depth of the node, for 'ratio'
+ * @param maxSelfValue Largest self value of the graph, for 'heat'
+ */
+export function getFrameColorByScheme(
+  scheme: ColorScheme,
+  node: FlameNode,
+  primaryColor: [number, number, number],
+  secondaryColor: [number, number, number],
+  totalValueAtDepth: number,
+  maxSelfValue: number
+): [number, number, number] {
+  if (typeof scheme === 'function') {
+    return hexToRgb(normalizeHex(scheme(node)))
+  }
+
+  switch (scheme) {
+    case 'module':
+      return hexToRgb(MODULE_COLORS[getModuleCategory(node.fileName)])
+    case 'hash':
+      return getFrameColorByHash(node.name)
+    case 'heat':
+      return getFrameColorByHeat(primaryColor, secondaryColor, node.selfValue, maxSelfValue)
+    default:
+      return getFrameColorBySameDepthRatio(primaryColor, secondaryColor, node.value, totalValueAtDepth)
+  }
+}
+
+/**
+ * Get the legend of a built-in color scheme
+ * @param scheme The color scheme
+ * @param primaryColor The primary color of the graph
+ * @param secondaryColor The secondary color of the graph
+ * @returns The swatches to show, empty for 'hash' where every function has its own color
+ */
+export function getColorLegend(scheme: ColorSchemeName, primaryColor: string, secondaryColor: string): ColorLegendEntry[] {
+  switch (scheme) {
+    case 'module':
+      return (Object.keys(MODULE_LABELS) as ModuleCategory[]).map(category => ({
+        label: MODULE_LABELS[category],
+        color: MODULE_COLORS[category]
+      }))
+    case 'heat':
+      return [
+        { label: 'Most self time', color: primaryColor },
+        { label: 'No self time', color: secondaryColor }
+      ]
+    case 'ratio':
+      return [
+        { label: 'Whole depth', color: primaryColor },
+        { label: 'Small share', color: secondaryColor }
+      ]
+    default:
+      return []
+  }
+}
@@ -87,6 +87,97 @@ export function getFrameColorHexBySameDepthRatio(
   return rgbToHex(color[0], color[1], color[2])
 }
 
+/**
+ * Get a stable color for a name, so a function keeps its color across profiles and views
+ * The name is hashed to a hue; saturation and lightness are fixed to keep labels readable.
+ */
+export function getFrameColorByHash(name: string): [number, number, number] {
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hslToRgb((hash >>> 0) % 360, 0.65, 0.55)
+}
+
+/**
+ * Get color for a frame based on its self value against the largest self value of the graph
+ * Frames without self value get the secondary color, the hottest frame the primary color.
+ */
+export function getFrameColorByHeat(
+  primaryColor: [number, number, number],
+  secondaryColor: [number, number, number],
+  selfValue: number,
+  maxSelfValue: number
+): [number, number, number] {
+  // Square root scale so frames with a little self time are still told apart from cold ones
+  const heat = maxSelfValue > 0 ? Math.sqrt(selfValue / maxSelfValue) : 0
+
+  return interpolateColor(secondaryColor, primaryColor, heat)
+}
+
+/**
+ * Convert a hue (0-360), saturation and lightness (0-1) to an RGB array (0-1 range)
+ */
+export function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12
+    return lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+
+  return [channel(0), channel(8), channel(4)]
+}
+
+/**
+ * Get the relative change of a frame between a base and a target profile
+ * Values are compared as shares of their profile totals so profiles of different
+ * lengths can be compared. Returns -1 (frame vanished) to 1 (frame is new).
+ */
+export function getDiffRatio(
+  value: number,
+  totalValue: number,
+  baseValue: number,
+  baseTotalValue: number
+): number {
+  const share = totalValue > 0 ? value / totalValue : 0
+  const baseShare = baseTotalValue > 0 ? baseValue / baseTotalValue : 0
+  const largest = Math.max(share, baseShare)
+
+  return largest > 0 ? (share - baseShare) / largest : 0
+}
+
+/**
+ * Get color for a frame based on how much it grew or shrank against the base profile
+ * This is used by the FlameGraph renderer in diff mode
+ */
+export function getFrameColorByDiff(
+  growthColor: [number, number, number],
+  shrinkColor: [number, number, number],
+  neutralColor: [number, number, number],
+  diffRatio: number
+): [number, number, number] {
+  // Square root scale so small changes are still visible
+  const intensity = Math.sqrt(Math.min(1, Math.abs(diffRatio)))
+
+  return interpolateColor(neutralColor, diffRatio >= 0 ? growthColor : shrinkColor, intensity)
+}
+
+/**
+ * Get hex color for a frame based on how much it grew or shrank against the base profile
+ */
+export function getFrameColorHexByDiff(
+  growthColorHex: string,
+  shrinkColorHex: string,
+  neutralColorHex: string,
+  diffRatio: number
+): string {
+  const color = getFrameColorByDiff(hexToRgb(growthColorHex), hexToRgb(shrinkColorHex), hexToRgb(neutralColorHex), diffRatio)
+  return rgbToHex(color[0], color[1], color[2])
+}
+
 /**
  * Apply opacity to a color
  */
@@ -3,6 +3,7 @@
 // Frame dimensions
 export const FRAME_HEIGHT = 20
 export const FRAME_BORDER = 1; // Border width in pixels
+export const FRAME_BORDER_INSET = 0.5 // Frames are inset on every side to separate them visually
 
 // Default colors
 export const DEFAULT_COLORS = {
@@ -12,6 +13,35 @@ export const DEFAULT_COLORS = {
   text: '#ffffff'
 }
 
+// Diff colors: frames that grew, shrank or stayed the same between two profiles
+export const DIFF_COLORS = {
+  growth: '#e5484d',
+  shrink: '#3e8ed0',
+  neutral: '#6b6b6b'
+}
+
+// Module colors: frames of the app, of node_modules, of Node.js internals and without a file
+export const MODULE_COLORS = {
+  app: '#ff7a45',
+  dependency: '#4f9dde',
+  nodeInternal: '#8c8c8c',
+  native: '#b37feb'
+}
+
+// Search highlighting: matches are outlined, everything else is dimmed
+export const SEARCH_HIGHLIGHT = {
+  outline: '#ffffff',
+  outlineWidth: 1.5,
+  dimmedOpacity: 0.2
+}
+
+// Inlined frames are marked with a bar along their left edge
+export const INLINED_FRAME = {
+  marker: '#ffffff',
+  markerWidth: 3,
+  markerOpacity: 0.6
+}
+
 // Default font settings
 export const FONT_DEFAULTS = {
   family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
@@ -69,6 +69,27 @@ export function formatSpace(bytes: number): string {
   return `${bytes.toFixed(0)}B`
 }
 
+/**
+ * Format a signed difference between two values, e.g. "+1.20ms" or "-3.00KB"
+ */
+export function formatDelta(delta: number, metadata: ProfileMetadata): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : '±'
+  return `${sign}${formatValue(Math.abs(delta), metadata)}`
+}
+
+/**
+ * Format the change from a base value as a signed percentage, or "new" when
+ * there was nothing to compare against
+ */
+export function formatRelativeDelta(value: number, baseValue: number): string {
+  if (baseValue === 0) {
+    return value === 0 ? formatPercentage(0) : 'new'
+  }
+
+  const ratio = (value - baseValue) / baseValue
+  return `${ratio > 0 ? '+' : ''}${formatPercentage(ratio)}`
+}
+
 /**
  * Format percentage value
  */
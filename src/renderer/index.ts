@@ -1,7 +1,7 @@
 // Renderer module exports
 
 // Export the new refactored renderer
-export { FlameGraphRenderer } from './FlameGraphRenderer.js'
+export { FlameGraphRenderer, type ImageExportFormat, type ImageExportOptions } from './FlameGraphRenderer.js'
 
 // Export new focused classes and their types
 export { WebGLManager } from './WebGLManager.js'
@@ -12,6 +12,12 @@ export {
   interpolateColor,
   getFrameColorBySameDepthRatio,
   getFrameColorHexBySameDepthRatio,
+  getDiffRatio,
+  getFrameColorByDiff,
+  getFrameColorHexByDiff,
+  getFrameColorByHash,
+  getFrameColorByHeat,
+  hslToRgb,
   withOpacity,
   darken,
   lighten,
@@ -20,9 +26,22 @@ export {
   normalizeHex
 } from './colors.js'
 export { InteractionHandler } from './InteractionHandler.js'
-export { FlameDataProcessor, type FlameNode, type FrameData } from './FlameDataProcessor.js'
-export { TextRenderer } from './TextRenderer.js'
-export { FrameRenderer } from './FrameRenderer.js'
+export { FlameDataProcessor, type FlameNode, type FrameData, type FlameGraphOrientation, type SandwichTrees } from './FlameDataProcessor.js'
+export { TextRenderer, type TextLabel } from './TextRenderer.js'
+export { FrameRenderer, type FrameStyle } from './FrameRenderer.js'
+export { renderFlameGraphSvg, type SvgFrame, type SvgRenderOptions } from './svg.js'
+export {
+  getModuleCategory,
+  getFrameColorByScheme,
+  getColorLegend,
+  COLOR_SCHEME_LABELS,
+  type ColorScheme,
+  type ColorSchemeName,
+  type FrameColorFunction,
+  type ModuleCategory,
+  type ColorLegendEntry
+} from './colorSchemes.js'
+export { darkTheme, lightTheme, highContrastTheme, themes, resolveTheme, type Theme, type ThemeName } from './themes.js'
 
 // Export profile metadata and formatting utilities
 export {
@@ -30,7 +49,9 @@ export {
   TimeUnit,
   SpaceUnit,
   type ProfileMetadata,
+  type SampleTypeInfo,
   detectProfileMetadata,
+  getSampleTypes,
   isCPUProfile,
   isHeapProfile
 } from './ProfileMetadata.js'
@@ -39,6 +60,8 @@ export {
   formatTime,
   formatSpace,
   formatPercentage,
+  formatDelta,
+  formatRelativeDelta,
   formatSampleCount,
   getMetricLabel,
   getValueLabel,
@@ -0,0 +1,103 @@
+import type { FrameStyle } from './FrameRenderer.js'
+import type { TextLabel } from './TextRenderer.js'
+import { rgbToHex } from './colors.js'
+import { FRAME_BORDER_INSET, INLINED_FRAME, SEARCH_HIGHLIGHT } from './constants.js'
+
+// Distance from the top of a label to its baseline, as a share of the font size
+const TEXT_ASCENT_RATIO = 0.8
+
+/**
+ * A visible frame and its label, as drawn by FrameRenderer and TextRenderer
+ */
+export type SvgFrame = FrameStyle & { label: TextLabel | null }
+
+export interface SvgRenderOptions {
+  width: number  // Logical width of the viewport
+  height: number  // Logical height of the viewport
+  scale?: number  // Multiplies the intrinsic size of the image, the view box stays in logical pixels
+  backgroundColor: [number, number, number]
+  fontSize: number
+  fontFamily: string
+  textColor: string
+  shadowOpacity: number
+  highlightColor?: string  // Search outlines and inlined frame markers (default: white)
+}
+
+/**
+ * Render visible frames as a standalone SVG document
+ * Frames keep the inset borders, inlined markers and search outlines of the
+ * WebGL canvas so exports look like the graph on screen.
+ *
+ * @param frames The visible frames in screen space, with their labels
+ * @param options The viewport size, colors and font
+ * @returns The SVG markup
+ */
+export function renderFlameGraphSvg(frames: SvgFrame[], options: SvgRenderOptions): string {
+  const { width, height, scale = 1, backgroundColor, fontSize, fontFamily, textColor, shadowOpacity } = options
+  const { highlightColor = SEARCH_HIGHLIGHT.outline } = options
+  const inset = FRAME_BORDER_INSET
+
+  const rects: string[] = []
+  const outlines: string[] = []
+  const labels: string[] = []
+
+  for (const frame of frames) {
+    const { node, x1, x2, y1, y2, color, opacity, label } = frame
+    const frameWidth = Math.max(0, x2 - x1 - inset * 2)
+    const frameHeight = Math.max(0, y2 - y1 - inset * 2)
+
+    rects.push(
+      `<rect x="${round(x1 + inset)}" y="${round(y1 + inset)}" width="${round(frameWidth)}" height="${round(frameHeight)}" ` +
+      `fill="${rgbToHex(...color)}" fill-opacity="${round(opacity)}"><title>${escapeXml(node.name)}</title></rect>`
+    )
+
+    if (node.inlined) {
+      const markerWidth = Math.min(INLINED_FRAME.markerWidth, (x2 - x1) / 2 - inset)
+      rects.push(
+        `<rect x="${round(x1 + inset)}" y="${round(y1 + inset)}" width="${round(Math.max(0, markerWidth))}" height="${round(frameHeight)}" ` +
+        `fill="${escapeXml(highlightColor)}" fill-opacity="${round(INLINED_FRAME.markerOpacity * opacity)}"/>`
+      )
+    }
+
+    if (frame.searchMatch) {
+      // Strokes are centred on the path, so inset them to stay inside the frame like the WebGL outline
+      const strokeWidth = Math.min(SEARCH_HIGHLIGHT.outlineWidth, (x2 - x1) / 2, (y2 - y1) / 2)
+      outlines.push(
+        `<rect x="${round(x1 + strokeWidth / 2)}" y="${round(y1 + strokeWidth / 2)}" ` +
+        `width="${round(Math.max(0, x2 - x1 - strokeWidth))}" height="${round(Math.max(0, y2 - y1 - strokeWidth))}" ` +
+        `fill="none" stroke="${escapeXml(highlightColor)}" stroke-width="${round(strokeWidth)}"/>`
+      )
+    }
+
+    if (label) {
+      const text = escapeXml(label.text)
+      const baseline = label.y + fontSize * TEXT_ASCENT_RATIO
+      if (shadowOpacity > 0) {
+        labels.push(`<text x="${round(label.x + 1)}" y="${round(baseline + 1)}" fill="#000000" fill-opacity="${round(shadowOpacity * opacity)}">${text}</text>`)
+      }
+      labels.push(`<text x="${round(label.x)}" y="${round(baseline)}" fill-opacity="${round(opacity)}">${text}</text>`)
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width * scale)}" height="${round(height * scale)}" viewBox="0 0 ${round(width)} ${round(height)}">`,
+    `<rect width="100%" height="100%" fill="${rgbToHex(...backgroundColor)}"/>`,
+    `<g>${rects.join('')}</g>`,
+    `<g>${outlines.join('')}</g>`,
+    `<g font-family="${escapeXml(fontFamily)}" font-size="${fontSize}" fill="${escapeXml(textColor)}" xml:space="preserve">${labels.join('')}</g>`,
+    '</svg>',
+    ''
+  ].join('\n')
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
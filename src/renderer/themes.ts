@@ -0,0 +1,74 @@
+// Built-in color themes of the flame graph and the components around it
+
+/**
+ * Colors of the flame graph and the components around it
+ * Colors are 6-digit hex strings, since components append alpha digits to them.
+ */
+export interface Theme {
+  name: string
+  primaryColor: string  // Frames near 100% of their parent's weight
+  secondaryColor: string  // Frames near 0% of their parent's weight
+  backgroundColor: string
+  textColor: string
+  highlightColor: string  // Search outlines and inlined frame markers
+  tooltipBackgroundColor: string
+  tooltipTextColor: string
+  errorColor: string
+  shadowOpacity: number  // Opacity of the shadow behind frame labels
+}
+
+export type ThemeName = 'dark' | 'light' | 'high-contrast'
+
+export const darkTheme: Theme = {
+  name: 'dark',
+  primaryColor: '#ff4444',
+  secondaryColor: '#ffcc66',
+  backgroundColor: '#1e1e1e',
+  textColor: '#ffffff',
+  highlightColor: '#ffffff',
+  tooltipBackgroundColor: '#ffffff',
+  tooltipTextColor: '#000000',
+  errorColor: '#ff6b6b',
+  shadowOpacity: 0.3
+}
+
+export const lightTheme: Theme = {
+  name: 'light',
+  primaryColor: '#e5484d',
+  secondaryColor: '#ffc53d',
+  backgroundColor: '#ffffff',
+  textColor: '#1f2328',
+  highlightColor: '#1f2328',
+  tooltipBackgroundColor: '#1f2328',
+  tooltipTextColor: '#ffffff',
+  errorColor: '#cf222e',
+  shadowOpacity: 0
+}
+
+export const highContrastTheme: Theme = {
+  name: 'high-contrast',
+  primaryColor: '#ff0000',
+  secondaryColor: '#ffff00',
+  backgroundColor: '#000000',
+  textColor: '#ffffff',
+  highlightColor: '#00ffff',
+  tooltipBackgroundColor: '#ffffff',
+  tooltipTextColor: '#000000',
+  errorColor: '#ff4040',
+  shadowOpacity: 0.8
+}
+
+export const themes: Record<ThemeName, Theme> = {
+  'dark': darkTheme,
+  'light': lightTheme,
+  'high-contrast': highContrastTheme
+}
+
+/**
+ * Look up a built-in theme by name, passing theme objects through
+ * @param theme A theme or the name of a built-in one
+ * @returns The theme, or the dark theme for unknown names
+ */
+export function resolveTheme(theme: Theme | ThemeName): Theme {
+  return typeof theme === 'string' ? themes[theme] ?? darkTheme : theme
+}
@@ -0,0 +1,118 @@
+// Text and JSON summaries of a profile, for terminals and CI where HTML cannot be opened
+import { Profile } from 'pprof-format'
+import { FlameDataProcessor } from './renderer/FlameDataProcessor.js'
+import { ProfileMetadata } from './renderer/ProfileMetadata.js'
+import { formatPercentage, formatValue, getSelfValueLabel, getTotalValueLabel } from './renderer/formatters.js'
+import { aggregateFunctions } from './utils/functionStats.js'
+
+export type ProfileReportSortKey = 'self' | 'total'
+
+export interface ProfileReportOptions {
+  top?: number  // Number of functions to list (default: 20)
+  sortBy?: ProfileReportSortKey  // Order of the functions (default: 'self')
+  showAppCodeOnly?: boolean  // Hide node_modules and Node.js internals, like the app code filter of the graph
+  sampleTypeIndex?: number
+}
+
+export interface ProfileReportFunction {
+  name: string
+  fileName?: string
+  lineNumber?: number
+  selfValue: number
+  selfPercentage: number  // Fraction (0-1) of the profile total
+  totalValue: number
+  totalPercentage: number  // Fraction (0-1) of the profile total
+}
+
+export interface ProfileReport {
+  profileMetadata: ProfileMetadata
+  showAppCodeOnly: boolean
+  sortBy: ProfileReportSortKey
+  totalValue: number
+  functionCount: number  // Functions in the profile, of which the top ones are listed
+  functions: ProfileReportFunction[]
+}
+
+/**
+ * Summarise the functions of a profile by self and total value
+ * Values are aggregated per function across the tree like in FunctionTable,
+ * after the same app code filtering as the flame graph.
+ *
+ * @param profile The decoded profile
+ * @param options How many functions to list, their order and filtering
+ * @returns The report, which can be written as JSON or with formatProfileReport
+ */
+export function createProfileReport(profile: Profile, options: ProfileReportOptions = {}): ProfileReport {
+  const { top = 20, sortBy = 'self', showAppCodeOnly = false, sampleTypeIndex } = options
+
+  const processor = new FlameDataProcessor()
+  const root = processor.processProfile(profile, showAppCodeOnly, sampleTypeIndex)
+  const profileMetadata = processor.getProfileMetadata()!
+
+  const functions = aggregateFunctions(root)
+  if (sortBy === 'total') {
+    functions.sort((a, b) => b.totalValue - a.totalValue)
+  }
+
+  const toFraction = (value: number) => root.value > 0 ? value / root.value : 0
+
+  return {
+    profileMetadata,
+    showAppCodeOnly,
+    sortBy,
+    totalValue: root.value,
+    functionCount: functions.length,
+    functions: functions.slice(0, Math.max(0, top)).map(entry => ({
+      name: entry.name,
+      fileName: entry.fileName || undefined,
+      lineNumber: entry.lineNumber || undefined,
+      selfValue: entry.selfValue,
+      selfPercentage: toFraction(entry.selfValue),
+      totalValue: entry.totalValue,
+      totalPercentage: toFraction(entry.totalValue)
+    }))
+  }
+}
+
+/**
+ * Write a report as an aligned plain text table
+ * @param report The report from createProfileReport
+ * @returns The table, with a heading line and one line per function
+ */
+export function formatProfileReport(report: ProfileReport): string {
+  const { profileMetadata, functions } = report
+  const sortLabel = report.sortBy === 'total' ? getTotalValueLabel(profileMetadata) : getSelfValueLabel(profileMetadata)
+  const scope = report.showAppCodeOnly ? ', app code only' : ''
+
+  const lines = [
+    `Top ${functions.length} of ${report.functionCount} functions by ${sortLabel.toLowerCase()} (total ${formatValue(report.totalValue, profileMetadata)}${scope})`,
+    ''
+  ]
+
+  const rows = [
+    [getSelfValueLabel(profileMetadata), 'Self %', getTotalValueLabel(profileMetadata), 'Total %', 'Function'],
+    ...functions.map(entry => [
+      formatValue(entry.selfValue, profileMetadata),
+      formatPercentage(entry.selfPercentage),
+      formatValue(entry.totalValue, profileMetadata),
+      formatPercentage(entry.totalPercentage),
+      formatFunctionName(entry)
+    ])
+  ]
+
+  // Numbers are right aligned, the function name is left as is
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)))
+  for (const row of rows) {
+    const cells = row.map((cell, column) => column === row.length - 1 ? cell : cell.padStart(widths[column]))
+    lines.push(cells.join('  '))
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function formatFunctionName(entry: ProfileReportFunction): string {
+  if (!entry.fileName) {
+    return entry.name
+  }
+  return entry.lineNumber ? `${entry.name} (${entry.fileName}:${entry.lineNumber})` : `${entry.name} (${entry.fileName})`
+}
@@ -0,0 +1,21 @@
+/**
+ * Saves data as a file in the browser, through a temporary object URL
+ * @param data The file contents
+ * @param fileName The suggested file name
+ * @param mimeType The MIME type of the contents
+ */
+export function downloadFile(data: string | Uint8Array | Blob, fileName: string, mimeType: string): void {
+  const blob = data instanceof Blob ? data : new Blob([data as BlobPart], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.style.display = 'none'
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Revoke once the click has been handled, or the download can be cancelled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
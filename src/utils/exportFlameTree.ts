@@ -0,0 +1,129 @@
+import { FlameNode } from '../renderer/FlameDataProcessor'
+import { ProfileMetadata, ProfileType } from '../renderer/ProfileMetadata'
+import { PprofBuilder } from './pprofBuilder'
+
+export type FlameTreeExportFormat = 'folded' | 'pprof' | 'json'
+
+/**
+ * A FlameNode subtree as written by exportFlameTree in JSON format
+ */
+export interface ExportedFlameNode {
+  name: string
+  fileName?: string
+  lineNumber?: number
+  inlined?: boolean
+  value: number
+  selfValue: number
+  sampleCount: number
+  children: ExportedFlameNode[]
+}
+
+export interface ExportedFlameTree {
+  profileType?: ProfileType
+  unit?: string
+  path: string[]  // Names of the frames above the exported node, from the root
+  root: ExportedFlameNode
+}
+
+/**
+ * Writes a FlameNode subtree as folded stacks, encoded pprof or JSON
+ * Folded stacks and pprof samples start at the outermost frame above the
+ * node, so an exported zoomed-in frame keeps its callers; only the self
+ * values inside the subtree are written. The "all" root frame is left out.
+ *
+ * @param node The node whose subtree is exported, e.g. the root or the zoomed-in frame
+ * @param format The output format
+ * @param profileMetadata The metadata of the profile, to keep its sample type and unit
+ * @returns Text for folded stacks and JSON, bytes for pprof
+ */
+export function exportFlameTree(node: FlameNode, format: 'pprof', profileMetadata?: ProfileMetadata): Uint8Array
+export function exportFlameTree(node: FlameNode, format: 'folded' | 'json', profileMetadata?: ProfileMetadata): string
+export function exportFlameTree(node: FlameNode, format: FlameTreeExportFormat, profileMetadata?: ProfileMetadata): string | Uint8Array
+export function exportFlameTree(node: FlameNode, format: FlameTreeExportFormat, profileMetadata?: ProfileMetadata): string | Uint8Array {
+  if (format === 'json') {
+    const tree: ExportedFlameTree = {
+      profileType: profileMetadata?.profileType,
+      unit: profileMetadata?.unit,
+      path: getPath(node).map(frame => frame.name),
+      root: toExportedNode(node)
+    }
+    return JSON.stringify(tree, null, 2)
+  }
+
+  if (format === 'folded') {
+    const lines: string[] = []
+    visitStacks(node, (stack, frame) => {
+      if (frame.selfValue > 0) {
+        lines.push(`${stack.map(f => f.name.replace(/;/g, ':')).join(';')} ${frame.selfValue}`)
+      }
+    })
+    return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+  }
+
+  const builder = new PprofBuilder([['samples', 'count'], getSampleType(profileMetadata)])
+  visitStacks(node, (stack, frame) => {
+    if (frame.selfValue > 0 || frame.selfSampleCount > 0) {
+      const locationIds = stack.map(f => builder.getLocationId(f.name, f.fileName, f.lineNumber)).reverse()
+      builder.addSample(locationIds, [frame.selfSampleCount, frame.selfValue])
+    }
+  })
+  return builder.build({ periodType: getSampleType(profileMetadata), period: 0 }).encode()
+}
+
+/**
+ * Lists the frames above a node, from the outermost one, without the "all" root
+ */
+function getPath(node: FlameNode): FlameNode[] {
+  const path: FlameNode[] = []
+  for (let current = node.parent; current?.parent; current = current.parent) {
+    path.unshift(current)
+  }
+  return path
+}
+
+/**
+ * Calls visit with the full stack of every node of the subtree
+ */
+function visitStacks(node: FlameNode, visit: (stack: FlameNode[], frame: FlameNode) => void): void {
+  const stack = getPath(node)
+
+  const walk = (frame: FlameNode) => {
+    const isRoot = !frame.parent
+    if (!isRoot) {
+      stack.push(frame)
+      visit(stack, frame)
+    }
+    for (const child of frame.children) {
+      walk(child)
+    }
+    if (!isRoot) {
+      stack.pop()
+    }
+  }
+  walk(node)
+}
+
+function toExportedNode(node: FlameNode): ExportedFlameNode {
+  const exported: ExportedFlameNode = {
+    name: node.name,
+    value: node.value,
+    selfValue: node.selfValue,
+    sampleCount: node.sampleCount,
+    children: node.children.map(toExportedNode)
+  }
+  if (node.fileName) {exported.fileName = node.fileName}
+  if (node.lineNumber) {exported.lineNumber = node.lineNumber}
+  if (node.inlined) {exported.inlined = true}
+  return exported
+}
+
+function getSampleType(profileMetadata?: ProfileMetadata): [string, string] {
+  switch (profileMetadata?.profileType) {
+    case ProfileType.CPU:
+      return ['cpu', profileMetadata.unit]
+    case ProfileType.HEAP:
+      return ['space', profileMetadata.unit]
+    default:
+      return ['value', 'count']
+  }
+}
@@ -120,13 +120,9 @@ export function filterAndRecalculate(
 
 /**
  * Recalculates values in the tree, collapsing filtered nodes into their parents
+ * The values of filtered children become self values of the frame that called them.
  */
 function recalculateValues(node: FlameNode): FlameNode {
-  // Base case: leaf node
-  if (node.children.length === 0) {
-    return node
-  }
-
   // Recursively recalculate children
   const recalculatedChildren = node.children.map(recalculateValues)
 
@@ -142,12 +138,50 @@ function recalculateValues(node: FlameNode): FlameNode {
     0
   )
 
+  const value = Math.max(node.value, totalChildValue)
+  const sampleCount = Math.max(node.sampleCount, totalChildSamples)
+
+  // Diff trees carry base values that need the same treatment
+  let baseValue: number | undefined
+  let baseSelfValue: number | undefined
+  if (node.baseValue !== undefined) {
+    const totalChildBaseValue = recalculatedChildren.reduce((sum, child) => sum + (child.baseValue ?? 0), 0)
+    baseValue = Math.max(node.baseValue, totalChildBaseValue)
+    baseSelfValue = baseValue - totalChildBaseValue
+  }
+
   return {
     ...node,
     children: recalculatedChildren,
-    value: Math.max(node.value, totalChildValue),
-    sampleCount: Math.max(node.sampleCount, totalChildSamples),
+    value,
+    selfValue: value - totalChildValue,
+    sampleCount,
+    selfSampleCount: sampleCount - totalChildSamples,
+    baseValue,
+    baseSelfValue,
+  }
+}
+
+/**
+ * Get the value each frame is sized by in the layout
+ * Without base values this is the value of the frame. Diff trees hold the
+ * frames of both profiles, so a frame takes the larger of its self values in
+ * either profile plus the values of its children: frames that grew and frames
+ * that shrank, down to zero, keep their full size and children fit in their parent.
+ *
+ * @param root The root FlameNode, with self values calculated
+ * @returns The layout value of every node of the tree
+ */
+export function getLayoutValues(root: FlameNode): Map<FlameNode, number> {
+  const layoutValues = new Map<FlameNode, number>()
+  const visit = (node: FlameNode): number => {
+    const childrenValue = node.children.reduce((sum, child) => sum + visit(child), 0)
+    const layoutValue = Math.max(node.selfValue, node.baseSelfValue ?? 0) + childrenValue
+    layoutValues.set(node, layoutValue)
+    return layoutValue
   }
+  visit(root)
+  return layoutValues
 }
 
 /**
@@ -155,7 +189,8 @@ function recalculateValues(node: FlameNode): FlameNode {
  */
 function recalculateLayout(node: FlameNode): FlameNode {
   // Start from the root and recalculate all positions
-  return recalculateNodeLayout(node, 0, node.value)
+  const layoutValues = getLayoutValues(node)
+  return recalculateNodeLayout(node, 0, layoutValues.get(node) ?? 0, layoutValues)
 }
 
 /**
@@ -164,14 +199,16 @@ function recalculateLayout(node: FlameNode): FlameNode {
 function recalculateNodeLayout(
   node: FlameNode,
   startX: number,
-  totalValue: number
+  totalValue: number,
+  layoutValues: Map<FlameNode, number>
 ): FlameNode {
-  const nodeWidth = totalValue > 0 ? node.value / totalValue : 0
+  const layoutValue = (frame: FlameNode) => layoutValues.get(frame) ?? 0
+  const nodeWidth = totalValue > 0 ? layoutValue(node) / totalValue : 0
 
   let currentX = startX
   const recalculatedChildren = node.children.map(child => {
-    const childWidth = totalValue > 0 ? child.value / totalValue : 0
-    const recalculated = recalculateNodeLayout(child, currentX, totalValue)
+    const childWidth = totalValue > 0 ? layoutValue(child) / totalValue : 0
+    const recalculated = recalculateNodeLayout(child, currentX, totalValue, layoutValues)
     currentX += childWidth
     return recalculated
   })
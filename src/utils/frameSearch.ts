@@ -0,0 +1,111 @@
+import { FlameNode } from '../renderer/FlameDataProcessor'
+import type { FlameTree } from '../components/hooks/useFlameTree'
+
+/**
+ * A function name search: strings match case-insensitively anywhere in the
+ * name, regular expressions are tested against the whole name
+ */
+export type SearchQuery = string | RegExp
+
+export interface SearchResult {
+  matches: FlameNode[]  // Matching frames, heaviest first
+  matchedValue: number  // Value covered by matches, without counting nested matches twice
+  totalValue: number
+  percentage: number  // matchedValue as a fraction (0-1) of totalValue
+}
+
+/**
+ * Checks if a frame name matches a search query
+ * @param name The function name of the frame
+ * @param query The search query
+ * @returns true if the name matches
+ */
+export function matchesSearchQuery(name: string, query: SearchQuery): boolean {
+  if (typeof query === 'string') {
+    return name.toLowerCase().includes(query.toLowerCase())
+  }
+
+  // Global and sticky expressions keep state between calls
+  query.lastIndex = 0
+  return query.test(name)
+}
+
+/**
+ * Checks if a search query would match anything at all
+ * @param query The search query
+ * @returns true if the query is set and not an empty string
+ */
+export function isActiveSearchQuery(query: SearchQuery | null | undefined): query is SearchQuery {
+  if (query === null || query === undefined) {
+    return false
+  }
+  return typeof query !== 'string' || query.trim().length > 0
+}
+
+/**
+ * Finds all frames matching a search query in a FlameNode tree.
+ * The root "all" frame never matches.
+ *
+ * @param root The root FlameNode
+ * @param query The search query
+ * @returns The matching frames and how much of the total value they cover
+ */
+export function searchFlameTree(root: FlameNode, query: SearchQuery): SearchResult {
+  const matches: FlameNode[] = []
+  let matchedValue = 0
+
+  const visit = (node: FlameNode, insideMatch: boolean) => {
+    const isMatch = node.depth > 0 && matchesSearchQuery(node.name, query)
+
+    if (isMatch) {
+      matches.push(node)
+
+      // Recursive calls and matching callees are already part of this value
+      if (!insideMatch) {
+        matchedValue += node.value
+      }
+    }
+
+    for (const child of node.children) {
+      visit(child, insideMatch || isMatch)
+    }
+  }
+
+  visit(root, false)
+
+  matches.sort((a, b) => b.value - a.value)
+
+  return {
+    matches,
+    matchedValue,
+    totalValue: root.value,
+    percentage: root.value > 0 ? matchedValue / root.value : 0
+  }
+}
+
+/**
+ * Finds the heaviest frame of a function, e.g. to carry a selection over to
+ * a tree with different frame paths such as the inverted one
+ *
+ * @param tree The processed tree to search
+ * @param name The function name
+ * @param fileName The file of the function, any file when undefined
+ * @returns The frame with the largest value, or null if the function is not in the tree
+ */
+export function findHeaviestFrame(tree: FlameTree, name: string, fileName?: string): FlameNode | null {
+  let heaviest: FlameNode | null = null
+
+  for (const node of tree.nodes.values()) {
+    if (node === tree.root || node.name !== name) {
+      continue
+    }
+    if (fileName !== undefined && node.fileName !== fileName) {
+      continue
+    }
+    if (!heaviest || node.value > heaviest.value) {
+      heaviest = node
+    }
+  }
+
+  return heaviest
+}
@@ -0,0 +1,94 @@
+import { FlameNode } from '../renderer/FlameDataProcessor'
+
+/**
+ * Values of one function aggregated across every frame it appears in
+ */
+export interface FunctionStats {
+  key: string
+  name: string
+  fileName?: string
+  lineNumber?: number
+  selfValue: number  // Sum of the self values of all frames
+  totalValue: number  // Value of all frames, without counting recursive calls twice
+  sampleCount: number  // Samples that include the function, counted once per sample
+  percentage: number  // totalValue as a fraction (0-1) of the root value
+  frameCount: number  // Number of frames merged into this entry
+  heaviestNode: FlameNode  // The frame with the largest value, e.g. to select it in the graph
+}
+
+/**
+ * Builds the key that identifies a function across the tree
+ * @param name The function name
+ * @param fileName The file the function is defined in
+ * @param lineNumber The line of the function
+ * @returns A key that is equal for all frames of the same function
+ */
+export function getFunctionKey(name: string, fileName?: string, lineNumber?: number): string {
+  return `${name}\u0000${fileName ?? ''}\u0000${lineNumber ?? ''}`
+}
+
+/**
+ * Aggregates self and total values per function (name + file + line) across
+ * a FlameNode tree. The root "all" frame is not included.
+ *
+ * @param root The root FlameNode
+ * @returns One entry per function, sorted by self value (descending)
+ */
+export function aggregateFunctions(root: FlameNode): FunctionStats[] {
+  const stats = new Map<string, FunctionStats>()
+
+  // activeKeys holds the functions on the path to the current node, so recursive
+  // frames add their self value but not their total value a second time
+  const visit = (node: FlameNode, activeKeys: Set<string>) => {
+    const key = getFunctionKey(node.name, node.fileName, node.lineNumber)
+    let entry = stats.get(key)
+
+    if (!entry) {
+      entry = {
+        key,
+        name: node.name,
+        fileName: node.fileName,
+        lineNumber: node.lineNumber,
+        selfValue: 0,
+        totalValue: 0,
+        sampleCount: 0,
+        percentage: 0,
+        frameCount: 0,
+        heaviestNode: node
+      }
+      stats.set(key, entry)
+    }
+
+    entry.selfValue += node.selfValue
+    entry.frameCount += 1
+    if (node.value > entry.heaviestNode.value) {
+      entry.heaviestNode = node
+    }
+
+    const isOutermost = !activeKeys.has(key)
+    if (isOutermost) {
+      entry.totalValue += node.value
+      entry.sampleCount += node.sampleCount
+      activeKeys.add(key)
+    }
+
+    for (const child of node.children) {
+      visit(child, activeKeys)
+    }
+
+    if (isOutermost) {
+      activeKeys.delete(key)
+    }
+  }
+
+  for (const child of root.children) {
+    visit(child, new Set())
+  }
+
+  const functions = [...stats.values()]
+  for (const entry of functions) {
+    entry.percentage = root.value > 0 ? entry.totalValue / root.value : 0
+  }
+
+  return functions.sort((a, b) => b.selfValue - a.selfValue)
+}
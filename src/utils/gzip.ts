@@ -0,0 +1,26 @@
+// Gzip detection and decompression for profiles loaded in the browser
+
+/**
+ * Checks for the gzip magic bytes
+ * @param bytes The raw payload
+ * @returns Whether the payload is gzipped
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b
+}
+
+/**
+ * Decompresses a gzipped payload with the platform DecompressionStream
+ * Every supported browser and Node.js version has it, so there is no fallback.
+ *
+ * @param bytes The gzipped payload
+ * @returns The decompressed bytes
+ */
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('gzip is not supported in this runtime')
+  }
+
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
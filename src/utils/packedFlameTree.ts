@@ -0,0 +1,140 @@
+import { FlameNode } from '../renderer/FlameDataProcessor'
+import { ProfileMetadata } from '../renderer/ProfileMetadata'
+import type { FlameTree } from '../components/hooks/useFlameTree'
+
+// Fields stored per node in the typed arrays
+const INT_FIELDS = 4  // parent index, name, file name, line number
+const NUMBER_FIELDS = 9  // value, selfValue, sampleCount, selfSampleCount, x, width, selfWidth, baseValue, baseSelfValue
+const INLINED_FLAG = 1
+
+/**
+ * A flame tree stored in typed arrays, so it can be transferred between
+ * threads without copying or cloning every node
+ * Nodes are listed depth-first, so a parent always comes before its children.
+ */
+export interface PackedFlameTree {
+  strings: string[]  // Function and file names referenced by index
+  ints: Int32Array  // INT_FIELDS entries per node; -1 marks a missing value
+  numbers: Float64Array  // NUMBER_FIELDS entries per node; NaN marks a missing value
+  flags: Uint8Array  // One entry per node
+  profileMetadata: ProfileMetadata
+}
+
+/**
+ * Packs a processed tree into typed arrays
+ * @param root The root FlameNode
+ * @param profileMetadata The metadata of the profile the tree was built from
+ * @returns The packed tree
+ */
+export function packFlameTree(root: FlameNode, profileMetadata: ProfileMetadata): PackedFlameTree {
+  const nodes: FlameNode[] = []
+  const parents: number[] = []
+
+  const collect = (node: FlameNode, parentIndex: number) => {
+    const index = nodes.length
+    nodes.push(node)
+    parents.push(parentIndex)
+    for (const child of node.children) {
+      collect(child, index)
+    }
+  }
+  collect(root, -1)
+
+  const strings: string[] = []
+  const stringIndexes = new Map<string, number>()
+  const getStringIndex = (value: string | undefined): number => {
+    if (value === undefined) {return -1}
+
+    let index = stringIndexes.get(value)
+    if (index === undefined) {
+      index = strings.length
+      strings.push(value)
+      stringIndexes.set(value, index)
+    }
+    return index
+  }
+
+  const ints = new Int32Array(nodes.length * INT_FIELDS)
+  const numbers = new Float64Array(nodes.length * NUMBER_FIELDS)
+  const flags = new Uint8Array(nodes.length)
+
+  nodes.forEach((node, index) => {
+    const i = index * INT_FIELDS
+    ints[i] = parents[index]
+    ints[i + 1] = getStringIndex(node.name)
+    ints[i + 2] = getStringIndex(node.fileName)
+    ints[i + 3] = node.lineNumber ?? -1
+
+    const n = index * NUMBER_FIELDS
+    numbers[n] = node.value
+    numbers[n + 1] = node.selfValue
+    numbers[n + 2] = node.sampleCount
+    numbers[n + 3] = node.selfSampleCount
+    numbers[n + 4] = node.x
+    numbers[n + 5] = node.width
+    numbers[n + 6] = node.selfWidth
+    numbers[n + 7] = node.baseValue ?? NaN
+    numbers[n + 8] = node.baseSelfValue ?? NaN
+
+    flags[index] = node.inlined ? INLINED_FLAG : 0
+  })
+
+  return { strings, ints, numbers, flags, profileMetadata }
+}
+
+/**
+ * Rebuilds the FlameNode tree of a packed tree
+ * Node IDs are rebuilt from the frame names, the same way the processor builds them.
+ *
+ * @param packed The packed tree
+ * @returns The tree, with every node indexed by ID
+ */
+export function unpackFlameTree(packed: PackedFlameTree): FlameTree {
+  const { strings, ints, numbers, flags, profileMetadata } = packed
+  const count = flags.length
+  const list: FlameNode[] = []
+  const nodes = new Map<string, FlameNode>()
+
+  for (let index = 0; index < count; index++) {
+    const i = index * INT_FIELDS
+    const n = index * NUMBER_FIELDS
+    const parent = ints[i] >= 0 ? list[ints[i]] : undefined
+    const name = strings[ints[i + 1]]
+
+    const node: FlameNode = {
+      id: parent ? `${parent.id}/${name}` : 'root',
+      name,
+      value: numbers[n],
+      selfValue: numbers[n + 1],
+      sampleCount: numbers[n + 2],
+      selfSampleCount: numbers[n + 3],
+      x: numbers[n + 4],
+      width: numbers[n + 5],
+      selfWidth: numbers[n + 6],
+      depth: parent ? parent.depth + 1 : 0,
+      children: [],
+      parent
+    }
+
+    if (ints[i + 2] >= 0) {node.fileName = strings[ints[i + 2]]}
+    if (ints[i + 3] >= 0) {node.lineNumber = ints[i + 3]}
+    if (flags[index] & INLINED_FLAG) {node.inlined = true}
+    if (!Number.isNaN(numbers[n + 7])) {node.baseValue = numbers[n + 7]}
+    if (!Number.isNaN(numbers[n + 8])) {node.baseSelfValue = numbers[n + 8]}
+
+    parent?.children.push(node)
+    list.push(node)
+    nodes.set(node.id, node)
+  }
+
+  return { root: list[0], profileMetadata, nodes }
+}
+
+/**
+ * Lists the buffers of a packed tree, to transfer them with postMessage
+ * @param packed The packed tree
+ * @returns The buffers backing its typed arrays
+ */
+export function getPackedFlameTreeTransferables(packed: PackedFlameTree): ArrayBuffer[] {
+  return [packed.ints.buffer as ArrayBuffer, packed.numbers.buffer as ArrayBuffer, packed.flags.buffer as ArrayBuffer]
+}
@@ -0,0 +1,73 @@
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
+
+/**
+ * Collects functions, locations and samples into a pprof profile, with one
+ * function and location per distinct frame
+ */
+export class PprofBuilder {
+  #stringTable = new StringTable()
+  #sampleTypes: ValueType[]
+  #functions: Function[] = []
+  #locations: Location[] = []
+  #samples: Sample[] = []
+  #locationIds = new Map<string, number>()
+
+  constructor(sampleTypes: Array<[string, string]>) {
+    this.#sampleTypes = sampleTypes.map(([type, unit]) => this.#valueType(type, unit))
+  }
+
+  /**
+   * Get the location of a frame, adding it and its function on first use
+   */
+  getLocationId(name: string, fileName = '', line = 0, column = 0): number {
+    const key = `${name}\u0000${fileName}\u0000${line}\u0000${column}`
+
+    let id = this.#locationIds.get(key)
+    if (id === undefined) {
+      id = this.#locations.length + 1
+      this.#functions.push(new Function({
+        id,
+        name: this.#stringTable.dedup(name),
+        filename: this.#stringTable.dedup(fileName),
+        startLine: line
+      }))
+      this.#locations.push(new Location({
+        id,
+        line: [new Line({ functionId: id, line })]
+      }))
+      this.#locationIds.set(key, id)
+    }
+
+    return id
+  }
+
+  /**
+   * Add a sample whose stack lists location IDs leaf first
+   */
+  addSample(locationIds: number[], values: number[]): void {
+    this.#samples.push(new Sample({ locationId: locationIds, value: values }))
+  }
+
+  /**
+   * Build the profile from the samples added so far
+   */
+  build(fields: { timeNanos?: number, durationNanos?: number, periodType: [string, string], period: number }): Profile {
+    return new Profile({
+      sampleType: this.#sampleTypes,
+      sample: this.#samples,
+      location: this.#locations,
+      function: this.#functions,
+      stringTable: this.#stringTable,
+      timeNanos: fields.timeNanos ?? 0,
+      durationNanos: fields.durationNanos ?? 0,
+      periodType: this.#valueType(...fields.periodType),
+      period: fields.period
+    })
+  }
+
+  // Private methods
+
+  #valueType(type: string, unit: string): ValueType {
+    return new ValueType({ type: this.#stringTable.dedup(type), unit: this.#stringTable.dedup(unit) })
+  }
+}
@@ -0,0 +1,150 @@
+import type { FlameTree } from '../components/hooks/useFlameTree.js'
+import { unpackFlameTree } from '../utils/packedFlameTree.js'
+import type { ProfileLoadProgress, ProfileWorkerCommand, ProfileWorkerRequest, ProfileWorkerResponse, WorkerFlameTreeOptions } from './protocol.js'
+
+type ProfileWorkerResult = Extract<ProfileWorkerResponse, { type: 'loaded' | 'tree' }>
+
+interface PendingRequest {
+  resolve: (response: ProfileWorkerResult) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: ProfileLoadProgress) => void
+}
+
+/**
+ * Start the bundled profile worker
+ * The build bundles the worker with its dependencies into a single file, so it
+ * starts as published, and bundlers that follow new URL(..., import.meta.url)
+ * copy it along with the app.
+ */
+export function createProfileWorker(): Worker {
+  return new Worker(new URL('./profile.worker.js', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Decodes a profile and builds its flame trees in a Web Worker, so large
+ * profiles do not block the main thread
+ * Trees are transferred back in packed form and cached per options until
+ * another profile is loaded.
+ */
+export class ProfileWorker {
+  #worker: Worker
+  #nextId = 1
+  #pending = new Map<number, PendingRequest>()
+  #trees = new Map<string, Promise<FlameTree>>()
+
+  constructor(worker: Worker = createProfileWorker()) {
+    this.#worker = worker
+    this.#worker.onmessage = (event: MessageEvent<ProfileWorkerResponse>) => {
+      this.#handleResponse(event.data)
+    }
+    this.#worker.onerror = (event) => {
+      this.#rejectAll(new Error(event.message || 'Profile worker failed'))
+    }
+  }
+
+  /**
+   * Fetch and decode a profile in the worker, from a URL or from raw pprof bytes
+   * Relative URLs are resolved against the page, not the worker script. Bytes
+   * are transferred rather than copied, so the buffer passed in is detached
+   * and empty afterwards.
+   */
+  load(source: string | ArrayBuffer, onProgress?: (progress: ProfileLoadProgress) => void): Promise<void> {
+    this.#trees.clear()
+
+    const command: ProfileWorkerCommand = typeof source === 'string'
+      ? { type: 'load', url: new URL(source, globalThis.location?.href).href }
+      : { type: 'load', buffer: source }
+
+    return this.#request(command, onProgress).then(() => undefined)
+  }
+
+  /**
+   * Build the tree of the loaded profile
+   */
+  buildTree(options: WorkerFlameTreeOptions = {}, onProgress?: (progress: ProfileLoadProgress) => void): Promise<FlameTree> {
+    const { showAppCodeOnly = false, sampleTypeIndex, inverted = false } = options
+    const key = `${sampleTypeIndex ?? ''}:${showAppCodeOnly}:${inverted}`
+
+    let tree = this.#trees.get(key)
+    if (!tree) {
+      tree = this.#request({ type: 'build', options: { showAppCodeOnly, sampleTypeIndex, inverted } }, onProgress)
+        .then(response => {
+          if (response.type !== 'tree') {
+            throw new Error(`Unexpected ${response.type} response from the profile worker`)
+          }
+          return unpackFlameTree(response.tree)
+        })
+      // Failed builds are not cached, so they can be retried
+      tree.catch(() => this.#trees.delete(key))
+      this.#trees.set(key, tree)
+    }
+
+    return tree
+  }
+
+  /**
+   * Stop the worker; pending requests are rejected
+   */
+  terminate(): void {
+    this.#worker.terminate()
+    this.#trees.clear()
+    this.#rejectAll(new Error('Profile worker was terminated'))
+  }
+
+  // Private methods
+
+  #request(command: ProfileWorkerCommand, onProgress?: (progress: ProfileLoadProgress) => void): Promise<ProfileWorkerResult> {
+    const id = this.#nextId++
+    const request: ProfileWorkerRequest = { ...command, id }
+
+    return new Promise((resolve, reject) => {
+      this.#pending.set(id, { resolve, reject, onProgress })
+      // Moving the bytes of a profile avoids copying them on the main thread
+      this.#worker.postMessage(request, 'buffer' in command ? [command.buffer] : [])
+    })
+  }
+
+  #handleResponse(response: ProfileWorkerResponse): void {
+    const pending = this.#pending.get(response.id)
+    if (!pending) {
+      return
+    }
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress)
+      return
+    }
+
+    this.#pending.delete(response.id)
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message))
+    } else {
+      pending.resolve(response)
+    }
+  }
+
+  #rejectAll(error: Error): void {
+    for (const pending of this.#pending.values()) {
+      pending.reject(error)
+    }
+    this.#pending.clear()
+  }
+}
+
+/**
+ * Fetch a profile and build one flame tree in a short-lived worker
+ */
+export async function loadFlameTreeInWorker(
+  source: string | ArrayBuffer,
+  options: WorkerFlameTreeOptions & { onProgress?: (progress: ProfileLoadProgress) => void } = {}
+): Promise<FlameTree> {
+  const { onProgress, ...treeOptions } = options
+  const worker = new ProfileWorker()
+
+  try {
+    await worker.load(source, onProgress)
+    return await worker.buildTree(treeOptions, onProgress)
+  } finally {
+    worker.terminate()
+  }
+}
@@ -0,0 +1,54 @@
+import { Profile, fetchProfile, parseProfile } from '../parser.js'
+import { FlameDataProcessor } from '../renderer/FlameDataProcessor.js'
+import { detectProfileMetadata } from '../renderer/ProfileMetadata.js'
+import { packFlameTree, getPackedFlameTreeTransferables } from '../utils/packedFlameTree.js'
+import type { ProfileWorkerRequest, ProfileWorkerResponse } from './protocol.js'
+
+export type ProfileWorkerPost = (response: ProfileWorkerResponse, transfer: Transferable[]) => void
+
+/**
+ * Create the message handler of the profile worker
+ * The worker keeps the last loaded profile, so trees with other options are
+ * built without fetching it again. Requests are handled one at a time, in order.
+ */
+export function createProfileWorkerHandler(post: ProfileWorkerPost): (request: ProfileWorkerRequest) => Promise<void> {
+  let profile: Profile | null = null
+  let queue = Promise.resolve()
+
+  const handle = async (request: ProfileWorkerRequest) => {
+    const { id } = request
+
+    try {
+      if (request.type === 'load') {
+        profile = null
+        post({ id, type: 'progress', progress: { stage: 'fetching' } }, [])
+        profile = 'url' in request
+          ? await fetchProfile(request.url, {
+            onProgress: ({ loaded, total }) => post({ id, type: 'progress', progress: { stage: 'fetching', loaded, total } }, [])
+          })
+          : await parseProfile(request.buffer)
+        post({ id, type: 'loaded' }, [])
+        return
+      }
+
+      if (!profile) {
+        throw new Error('No profile has been loaded')
+      }
+
+      post({ id, type: 'progress', progress: { stage: 'building' } }, [])
+      const { showAppCodeOnly = false, sampleTypeIndex, inverted = false } = request.options
+      const processor = new FlameDataProcessor()
+      const root = processor.processProfile(profile, showAppCodeOnly, sampleTypeIndex, undefined, inverted)
+      const tree = packFlameTree(root, processor.getProfileMetadata() ?? detectProfileMetadata(profile, sampleTypeIndex))
+
+      post({ id, type: 'tree', tree }, getPackedFlameTreeTransferables(tree))
+    } catch (error) {
+      post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) }, [])
+    }
+  }
+
+  return (request) => {
+    queue = queue.then(() => handle(request))
+    return queue
+  }
+}
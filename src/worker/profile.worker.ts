@@ -0,0 +1,16 @@
+// Web Worker entry: decodes profiles and builds flame trees off the main thread
+import { createProfileWorkerHandler } from './handler.js'
+import type { ProfileWorkerRequest, ProfileWorkerResponse } from './protocol.js'
+
+// The DOM typings describe a window, so only the part of the worker scope in use is declared
+interface ProfileWorkerScope {
+  postMessage(message: ProfileWorkerResponse, transfer: Transferable[]): void
+  onmessage: ((event: MessageEvent<ProfileWorkerRequest>) => void) | null
+}
+
+const scope = self as unknown as ProfileWorkerScope
+const handleRequest = createProfileWorkerHandler((response, transfer) => scope.postMessage(response, transfer))
+
+scope.onmessage = (event) => {
+  handleRequest(event.data)
+}
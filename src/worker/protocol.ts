@@ -0,0 +1,35 @@
+import type { PackedFlameTree } from '../utils/packedFlameTree.js'
+
+/**
+ * Options of a tree built by the profile worker
+ * Diff trees need a base profile on the main thread, so they are not supported.
+ */
+export interface WorkerFlameTreeOptions {
+  showAppCodeOnly?: boolean
+  sampleTypeIndex?: number
+  inverted?: boolean
+}
+
+/**
+ * What the worker is busy with: fetching and decoding the profile, or building a tree
+ */
+export type ProfileLoadStage = 'fetching' | 'building'
+
+export interface ProfileLoadProgress {
+  stage: ProfileLoadStage
+  loaded?: number  // Bytes of the profile received so far, while fetching a URL
+  total?: number  // Size of the download, when the server sends it
+}
+
+export type ProfileWorkerCommand =
+  | { type: 'load'; url: string }
+  | { type: 'load'; buffer: ArrayBuffer }
+  | { type: 'build'; options: WorkerFlameTreeOptions }
+
+export type ProfileWorkerRequest = ProfileWorkerCommand & { id: number }
+
+export type ProfileWorkerResponse =
+  | { id: number; type: 'progress'; progress: ProfileLoadProgress }
+  | { id: number; type: 'loaded' }
+  | { id: number; type: 'tree'; tree: PackedFlameTree }
+  | { id: number; type: 'error'; message: string }
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test'
+
+const folded = [
+  'main;handler;query 30',
+  'main;handler;query;query 10',
+  'main;handler;render 20',
+  'main;gc 10'
+].join('\n')
+
+test.describe('Performance Budgets', () => {
+  test('converts limits to the unit of the profile', async () => {
+    const { parseBudgetValue } = await import('../src/budgets.js')
+    const { ProfileType, TimeUnit, SpaceUnit } = await import('../src/renderer/ProfileMetadata.js')
+
+    const cpu = { profileType: ProfileType.CPU, unit: TimeUnit.NANOSECONDS, sampleTypeIndex: 1, scaleFactor: 1 }
+    const heap = { profileType: ProfileType.HEAP, unit: SpaceUnit.BYTES, sampleTypeIndex: 1, scaleFactor: 1 }
+
+    expect(parseBudgetValue('50ms', cpu, 0)).toBe(50_000_000)
+    expect(parseBudgetValue('1.5s', cpu, 0)).toBe(1_500_000_000)
+    expect(parseBudgetValue('20MB', heap, 0)).toBe(20 * 1024 * 1024)
+    expect(parseBudgetValue('25%', heap, 400)).toBe(100)
+    expect(parseBudgetValue(42, cpu, 0)).toBe(42)
+    expect(() => parseBudgetValue('20MB', cpu, 0)).toThrow('does not fit a cpu profile')
+    expect(() => parseBudgetValue('fast', cpu, 0)).toThrow('Invalid budget value')
+  })
+
+  test('counts recursive frames once in the total value', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { checkBudgets } = await import('../src/budgets.js')
+
+    const result = checkBudgets(parseFoldedStacks(folded), [{ function: 'query', maxTotal: '60%' }])
+
+    expect(result.passed).toBe(true)
+    expect(result.results[0].selfValue).toBe(40)
+    expect(result.results[0].totalValue).toBe(40)
+  })
+
+  test('reports the heaviest stacks of exceeded budgets', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { checkBudgets, formatBudgetReport } = await import('../src/budgets.js')
+
+    const result = checkBudgets(parseFoldedStacks(folded), [
+      { name: 'Rendering', function: 'render', maxSelf: 10 },
+      { function: '/^(gc|query)$/', maxSelf: '75%' }
+    ], { maxStacks: 1 })
+
+    expect(result.passed).toBe(false)
+    expect(result.results[0].violations).toEqual([
+      { metric: 'self', value: 20, limit: 10, stacks: [{ frames: ['main', 'handler', 'render'], value: 20 }] }
+    ])
+    expect(result.results[1].violations).toEqual([])
+
+    const lines = formatBudgetReport(result).split('\n')
+    expect(lines[0]).toBe('FAIL Rendering: self 20 (28.57%), total 20 (28.57%)')
+    expect(lines[2]).toBe('    20  main > handler > render')
+    expect(lines).toContain('1 of 2 budgets exceeded')
+  })
+})
@@ -1,6 +1,6 @@
 import { test, expect } from '@playwright/test'
-import { execSync, spawnSync } from 'child_process'
-import { readFileSync, unlinkSync, existsSync } from 'fs'
+import { execSync, spawn, spawnSync, type ChildProcess } from 'child_process'
+import { readFileSync, writeFileSync, unlinkSync, existsSync, mkdtempSync, copyFileSync, readdirSync, rmSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 
@@ -129,7 +129,7 @@ test.describe('CLI Script', () => {
       const html = readFileSync(outputPath, 'utf8')
 
       // Check for embedded profile data
-      expect(html).toContain('new Uint8Array([')
+      expect(html).toContain("profileBase64: '")
       expect(html).toContain('window.renderReactPprofFlameGraph')
     })
 
@@ -281,6 +281,44 @@ test.describe('CLI Script', () => {
         }
       }
     })
+
+    test('shows errors from the profile server as text', async ({ page }) => {
+      const outputPath = join(tmpdir(), `cli-error-test-${Date.now()}.html`)
+
+      try {
+        spawnSync('node', [cliPath, profilePath, '-o', outputPath], {
+          cwd: projectRoot,
+          encoding: 'utf8'
+        })
+
+        // The JSON parse error quotes the payload
+        await page.route('http://localhost:3100/hostile.pb', route => route.fulfill({
+          headers: { 'Access-Control-Allow-Origin': '*' },
+          body: '{"a":<b>x</b>}'
+        }))
+
+        await page.setContent(readFileSync(outputPath, 'utf8'))
+        await page.evaluate(() => {
+          const container = document.createElement('div')
+          container.id = 'hostile'
+          document.body.appendChild(container)
+          return window.renderReactPprofFlameGraph('hostile', {
+            profileUrl: 'http://localhost:3100/hostile.pb',
+            filename: 'hostile.pb',
+            title: 'Hostile'
+          })
+        })
+
+        const container = page.locator('#hostile')
+        await expect(container).toContainText('Error loading profile')
+        await expect(container).toContainText('<b>x</b>')
+        await expect(container.locator('b')).toHaveCount(0)
+      } finally {
+        if (existsSync(outputPath)) {
+          unlinkSync(outputPath)
+        }
+      }
+    })
   })
 
   test.describe('Gzipped Input Handling', () => {
@@ -305,4 +343,303 @@ test.describe('CLI Script', () => {
       }
     })
   })
+
+  test.describe('JSON Profile Input', () => {
+    test('converts .cpuprofile files to pprof', () => {
+      const inputPath = join(tmpdir(), `cli-cpuprofile-test-${Date.now()}.cpuprofile`)
+      const outputPath = join(tmpdir(), `cli-cpuprofile-test-${Date.now()}.html`)
+      const callFrame = (functionName: string) => ({ functionName, scriptId: '1', url: 'file:///app.js', lineNumber: 0, columnNumber: 0 })
+
+      writeFileSync(inputPath, JSON.stringify({
+        nodes: [
+          { id: 1, callFrame: callFrame('(root)'), children: [2] },
+          { id: 2, callFrame: callFrame('main'), children: [] }
+        ],
+        startTime: 0,
+        endTime: 2000,
+        samples: [2, 2],
+        timeDeltas: [0, 1000]
+      }))
+
+      try {
+        const result = spawnSync('node', [cliPath, inputPath, '-o', outputPath], {
+          cwd: projectRoot,
+          encoding: 'utf8'
+        })
+
+        expect(result.status).toBe(0)
+        expect(result.stdout).toContain('V8 JSON profile')
+        expect(readFileSync(outputPath, 'utf8')).toContain('window.renderReactPprofFlameGraph')
+      } finally {
+        for (const path of [inputPath, outputPath]) {
+          if (existsSync(path)) {
+            unlinkSync(path)
+          }
+        }
+      }
+    })
+  })
+
+  test.describe('Folded Stacks Input', () => {
+    test('converts folded stacks with the given sample type', () => {
+      const inputPath = join(tmpdir(), `cli-folded-test-${Date.now()}.folded`)
+      const outputPath = join(tmpdir(), `cli-folded-test-${Date.now()}.html`)
+
+      writeFileSync(inputPath, 'main;query;parse 30\nmain;render 10\n')
+
+      try {
+        const result = spawnSync('node', [cliPath, inputPath, '-o', outputPath, '--sample-type', 'cpu', '--sample-unit', 'nanoseconds'], {
+          cwd: projectRoot,
+          encoding: 'utf8'
+        })
+
+        expect(result.status).toBe(0)
+        expect(result.stdout).toContain('folded stacks')
+        expect(readFileSync(outputPath, 'utf8')).toContain('window.renderReactPprofFlameGraph')
+      } finally {
+        for (const path of [inputPath, outputPath]) {
+          if (existsSync(path)) {
+            unlinkSync(path)
+          }
+        }
+      }
+    })
+  })
+
+  test.describe('Multiple Inputs', () => {
+    let inputDir: string
+    let outDir: string
+
+    test.beforeEach(() => {
+      inputDir = mkdtempSync(join(tmpdir(), 'cli-batch-input-'))
+      outDir = join(tmpdir(), `cli-batch-output-${Date.now()}`)
+      copyFileSync(profilePath, join(inputDir, 'api.pprof'))
+      copyFileSync(profilePath, join(inputDir, 'worker.pprof'))
+      writeFileSync(join(inputDir, 'notes.md'), '# Not a profile\n')
+    })
+
+    test.afterEach(() => {
+      rmSync(inputDir, { recursive: true, force: true })
+      rmSync(outDir, { recursive: true, force: true })
+    })
+
+    test('writes one page per profile of a directory and an index', () => {
+      const result = spawnSync('node', [cliPath, inputDir, '--out-dir', outDir, '-t', 'Load test'], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      expect(readdirSync(outDir).sort()).toEqual(['api.html', 'index.html', 'worker.html'])
+
+      const index = readFileSync(join(outDir, 'index.html'), 'utf8')
+      expect(index).toContain('<title>Load test</title>')
+      expect(index).toContain('data-src="api.html"')
+      expect(index).toContain('data-src="worker.html"')
+    })
+
+    test('escapes profile names in the links of the index', () => {
+      copyFileSync(profilePath, join(inputDir, '<b>cpu #1.pprof'))
+
+      const result = spawnSync('node', [cliPath, inputDir, '--out-dir', outDir], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      const index = readFileSync(join(outDir, 'index.html'), 'utf8')
+      expect(index).toContain('data-src="%3Cb%3Ecpu%20%231.html"')
+      expect(index).toContain('>&lt;b&gt;cpu #1.pprof</button>')
+      expect(index).not.toContain('<b>')
+    })
+
+    test('expands glob patterns', () => {
+      const result = spawnSync('node', [cliPath, join(inputDir, 'w*.pprof'), '--out-dir', outDir], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      expect(readdirSync(outDir)).toEqual(['worker.html'])
+    })
+
+    test('rejects --output with several profiles', () => {
+      const result = spawnSync('node', [cliPath, inputDir, '-o', join(outDir, 'out.html')], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(1)
+      expect(result.stderr).toContain('--out-dir')
+    })
+
+    test('reads a profile from stdin', () => {
+      const outputPath = join(outDir, 'piped.html')
+      const result = spawnSync('node', [cliPath, '-', '-o', outputPath, '--out-dir', outDir], {
+        cwd: projectRoot,
+        encoding: 'utf8',
+        input: readFileSync(profilePath)
+      })
+
+      expect(result.status).toBe(0)
+      expect(result.stdout).toContain('Loaded profile from stdin')
+      expect(readFileSync(outputPath, 'utf8')).toContain('window.renderReactPprofFlameGraph')
+    })
+  })
+
+  test.describe('Serve Command', () => {
+    let profileDir: string
+    let server: ChildProcess
+    let baseUrl: string
+
+    test.beforeEach(async () => {
+      profileDir = mkdtempSync(join(tmpdir(), 'cli-serve-'))
+      copyFileSync(profilePath, join(profileDir, 'api.pprof'))
+
+      server = spawn('node', [cliPath, 'serve', profileDir, '--port', '0'], { cwd: projectRoot })
+      baseUrl = await new Promise<string>((resolve, reject) => {
+        let output = ''
+        server.stdout!.on('data', (chunk: Buffer) => {
+          output += chunk.toString()
+          const match = /http:\/\/\S+/.exec(output)
+          if (match) {
+            resolve(match[0])
+          }
+        })
+        server.on('exit', code => reject(new Error(`serve exited with ${code}`)))
+      })
+    })
+
+    test.afterEach(() => {
+      server.kill()
+      rmSync(profileDir, { recursive: true, force: true })
+    })
+
+    test('lists the profiles of the directory', async () => {
+      const html = await (await fetch(`${baseUrl}/`)).text()
+
+      expect(html).toContain('href="/view/api.pprof"')
+    })
+
+    test('renders a profile with the served bundle', async () => {
+      const response = await fetch(`${baseUrl}/view/api.pprof`)
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('<script src="/bundle.js"></script>')
+      expect(html).toContain('window.renderReactPprofFlameGraph')
+      expect((await fetch(`${baseUrl}/bundle.js`)).status).toBe(200)
+      expect((await fetch(`${baseUrl}/view/missing.pprof`)).status).toBe(404)
+    })
+
+    test('escapes file names in the page title', async () => {
+      const name = '<img src=x onerror=alert(1)>.pprof'
+      copyFileSync(profilePath, join(profileDir, name))
+
+      const html = await (await fetch(`${baseUrl}/view/${encodeURIComponent(name)}`)).text()
+
+      expect(html).toContain('<title>&lt;img src=x onerror=alert(1)&gt;.pprof</title>')
+      expect(html).not.toContain('<img')
+    })
+
+    test('pushes changed profiles over server-sent events', async () => {
+      const response = await fetch(`${baseUrl}/events`)
+      const reader = response.body!.getReader()
+      await reader.read()
+
+      copyFileSync(profilePath, join(profileDir, 'worker.pprof'))
+
+      let events = ''
+      while (!events.includes('data: "worker.pprof"')) {
+        const { value } = await reader.read()
+        events += new TextDecoder().decode(value)
+      }
+      await reader.cancel()
+
+      expect(events).toContain('event: change')
+    })
+  })
+
+  test.describe('Report Command', () => {
+    test('prints the top functions as a table', () => {
+      const result = spawnSync('node', [cliPath, 'report', profilePath, '--top', '3'], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      const lines = result.stdout.trim().split('\n')
+      expect(lines[0]).toMatch(/^Top 3 of \d+ functions by self time/)
+      expect(lines[2]).toContain('Self Time')
+      expect(lines).toHaveLength(6)
+    })
+
+    test('prints JSON', () => {
+      const result = spawnSync('node', [cliPath, 'report', profilePath, '--top', '3', '--format', 'json'], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      const report = JSON.parse(result.stdout)
+      expect(report.functions).toHaveLength(3)
+      expect(report.profileMetadata.profileType).toBe('cpu')
+    })
+
+    test('rejects unknown formats', () => {
+      const result = spawnSync('node', [cliPath, 'report', profilePath, '--format', 'xml'], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(1)
+      expect(result.stderr).toContain('Unknown report format')
+    })
+  })
+
+  test.describe('Check Command', () => {
+    let budgetPath: string
+
+    test.beforeEach(() => {
+      budgetPath = join(tmpdir(), `cli-budget-${Date.now()}.json`)
+    })
+
+    test.afterEach(() => {
+      rmSync(budgetPath, { force: true })
+    })
+
+    test('exits with 0 when the budgets are met', () => {
+      writeFileSync(budgetPath, JSON.stringify({ budgets: [{ function: '*', maxTotal: '100%' }] }))
+      const result = spawnSync('node', [cliPath, 'check', profilePath, '--budget', budgetPath], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(0)
+      expect(result.stdout).toContain('All 1 budgets met')
+    })
+
+    test('exits with 1 and prints the offending stacks when a budget is exceeded', () => {
+      writeFileSync(budgetPath, JSON.stringify([{ name: 'GC', function: 'Garbage Collection', maxSelf: '1ms' }]))
+      const result = spawnSync('node', [cliPath, 'check', profilePath, '--budget', budgetPath], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(1)
+      expect(result.stdout).toContain('FAIL GC')
+      expect(result.stdout).toContain('> Garbage Collection')
+    })
+
+    test('rejects limits in units of another profile type', () => {
+      writeFileSync(budgetPath, JSON.stringify([{ function: 'main', maxSelf: '20MB' }]))
+      const result = spawnSync('node', [cliPath, 'check', profilePath, '--budget', budgetPath], {
+        cwd: projectRoot,
+        encoding: 'utf8'
+      })
+
+      expect(result.status).toBe(1)
+      expect(result.stderr).toContain('does not fit a cpu profile')
+    })
+  })
 })
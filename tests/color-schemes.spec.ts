@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test'
+import type { FlameNode } from '../src/renderer/FlameDataProcessor.js'
+import { FlameGraphTestUtils } from './test-utils'
+
+const PRIMARY: [number, number, number] = [1, 0, 0]
+const SECONDARY: [number, number, number] = [0, 0, 1]
+
+function node(name: string, fileName: string | undefined, value: number, selfValue: number): FlameNode {
+  return {
+    id: name,
+    name,
+    fileName,
+    value,
+    selfValue,
+    sampleCount: 1,
+    selfSampleCount: selfValue > 0 ? 1 : 0,
+    children: [],
+    depth: 1,
+    x: 0,
+    width: 1,
+    selfWidth: value > 0 ? selfValue / value : 0
+  }
+}
+
+test.describe('Color Schemes', () => {
+  test('classifies frames by module with the app code filter helpers', async () => {
+    const { getModuleCategory } = await import('../src/renderer/colorSchemes.js')
+
+    expect(getModuleCategory('/app/server.js')).toBe('app')
+    expect(getModuleCategory('/app/node_modules/fastify/lib/route.js')).toBe('dependency')
+    expect(getModuleCategory('node:internal/timers')).toBe('nodeInternal')
+    expect(getModuleCategory(undefined)).toBe('native')
+  })
+
+  test('colors frames by module, function name hash and self time heat', async () => {
+    const { getFrameColorByScheme } = await import('../src/renderer/colorSchemes.js')
+    const { hexToRgb } = await import('../src/renderer/colors.js')
+    const { MODULE_COLORS } = await import('../src/renderer/constants.js')
+
+    const dependency = node('route', '/app/node_modules/fastify/lib/route.js', 10, 0)
+    expect(getFrameColorByScheme('module', dependency, PRIMARY, SECONDARY, 10, 0)).toEqual(hexToRgb(MODULE_COLORS.dependency))
+
+    // The same name gets the same color wherever it is, other names another one
+    const hash = (name: string, fileName?: string) => getFrameColorByScheme('hash', node(name, fileName, 1, 1), PRIMARY, SECONDARY, 1, 1)
+    expect(hash('JSON.parse', 'json.js')).toEqual(hash('JSON.parse'))
+    expect(hash('JSON.parse')).not.toEqual(hash('JSON.stringify'))
+
+    const heat = (selfValue: number) => getFrameColorByScheme('heat', node('f', undefined, 40, selfValue), PRIMARY, SECONDARY, 40, 40)
+    expect(heat(40)).toEqual(PRIMARY)
+    expect(heat(0)).toEqual(SECONDARY)
+    expect(heat(10)[0]).toBeCloseTo(0.5)
+  })
+
+  test('uses the color returned by a custom function', async () => {
+    const { getFrameColorByScheme } = await import('../src/renderer/colorSchemes.js')
+
+    const byFile = (frame: { fileName?: string }) => frame.fileName?.endsWith('.ts') ? '#00ff00' : '#333'
+    expect(getFrameColorByScheme(byFile, node('f', '/app/a.ts', 1, 1), PRIMARY, SECONDARY, 1, 1)).toEqual([0, 1, 0])
+    expect(getFrameColorByScheme(byFile, node('g', '/app/b.js', 1, 1), PRIMARY, SECONDARY, 1, 1)).toEqual([0.2, 0.2, 0.2])
+  })
+
+  test('describes built-in schemes in a legend', async () => {
+    const { getColorLegend } = await import('../src/renderer/colorSchemes.js')
+    const { MODULE_COLORS } = await import('../src/renderer/constants.js')
+
+    expect(getColorLegend('module', '#ff4444', '#ffcc66')).toEqual([
+      { label: 'App code', color: MODULE_COLORS.app },
+      { label: 'node_modules', color: MODULE_COLORS.dependency },
+      { label: 'Node.js internals', color: MODULE_COLORS.nodeInternal },
+      { label: 'No file', color: MODULE_COLORS.native }
+    ])
+    expect(getColorLegend('heat', '#ff4444', '#ffcc66').map(entry => entry.color)).toEqual(['#ff4444', '#ffcc66'])
+    expect(getColorLegend('hash', '#ff4444', '#ffcc66')).toEqual([])
+  })
+})
+
+test.describe('Color Legend Component', () => {
+  test('shows the legend of the module color scheme', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true, colorScheme: 'module' })
+
+    const legend = page.getByLabel('Color legend')
+    await expect(legend).toBeVisible()
+    await expect(legend).toContainText('Color: Module')
+    for (const label of ['App code', 'node_modules', 'Node.js internals', 'No file']) {
+      await expect(legend).toContainText(label)
+    }
+  })
+
+  test('shows the legend of the heat color scheme', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true, colorScheme: 'heat' })
+
+    const legend = page.getByLabel('Color legend')
+    await expect(legend).toContainText('Color: Self time')
+    await expect(legend).toContainText('Most self time')
+    await expect(legend).toContainText('No self time')
+  })
+
+  test('has no legend for the default color scheme', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true })
+
+    await expect(page.getByLabel('Color legend')).toHaveCount(0)
+  })
+})
@@ -0,0 +1,148 @@
+import { test, expect } from '@playwright/test'
+import { gzipSync } from 'zlib'
+
+function callFrame(functionName: string, lineNumber = 0) {
+  return { functionName, scriptId: '1', url: 'file:///app.js', lineNumber, columnNumber: 4 }
+}
+
+// (root) -> main -> query, (root) -> main -> render; times in microseconds
+const cpuProfile = {
+  nodes: [
+    { id: 1, callFrame: callFrame('(root)'), hitCount: 0, children: [2] },
+    { id: 2, callFrame: callFrame('main', 9), hitCount: 1, children: [3, 4] },
+    { id: 3, callFrame: callFrame('query', 19), hitCount: 2, children: [] },
+    { id: 4, callFrame: callFrame('', 29), hitCount: 1, children: [] }
+  ],
+  startTime: 1000,
+  endTime: 5000,
+  samples: [3, 3, 2, 4],
+  timeDeltas: [0, 1000, 1000, 1000]
+}
+
+const heapProfile = {
+  head: {
+    id: 1,
+    callFrame: callFrame('(root)'),
+    selfSize: 0,
+    children: [{
+      id: 2,
+      callFrame: callFrame('main', 9),
+      selfSize: 1024,
+      children: [{ id: 3, callFrame: callFrame('allocate', 19), selfSize: 4096, children: [] }]
+    }]
+  },
+  samples: [
+    { size: 1024, nodeId: 2, ordinal: 1 },
+    { size: 2048, nodeId: 3, ordinal: 2 },
+    { size: 2048, nodeId: 3, ordinal: 3 }
+  ]
+}
+
+test.describe('Profile converters', () => {
+  test('converts a .cpuprofile into a CPU flame tree', async () => {
+    const { convertCpuProfile } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { ProfileType } = await import('../src/renderer/ProfileMetadata.js')
+
+    const profile = convertCpuProfile(cpuProfile)
+    const { root, profileMetadata, nodes } = getFlameTree(profile)
+
+    expect(profileMetadata.profileType).toBe(ProfileType.CPU)
+    expect(profile.durationNanos).toBe(4000000)
+
+    // Each sample lasts until the next one, the last one until endTime
+    expect(root.value).toBe(4000000)
+    expect(nodes.get('root/main')?.value).toBe(4000000)
+    expect(nodes.get('root/main')?.selfValue).toBe(1000000)
+    expect(nodes.get('root/main/query')?.value).toBe(2000000)
+    expect(nodes.get('root/main/query')?.sampleCount).toBe(2)
+    expect(nodes.get('root/main/(anonymous)')?.value).toBe(1000000)
+
+    // V8 lines are 0-based
+    expect(nodes.get('root/main/query')?.fileName).toBe('file:///app.js')
+    expect(nodes.get('root/main/query')?.lineNumber).toBe(20)
+  })
+
+  test('falls back to hit counts when a .cpuprofile has no samples', async () => {
+    const { convertCpuProfile } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+
+    const { samples: _samples, timeDeltas: _timeDeltas, ...withoutSamples } = cpuProfile
+    const { root, nodes } = getFlameTree(convertCpuProfile(withoutSamples))
+
+    expect(root.value).toBe(4000000)
+    expect(nodes.get('root/main/query')?.value).toBe(2000000)
+  })
+
+  test('converts a .heapprofile into a heap flame tree', async () => {
+    const { convertHeapProfile } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { ProfileType } = await import('../src/renderer/ProfileMetadata.js')
+
+    const profile = convertHeapProfile(heapProfile)
+    const { root, profileMetadata, nodes } = getFlameTree(profile)
+
+    expect(profileMetadata.profileType).toBe(ProfileType.HEAP)
+    expect(root.value).toBe(5120)
+    expect(nodes.get('root/main')?.selfValue).toBe(1024)
+    expect(nodes.get('root/main/allocate')?.value).toBe(4096)
+
+    // The object counts come from the samples
+    const objects = getFlameTree(profile, { sampleTypeIndex: 0 })
+    expect(objects.nodes.get('root/main/allocate')?.value).toBe(2)
+  })
+
+  test('parseProfile detects JSON profiles, also when gzipped', async () => {
+    const { parseProfile, ProfileDecodeError } = await import('../src/parser.js')
+    const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value))
+
+    const cpu = await parseProfile(encode(cpuProfile))
+    const heap = await parseProfile(gzipSync(encode(heapProfile)))
+
+    expect(cpu.sample.length).toBe(4)
+    expect(heap.sample.length).toBe(2)
+    await expect(parseProfile(encode({ traceEvents: [] }))).rejects.toBeInstanceOf(ProfileDecodeError)
+  })
+
+  test('parses folded stacks with a configurable sample type', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { ProfileType } = await import('../src/renderer/ProfileMetadata.js')
+
+    const folded = [
+      '# collapsed by stackcollapse-perf.pl',
+      'main;query;parse 30',
+      'main;query 10',
+      '',
+      'main;render frame 5',
+      'idle 5'
+    ].join('\n')
+
+    const counts = getFlameTree(parseFoldedStacks(folded))
+    expect(counts.profileMetadata.profileType).toBe(ProfileType.UNKNOWN)
+    expect(counts.root.value).toBe(50)
+    expect(counts.nodes.get('root/main/query')?.value).toBe(40)
+    expect(counts.nodes.get('root/main/query')?.selfValue).toBe(10)
+    expect(counts.nodes.get('root/main/render frame')?.value).toBe(5)
+    expect(counts.nodes.get('root/idle')?.value).toBe(5)
+
+    const cpu = getFlameTree(parseFoldedStacks(folded, { sampleType: 'cpu', unit: 'milliseconds' }))
+    expect(cpu.profileMetadata.profileType).toBe(ProfileType.CPU)
+  })
+
+  test('rejects malformed folded stacks with the line number', async () => {
+    const { parseFoldedStacks, isFoldedStacks } = await import('../src/converters.js')
+
+    expect(isFoldedStacks('\n# comment\nmain;query 3')).toBe(true)
+    expect(isFoldedStacks('hello world')).toBe(false)
+    expect(() => parseFoldedStacks('main;query 3\nmain;query three')).toThrow('Invalid folded stack on line 2')
+  })
+
+  test('parseProfile detects folded stacks', async () => {
+    const { parseProfile } = await import('../src/parser.js')
+
+    const profile = await parseProfile(new TextEncoder().encode('main;query 3\r\nmain;render 1\r\n'))
+
+    expect(profile.sample.length).toBe(2)
+  })
+})
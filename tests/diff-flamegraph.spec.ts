@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test'
+import { createProfile } from './test-utils'
+
+const baseProfile = createProfile([
+  { stack: ['main', 'query'], count: 6 },
+  { stack: ['main', 'render'], count: 4 }
+])
+
+const targetProfile = createProfile([
+  { stack: ['main', 'query'], count: 2 },
+  { stack: ['main', 'render'], count: 4 },
+  { stack: ['main', 'cache'], count: 4 }
+])
+
+test.describe('Differential Flame Graph', () => {
+  test('annotates target frames with base values by frame path', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    const root = processor.processProfile(targetProfile, false, undefined, baseProfile)
+
+    expect(root.value).toBe(10000000)
+    expect(root.baseValue).toBe(10000000)
+
+    const query = processor.findFrameById('root/main/query')
+    expect(query?.value).toBe(2000000)
+    expect(query?.baseValue).toBe(6000000)
+
+    // Frames missing from the base profile are new
+    const cache = processor.findFrameById('root/main/cache')
+    expect(cache?.value).toBe(4000000)
+    expect(cache?.baseValue).toBe(0)
+  })
+
+  test('adds the frames that only exist in the base profile', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const base = createProfile([
+      { stack: ['main', 'query'], count: 6 },
+      { stack: ['main', 'legacy', 'parse'], count: 4 }
+    ])
+    const target = createProfile([
+      { stack: ['main', 'query'], count: 8 }
+    ])
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(target, false, undefined, base)
+
+    const legacy = processor.findFrameById('root/main/legacy')
+    expect(legacy?.value).toBe(0)
+    expect(legacy?.selfValue).toBe(0)
+    expect(legacy?.baseValue).toBe(4000000)
+    expect(legacy!.value - legacy!.baseValue!).toBeLessThan(0)
+
+    const parse = processor.findFrameById('root/main/legacy/parse')
+    expect(parse?.value).toBe(0)
+    expect(parse?.baseSelfValue).toBe(4000000)
+
+    // Frames keep the larger of their sizes, and children fit in their parent
+    const main = processor.findFrameById('root/main')!
+    const query = processor.findFrameById('root/main/query')!
+    expect(query.width).toBeCloseTo(8 / 12)
+    expect(legacy!.width).toBeCloseTo(4 / 12)
+    expect(legacy!.x).toBeCloseTo(query.x + query.width)
+    expect(query.width + legacy!.width).toBeCloseTo(main.width)
+  })
+
+  test('leaves base values unset without a base profile', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    const root = processor.processProfile(targetProfile)
+
+    expect(root.baseValue).toBeUndefined()
+    expect(processor.findFrameById('root/main/query')?.baseValue).toBeUndefined()
+  })
+
+  test('collapses the values of filtered frames into their callers in both profiles', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const files = { 'fastify.route': '/app/node_modules/fastify/lib/route.js' }
+    const base = createProfile([
+      { stack: ['main', 'fastify.route'], count: 6 },
+      { stack: ['main', 'render'], count: 4 },
+      { stack: ['main'], count: 1 }
+    ], { files })
+    const target = createProfile([
+      { stack: ['main', 'fastify.route'], count: 2 },
+      { stack: ['main', 'render'], count: 4 },
+      { stack: ['main'], count: 4 }
+    ], { files })
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(target, true, undefined, base)
+
+    const main = processor.findFrameById('root/main')
+    expect(main?.children.map(child => child.name)).toEqual(['render'])
+    expect(main?.value).toBe(10000000)
+    expect(main?.selfValue).toBe(6000000)
+    expect(main?.baseValue).toBe(11000000)
+    expect(main?.baseSelfValue).toBe(7000000)
+
+    const render = processor.findFrameById('root/main/render')
+    expect(render?.selfValue).toBe(4000000)
+    expect(render?.baseSelfValue).toBe(4000000)
+  })
+
+  test('diff ratio reflects growth and shrinkage of profile share', async () => {
+    const { getDiffRatio } = await import('../src/renderer/colors.js')
+
+    expect(getDiffRatio(2, 10, 6, 10)).toBeCloseTo(-2 / 3)
+    expect(getDiffRatio(4, 10, 0, 10)).toBe(1)
+    expect(getDiffRatio(4, 10, 4, 10)).toBe(0)
+
+    // Shares are compared, so a longer profile with the same share is unchanged
+    expect(getDiffRatio(8, 20, 4, 10)).toBe(0)
+  })
+
+  test('formats signed deltas', async () => {
+    const { formatDelta, formatRelativeDelta } = await import('../src/renderer/formatters.js')
+    const { detectProfileMetadata } = await import('../src/renderer/ProfileMetadata.js')
+
+    const metadata = detectProfileMetadata(targetProfile)
+
+    expect(formatDelta(2000000, metadata)).toBe('+2.00ms')
+    expect(formatDelta(-4000000, metadata)).toBe('-4.00ms')
+    expect(formatRelativeDelta(2, 6)).toBe('-66.67%')
+    expect(formatRelativeDelta(4, 0)).toBe('new')
+  })
+})
@@ -1,9 +1,15 @@
 import { test, expect } from '@playwright/test'
 import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
+import { gunzipSync, gzipSync } from 'zlib'
 
 const __dirname = import.meta.dirname
 
+function decodeEmbeddedProfile(script: string): Buffer {
+  const base64 = script.match(/profileBase64: '([^']*)'/)![1]
+  return gunzipSync(Buffer.from(base64, 'base64'))
+}
+
 // These tests validate the embeddable API functions that are exported from the package
 // They test both the Node.js API and the browser integration
 
@@ -102,8 +108,8 @@ test.describe('Embeddable API', () => {
 
       // Should call renderReactPprofFlameGraph
       expect(result.script).toContain('window.renderReactPprofFlameGraph')
-      // Should create Uint8Array with profile data
-      expect(result.script).toContain('new Uint8Array([')
+      // Should embed the profile data as base64
+      expect(result.script).toContain("profileBase64: '")
       // Should be wrapped in IIFE
       expect(result.script).toContain('(function()')
       // Should check for bundle availability
@@ -163,6 +169,24 @@ test.describe('Embeddable API', () => {
       expect(result.script).toContain('"#ff4444"')
       // Default secondaryColor is '#ffcc66'
       expect(result.script).toContain('"#ffcc66"')
+      // Default theme is dark
+      expect(result.script).toContain('theme: "dark"')
+      expect(result.html).toContain('background-color: #1e1e1e')
+    })
+
+    test('takes the container and default colors from the theme', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+      const { lightTheme } = await import('../src/renderer/themes.js')
+
+      const result = await generateEmbeddableFlameGraph(profileData, {
+        theme: 'light',
+        secondaryColor: '#ff00ff'
+      })
+
+      expect(result.script).toContain('theme: "light"')
+      expect(result.script).toContain(`primaryColor: "${lightTheme.primaryColor}"`)
+      expect(result.script).toContain('secondaryColor: "#ff00ff"')
+      expect(result.html).toContain(`background-color: ${lightTheme.backgroundColor}; color: ${lightTheme.textColor};`)
     })
 
     test('generates unique container IDs for multiple instances', async () => {
@@ -202,7 +226,7 @@ test.describe('Embeddable API', () => {
       expect(result.html).toBeDefined()
       expect(result.script).toBeDefined()
       // Should still generate valid structure even with empty data
-      expect(result.script).toContain('new Uint8Array([])')
+      expect(result.script).toContain("profileBase64: ''")
     })
 
     test('handles small profile data', async () => {
@@ -212,7 +236,52 @@ test.describe('Embeddable API', () => {
       const result = await generateEmbeddableFlameGraph(smallBuffer)
 
       expect(result).toBeDefined()
-      expect(result.script).toContain('new Uint8Array([1,2,3,4,5])')
+      expect(Array.from(decodeEmbeddedProfile(result.script))).toEqual([1, 2, 3, 4, 5])
+    })
+
+    test('embeds gzipped base64 that is much smaller than the profile', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+
+      const result = await generateEmbeddableFlameGraph(profileData)
+
+      const base64 = result.script.match(/profileBase64: '([^']*)'/)![1]
+      expect(base64.length).toBeLessThan(profileData.length)
+      expect(Buffer.compare(decodeEmbeddedProfile(result.script), profileData)).toBe(0)
+    })
+
+    test('embeds gzipped profiles without compressing them again', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+
+      const gzipped = gzipSync(profileData)
+      const result = await generateEmbeddableFlameGraph(gzipped)
+
+      const base64 = result.script.match(/profileBase64: '([^']*)'/)![1]
+      expect(Buffer.compare(Buffer.from(base64, 'base64'), gzipped)).toBe(0)
+    })
+
+    test('references a profile URL instead of embedding the data', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+
+      const result = await generateEmbeddableFlameGraph(null, { profileUrl: '/profiles/cpu.pb.gz' })
+
+      expect(result.script).toContain('profileUrl: "/profiles/cpu.pb.gz"')
+      expect(result.script).not.toContain('profileBase64')
+      expect(() => {
+        new Function(result.script)
+      }).not.toThrow()
+    })
+
+    test('converts folded stacks to embedded pprof data', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+      const { Profile } = await import('pprof-format')
+
+      const folded = Buffer.from('main;query 3\nmain;render 1\n')
+      const result = await generateEmbeddableFlameGraph(folded, { folded: { sampleType: 'cpu', unit: 'nanoseconds' } })
+
+      const profile = Profile.decode(decodeEmbeddedProfile(result.script))
+      expect(profile.sample.length).toBe(2)
+      expect(profile.stringTable.strings).toContain('query')
+      expect(profile.stringTable.strings).toContain('cpu')
     })
 
     test('properly escapes special characters in options', async () => {
@@ -227,6 +296,70 @@ test.describe('Embeddable API', () => {
       expect(result.script).toContain('\\"with\\"')
       expect(result.script).toContain("test's-file.pb")
     })
+
+    test('does not let options close the script element', async () => {
+      const { generateEmbeddableFlameGraph } = await import('../src/embeddable.js')
+
+      const result = await generateEmbeddableFlameGraph(profileData, {
+        title: '</script><img src=x onerror=alert(1)>',
+        filename: '<!--profile.pb'
+      })
+
+      expect(result.script).not.toContain('</script')
+      expect(result.script).not.toContain('<img')
+      expect(result.script).not.toContain('<!--')
+      expect(result.script).toContain('\\u003c/script>\\u003cimg src=x onerror=alert(1)>')
+    })
+  })
+
+  test.describe('renderStaticFlameGraph()', () => {
+    const folded = Buffer.from('main;query 30\nmain;render<List> 10\nmain;gc 1\n')
+
+    test('draws the graph as SVG inside the container', async () => {
+      const { renderStaticFlameGraph } = await import('../src/embeddable.js')
+
+      const result = await renderStaticFlameGraph(folded, {
+        title: 'Static <Profile>',
+        width: 400,
+        folded: { sampleType: 'cpu', unit: 'nanoseconds' }
+      })
+
+      // One row per depth, as high as the rows of the FlameGraph component
+      expect(result.svg).toContain('width="400" height="63" viewBox="0 0 400 63"')
+      expect(result.svg).toContain('<title>render&lt;List&gt;</title>')
+      expect(result.svg).toContain('>query</text>')
+      expect(result.html).toContain(result.svg)
+      expect(result.html).toContain('Static &lt;Profile&gt;')
+      expect(result.html).not.toContain('Loading profile')
+    })
+
+    test('lists the hottest functions below the graph', async () => {
+      const { renderStaticFlameGraph } = await import('../src/embeddable.js')
+
+      const result = await renderStaticFlameGraph(folded, {
+        topFunctions: 2,
+        folded: { sampleType: 'cpu', unit: 'nanoseconds' }
+      })
+
+      const rows = result.html.match(/<tr>[\s\S]*?<\/tr>/g)!
+      expect(rows.length).toBe(3)
+      expect(rows[0]).toContain('Self Time')
+      expect(rows[1]).toContain('73.17%')
+      expect(rows[1]).toContain('>query</td>')
+      expect(rows[2]).toContain('>render&lt;List&gt;</td>')
+    })
+
+    test('renders the interactive graph into the snapshot container', async () => {
+      const { renderStaticFlameGraph } = await import('../src/embeddable.js')
+
+      const profileData = readFileSync(join(__dirname, 'fixtures', 'profile.pprof'))
+      const result = await renderStaticFlameGraph(profileData, { profileUrl: '/profile.pb.gz' })
+
+      const rootId = result.html.match(/id="(react-pprof-[a-z0-9]+-root)"/)![1]
+      expect(result.script).toContain(`window.renderReactPprofFlameGraph('${rootId}'`)
+      expect(result.script).toContain('profileUrl: "/profile.pb.gz"')
+      expect(result.html).toContain('<svg')
+    })
   })
 
   test.describe('Browser Integration', () => {
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test'
+
+const options = {
+  width: 400,
+  height: 60,
+  backgroundColor: [0.12, 0.12, 0.12] as [number, number, number],
+  fontSize: 11,
+  fontFamily: '"Segoe UI", sans-serif',
+  textColor: '#ffffff',
+  shadowOpacity: 0.3
+}
+
+function frame(name: string, x1: number, x2: number, y1: number, overrides: Record<string, unknown> = {}) {
+  return {
+    node: { id: `root/${name}`, name, inlined: false },
+    x1,
+    x2,
+    y1,
+    y2: y1 + 20,
+    color: [1, 0.5, 0] as [number, number, number],
+    opacity: 0.75,
+    searchMatch: false,
+    label: null,
+    ...overrides
+  } as any
+}
+
+test.describe('Flame Graph SVG Export', () => {
+  test('draws inset frames with their colors and labels', async () => {
+    const { renderFlameGraphSvg } = await import('../src/renderer/svg.js')
+
+    const svg = renderFlameGraphSvg([
+      frame('main', 0, 400, 0, { label: { text: 'main', x: 5, y: 4.5, maxWidth: 390 } }),
+      frame('query', 0, 200, 20)
+    ], { ...options, scale: 2 })
+
+    expect(svg).toContain('width="800" height="120" viewBox="0 0 400 60"')
+    expect(svg).toContain('<rect x="0.5" y="0.5" width="399" height="19" fill="#ff8000" fill-opacity="0.75"><title>main</title></rect>')
+    expect(svg).toContain('<rect x="0.5" y="20.5" width="199" height="19"')
+    expect(svg).toContain('font-family="&quot;Segoe UI&quot;, sans-serif"')
+    expect(svg).toContain('<text x="6" y="14.3" fill="#000000"')
+    expect(svg).toContain('<text x="5" y="13.3" fill-opacity="0.75">main</text>')
+  })
+
+  test('outlines search matches and marks inlined frames', async () => {
+    const { renderFlameGraphSvg } = await import('../src/renderer/svg.js')
+
+    const svg = renderFlameGraphSvg([
+      frame('match', 0, 100, 0, { searchMatch: true }),
+      frame('inlined', 100, 200, 0, { node: { id: 'root/inlined', name: 'inlined', inlined: true } })
+    ], options)
+
+    expect(svg).toContain('<rect x="0.75" y="0.75" width="98.5" height="18.5" fill="none" stroke="#ffffff" stroke-width="1.5"/>')
+    expect(svg).toContain('<rect x="100.5" y="0.5" width="3" height="19" fill="#ffffff" fill-opacity="0.45"/>')
+  })
+
+  test('escapes frame names', async () => {
+    const { renderFlameGraphSvg } = await import('../src/renderer/svg.js')
+
+    const svg = renderFlameGraphSvg([
+      frame('Map<K, V>::get & "set"', 0, 400, 0, { label: { text: 'Map<K, V>', x: 5, y: 4.5, maxWidth: 390 } })
+    ], { ...options, shadowOpacity: 0 })
+
+    expect(svg).toContain('<title>Map&lt;K, V&gt;::get &amp; &quot;set&quot;</title>')
+    expect(svg).toContain('>Map&lt;K, V&gt;</text>')
+    expect(svg).not.toContain('fill="#000000"')
+  })
+})
@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test'
+import { Profile } from 'pprof-format'
+
+const folded = [
+  'main;handler;query 30',
+  'main;handler;render 20',
+  'main;handler 5',
+  'main;gc 10'
+].join('\n')
+
+test.describe('Flame Tree Export', () => {
+  test('writes the whole tree as folded stacks', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { exportFlameTree } = await import('../src/utils/exportFlameTree.js')
+
+    const { root } = getFlameTree(parseFoldedStacks(folded))
+    const lines = exportFlameTree(root, 'folded').trim().split('\n').sort()
+
+    expect(lines).toEqual([
+      'main;gc 10',
+      'main;handler 5',
+      'main;handler;query 30',
+      'main;handler;render 20'
+    ])
+  })
+
+  test('keeps the callers of a zoomed-in frame', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { exportFlameTree } = await import('../src/utils/exportFlameTree.js')
+
+    const { nodes } = getFlameTree(parseFoldedStacks(folded))
+    const handler = nodes.get('root/main/handler')!
+    const lines = exportFlameTree(handler, 'folded').trim().split('\n').sort()
+
+    expect(lines).toEqual(['main;handler 5', 'main;handler;query 30', 'main;handler;render 20'])
+
+    const json = JSON.parse(exportFlameTree(handler, 'json'))
+    expect(json.path).toEqual(['main'])
+    expect(json.root.name).toBe('handler')
+    expect(json.root.value).toBe(55)
+    expect(json.root.children.map((child: { name: string }) => child.name).sort()).toEqual(['query', 'render'])
+  })
+
+  test('re-encodes a subtree as pprof with the sample type of the profile', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { exportFlameTree } = await import('../src/utils/exportFlameTree.js')
+    const { ProfileType } = await import('../src/renderer/ProfileMetadata.js')
+
+    const source = getFlameTree(parseFoldedStacks(folded, { sampleType: 'cpu', unit: 'nanoseconds' }))
+    const handler = source.nodes.get('root/main/handler')!
+
+    const exported = Profile.decode(exportFlameTree(handler, 'pprof', source.profileMetadata))
+    const { root, profileMetadata, nodes } = getFlameTree(exported)
+
+    expect(profileMetadata.profileType).toBe(ProfileType.CPU)
+    expect(root.value).toBe(55)
+    expect(nodes.get('root/main/handler/query')?.value).toBe(30)
+    expect(nodes.get('root/main/handler')?.selfValue).toBe(5)
+    expect(nodes.has('root/main/gc')).toBe(false)
+  })
+})
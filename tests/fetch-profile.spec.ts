@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test'
+import { createServer, Server, IncomingMessage } from 'http'
+import { AddressInfo } from 'net'
+import { gzipSync } from 'zlib'
+import { createProfileWithFunctions } from './test-utils'
+
+const encoded = Buffer.from(createProfileWithFunctions(500).encode())
+
+let server: Server
+let baseUrl: string
+let lastRequest: IncomingMessage | null = null
+
+test.beforeAll(async () => {
+  server = createServer((request, response) => {
+    lastRequest = request
+
+    if (request.url === '/profile.pb') {
+      response.writeHead(200, { 'content-type': 'application/octet-stream', 'content-length': encoded.length })
+      // Send the profile in two chunks so progress is reported more than once
+      response.write(encoded.subarray(0, 1000))
+      setTimeout(() => response.end(encoded.subarray(1000)), 20)
+    } else if (request.url === '/profile.pb.gz') {
+      response.end(gzipSync(encoded))
+    } else if (request.url === '/slow.pb') {
+      // Never answers, so the request can only end by being aborted
+    } else if (request.url === '/garbage.pb') {
+      response.end(Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff]))
+    } else {
+      response.writeHead(403, 'Forbidden')
+      response.end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+test.afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+test.describe('fetchProfile options and errors', () => {
+  test('sends headers and reports download progress', async () => {
+    const { fetchProfile } = await import('../src/parser.js')
+    const progress: Array<{ loaded: number, total?: number }> = []
+
+    const profile = await fetchProfile(`${baseUrl}/profile.pb`, {
+      headers: { Authorization: 'Bearer secret' },
+      onProgress: p => progress.push(p)
+    })
+
+    expect(profile.sample.length).toBe(500)
+    expect(lastRequest?.headers.authorization).toBe('Bearer secret')
+    expect(progress.length).toBeGreaterThan(2)
+    expect(progress[0]).toEqual({ loaded: 0, total: encoded.length })
+    expect(progress[progress.length - 1]).toEqual({ loaded: encoded.length, total: encoded.length })
+  })
+
+  test('inflates gzipped downloads', async () => {
+    const { fetchProfile } = await import('../src/parser.js')
+
+    const profile = await fetchProfile(`${baseUrl}/profile.pb.gz`)
+
+    expect(profile.sample.length).toBe(500)
+  })
+
+  test('rejects with ProfileHttpError on error statuses', async () => {
+    const { fetchProfile, ProfileHttpError } = await import('../src/parser.js')
+
+    const error = await fetchProfile(`${baseUrl}/missing.pb`).catch(error => error)
+
+    expect(error).toBeInstanceOf(ProfileHttpError)
+    expect(error.status).toBe(403)
+    expect(error.message).toBe('Failed to fetch profile: 403 Forbidden')
+  })
+
+  test('rejects with ProfileNetworkError when the server cannot be reached', async () => {
+    const { fetchProfile, ProfileNetworkError } = await import('../src/parser.js')
+
+    const error = await fetchProfile('http://127.0.0.1:1/profile.pb').catch(error => error)
+
+    expect(error).toBeInstanceOf(ProfileNetworkError)
+    expect(error.url).toBe('http://127.0.0.1:1/profile.pb')
+  })
+
+  test('rejects with ProfileDecodeError for data that is not a profile', async () => {
+    const { fetchProfile, ProfileDecodeError } = await import('../src/parser.js')
+
+    await expect(fetchProfile(`${baseUrl}/garbage.pb`)).rejects.toBeInstanceOf(ProfileDecodeError)
+  })
+
+  test('rejects with the AbortError when the signal is aborted', async () => {
+    const { fetchProfile, ProfileNetworkError } = await import('../src/parser.js')
+    const controller = new AbortController()
+
+    const pending = fetchProfile(`${baseUrl}/slow.pb`, { signal: controller.signal }).catch(error => error)
+    setTimeout(() => controller.abort(), 50)
+    const error = await pending
+
+    expect(error.name).toBe('AbortError')
+    expect(error).not.toBeInstanceOf(ProfileNetworkError)
+  })
+})
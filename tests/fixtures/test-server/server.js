@@ -61,6 +61,9 @@ app.use(webpackDevMiddleware(compiler, {
 
 // No longer serving static files - handled by static-server.js
 
+// The built package, to start the bundled profile worker as published
+app.use('/dist', express.static(path.resolve(__dirname, '../../../dist')))
+
 // Serve the test HTML page
 app.get('/', (_req, res) => {
   res.sendFile(path.join(__dirname, 'test-page.html'))
@@ -6,8 +6,9 @@ import { FlameGraphTooltip } from '../../../src/components/FlameGraphTooltip'
 import { HottestFramesBar } from '../../../src/components/HottestFramesBar'
 import { HottestFramesControls } from '../../../src/components/HottestFramesControls'
 import { FrameDetails } from '../../../src/components/FrameDetails'
-import { FullFlameGraph } from '../../../src/components/FullFlameGraph'
-import { FlameNode, FrameData, FlameDataProcessor, detectProfileMetadata } from '../../../src/renderer'
+import { FullFlameGraph, FullFlameGraphProps } from '../../../src/components/FullFlameGraph'
+import { ThemeProvider } from '../../../src/components/ThemeProvider'
+import { FlameNode, FrameData, FlameDataProcessor, ColorSchemeName, ThemeName, detectProfileMetadata } from '../../../src/renderer'
 import { fetchProfile } from '../../../src/parser'
 import { generateMockProfile, generateMockHeapProfile, generateMockProfileWithBigIntValues } from '../mock-data'
 
@@ -17,6 +18,7 @@ declare global {
     fetchProfile: typeof fetchProfile
     FlameGraphTooltip: typeof FlameGraphTooltip
     waitForAnimationComplete: () => Promise<void>
+    setFullFlameGraphProps: (props: Partial<FullFlameGraphProps>) => void
   }
 }
 window.fetchProfile = fetchProfile
@@ -36,6 +38,9 @@ const TestApp: React.FC = () => {
   const [selectedFrame, setSelectedFrame] = useState<any | null>(null)
   const [stackTrace, setStackTrace] = useState<FlameNode[]>([])
   const [children, setChildren] = useState<FlameNode[]>([])
+  // Lets tests re-render FullFlameGraph with other props
+  const [fullFlameGraphProps, setFullFlameGraphProps] = useState<Partial<FullFlameGraphProps>>({})
+  window.setFullFlameGraphProps = setFullFlameGraphProps
 
   const handleFrameClick = (frame: any, stack: FlameNode[], frameChildren: FlameNode[]) => {
     setSelectedFrame(frame)
@@ -62,11 +67,15 @@ const TestApp: React.FC = () => {
   const showHottestControls = params.get('hottestControls') === 'true'
   const showFrameDetails = params.get('frameDetails') === 'true'
   const showFullFlameGraph = params.get('fullFlameGraph') === 'true'
+  const showFunctionTable = params.get('functionTable') === 'true'
+  const showSandwichView = params.get('sandwichView') === 'true'
+  const colorScheme = (params.get('colorScheme') || 'ratio') as ColorSchemeName
   const showFlameGraph = params.get('flamegraph') !== 'false' && !showFullFlameGraph // Default to true, but not if showing full
   const hottestHeight = params.get('hottestHeight') ? parseInt(params.get('hottestHeight')!) : 10
   const prePopulateStackDetails = params.get('prePopulateStackDetails') === 'true'
   const useHeapProfile = params.get('heapProfile') === 'true'
   const useBigIntProfile = params.get('bigIntProfile') === 'true'
+  const themeName = params.get('theme')
 
   // Generate consistent mock profile for testing
   const testProfile = useMemo(() => {
@@ -247,11 +256,18 @@ const TestApp: React.FC = () => {
           <FullFlameGraph
             profile={config.profile}
             height={600}
-            primaryColor={config.primaryColor}
-            secondaryColor={config.secondaryColor}
-            backgroundColor={config.backgroundColor}
-            textColor={config.textColor}
+            // Colors come from the theme when one is asked for
+            {...(themeName ? {} : {
+              primaryColor: config.primaryColor,
+              secondaryColor: config.secondaryColor,
+              backgroundColor: config.backgroundColor,
+              textColor: config.textColor,
+            })}
             fontFamily={config.fontFamily}
+            showFunctionTable={showFunctionTable}
+            showSandwichView={showSandwichView}
+            colorScheme={colorScheme}
+            {...fullFlameGraphProps}
           />
         </div>
       )}
@@ -305,5 +321,13 @@ const TestApp: React.FC = () => {
 const container = document.getElementById('root')
 if (container) {
   const root = ReactDOM.createRoot(container)
-  root.render(<TestApp />)
+  // The screenshots are dark; 'system' follows prefers-color-scheme, as without a ThemeProvider
+  const theme = new URLSearchParams(window.location.search).get('theme') || 'dark'
+  root.render(theme === 'system'
+    ? <TestApp />
+    : (
+      <ThemeProvider theme={theme as ThemeName}>
+        <TestApp />
+      </ThemeProvider>
+    ))
 }
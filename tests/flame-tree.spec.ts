@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test'
+import { createProfile } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'handler', 'fastify.route', 'db.query'], count: 3 },
+  { stack: ['main', 'handler', 'render'], count: 2 },
+  { stack: ['main', 'gc'], count: 1 }
+], {
+  files: { 'fastify.route': '/app/node_modules/fastify/lib/route.js' },
+  sampleCounts: true
+})
+
+test.describe('Shared Flame Tree', () => {
+  test('returns the same tree for the same profile and options', async () => {
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+
+    const tree = getFlameTree(profile)
+
+    expect(getFlameTree(profile, {})).toBe(tree)
+    // The default sample type is resolved, so naming it explicitly shares the tree
+    expect(getFlameTree(profile, { sampleTypeIndex: tree.profileMetadata.sampleTypeIndex })).toBe(tree)
+    expect(tree.profileMetadata.sampleTypeIndex).toBe(1)
+
+    expect(getFlameTree(profile, { sampleTypeIndex: 0 })).not.toBe(tree)
+    expect(getFlameTree(profile, { showAppCodeOnly: true })).not.toBe(tree)
+    expect(getFlameTree(profile, { inverted: true })).not.toBe(tree)
+    expect(getFlameTree(createProfile([{ stack: ['main'], count: 1 }]))).not.toBe(tree)
+  })
+
+  test('matches the tree the renderer builds from the profile', async () => {
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const tree = getFlameTree(profile, { showAppCodeOnly: true })
+    const root = new FlameDataProcessor().processProfile(profile, true)
+
+    const ids = (node: typeof root): string[] => [node.id, ...node.children.flatMap(ids)]
+    expect([...tree.nodes.keys()].sort()).toEqual(ids(root).sort())
+    expect(tree.root.value).toBe(root.value)
+  })
+
+  test('hottest frames use the node IDs of the displayed tree', async () => {
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { getFramesBySelfTime } = await import('../src/components/HottestFramesBar.js')
+
+    const tree = getFlameTree(profile, { showAppCodeOnly: true })
+    const frames = getFramesBySelfTime(tree.root)
+
+    expect(frames.length).toBe(tree.nodes.size - 1)
+    for (const { nodeId } of frames) {
+      expect(tree.nodes.has(nodeId)).toBe(true)
+    }
+    // The filtered fastify.route frame counts as self time of its caller
+    expect(frames[0].frame.name).toBe('handler')
+    expect(frames[0].selfTime).toBe(3000000)
+    expect(frames[1].frame.name).toBe('render')
+  })
+
+  test('links parents within the filtered tree', async () => {
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+
+    const tree = getFlameTree(profile, { showAppCodeOnly: true })
+
+    for (const node of tree.nodes.values()) {
+      if (node.id === 'root') {
+        continue
+      }
+      expect(node.parent).toBeDefined()
+      expect(tree.nodes.get(node.parent!.id)).toBe(node.parent)
+      expect(node.parent!.children).toContain(node)
+    }
+  })
+})
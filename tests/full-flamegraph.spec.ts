@@ -402,4 +402,35 @@ test.describe('FullFlameGraph Component', () => {
       expect(result).toBe(true)
     })
   })
-})
\ No newline at end of file
+
+  test.describe('Props', () => {
+    test('follows a sampleTypeIndex prop that changes', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true })
+
+      // The first non-count sample type is the default
+      const selector = page.getByLabel('Sample type')
+      await expect(selector).toHaveValue('1')
+
+      await page.evaluate(() => window.setFullFlameGraphProps({ sampleTypeIndex: 0 }))
+      await expect(selector).toHaveValue('0')
+
+      await page.evaluate(() => window.setFullFlameGraphProps({ sampleTypeIndex: 1 }))
+      await expect(selector).toHaveValue('1')
+    })
+
+    test('follows an inverted prop that changes', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true })
+
+      const toggle = page.getByLabel('Invert Stacks')
+      await expect(toggle).not.toBeChecked()
+
+      await page.evaluate(() => window.setFullFlameGraphProps({ inverted: true }))
+      await expect(toggle).toBeChecked()
+
+      await page.evaluate(() => window.setFullFlameGraphProps({ inverted: false }))
+      await expect(toggle).not.toBeChecked()
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test'
+import { createProfile, FlameGraphTestUtils } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'getUser', 'db.query'], count: 2 },
+  { stack: ['main', 'listOrders', 'db.query'], count: 3 },
+  { stack: ['main', 'listOrders'], count: 1 },
+  { stack: ['main', 'walk', 'walk', 'walk'], count: 4 }
+])
+
+test.describe('Function Table', () => {
+  test('aggregates self and total values per function', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { aggregateFunctions } = await import('../src/utils/functionStats.js')
+
+    const root = new FlameDataProcessor().processProfile(profile)
+    const functions = aggregateFunctions(root)
+    const query = functions.find(entry => entry.name === 'db.query')!
+
+    expect(query.selfValue).toBe(5000000)
+    expect(query.totalValue).toBe(5000000)
+    expect(query.sampleCount).toBe(5)
+    expect(query.frameCount).toBe(2)
+    expect(query.percentage).toBeCloseTo(0.5)
+    expect(query.heaviestNode.id).toBe('root/main/listOrders/db.query')
+
+    // The root frame is not a function
+    expect(functions.some(entry => entry.heaviestNode.id === 'root')).toBe(false)
+
+    // Sorted by self value
+    expect(functions.slice(0, 3).map(entry => entry.name)).toEqual(['db.query', 'walk', 'listOrders'])
+  })
+
+  test('counts recursive calls once in the total', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { aggregateFunctions } = await import('../src/utils/functionStats.js')
+
+    const root = new FlameDataProcessor().processProfile(profile)
+    const walk = aggregateFunctions(root).find(entry => entry.name === 'walk')!
+
+    expect(walk.frameCount).toBe(3)
+    expect(walk.selfValue).toBe(4000000)
+    expect(walk.totalValue).toBe(4000000)
+    expect(walk.sampleCount).toBe(4)
+    expect(walk.heaviestNode.id).toBe('root/main/walk')
+  })
+
+  test('keeps functions with the same name in different files apart', async () => {
+    const { getFunctionKey } = await import('../src/utils/functionStats.js')
+
+    expect(getFunctionKey('handler', 'a.js', 1)).not.toBe(getFunctionKey('handler', 'b.js', 1))
+    expect(getFunctionKey('handler', 'a.js', 1)).not.toBe(getFunctionKey('handler', 'a.js', 2))
+    expect(getFunctionKey('handler', 'a.js', 1)).toBe(getFunctionKey('handler', 'a.js', 1))
+  })
+})
+
+test.describe('Function Table Component', () => {
+  test('selects the frame of a clicked row', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true, functionTable: true })
+
+    const table = page.locator('[data-testid="function-table"]')
+    await expect(table).toBeVisible()
+    await expect(table.locator('tr[aria-selected="true"]')).toHaveCount(0)
+
+    const row = table.locator('tr', { hasText: 'db.Query' })
+    await row.click()
+
+    await expect(row).toHaveAttribute('aria-selected', 'true')
+    await expect(table.locator('tr[aria-selected="true"]')).toHaveCount(1)
+    await expect(page.locator('.stack-details-header')).toContainText('db.Query')
+
+    await table.locator('tr', { hasText: 'json.Marshal' }).click()
+    await expect(row).toHaveAttribute('aria-selected', 'false')
+    await expect(page.locator('.stack-details-header')).toContainText('json.Marshal')
+  })
+})
@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test'
+import { gzipSync } from 'zlib'
+import { createProfileWithFunctions } from './test-utils'
+
+const profile = createProfileWithFunctions(200)
+const encoded = profile.encode()
+
+test.describe('Gzipped profiles', () => {
+  test('parseProfile accepts plain and gzipped payloads', async () => {
+    const { parseProfile } = await import('../src/parser.js')
+
+    const plain = await parseProfile(encoded)
+    const gzipped = await parseProfile(gzipSync(encoded))
+
+    expect(plain.sample.length).toBe(200)
+    expect(gzipped.sample.length).toBe(200)
+    expect(gzipped.stringTable.strings).toEqual(plain.stringTable.strings)
+  })
+
+  test('rejects gzipped payloads with ProfileDecodeError without DecompressionStream', async () => {
+    const { parseProfile, ProfileDecodeError } = await import('../src/parser.js')
+
+    const { DecompressionStream } = globalThis
+    // Simulates a platform without DecompressionStream
+    Reflect.deleteProperty(globalThis, 'DecompressionStream')
+    try {
+      const error = await parseProfile(gzipSync(encoded)).catch(error => error)
+      expect(error).toBeInstanceOf(ProfileDecodeError)
+      expect(error.message).toContain('gzip is not supported in this runtime')
+
+      // Plain payloads don't need it
+      expect((await parseProfile(encoded)).sample.length).toBe(200)
+    } finally {
+      globalThis.DecompressionStream = DecompressionStream
+    }
+  })
+
+  test('rejects payloads that are neither gzip nor pprof with ProfileDecodeError', async () => {
+    const { parseProfile, ProfileDecodeError } = await import('../src/parser.js')
+
+    const garbage = new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+    await expect(parseProfile(garbage)).rejects.toBeInstanceOf(ProfileDecodeError)
+
+    const truncated = gzipSync(encoded).subarray(0, 40)
+    const error = await parseProfile(truncated).catch(error => error)
+    expect(error).toBeInstanceOf(ProfileDecodeError)
+    expect(error.message).toContain('Failed to decompress gzipped profile')
+  })
+})
@@ -92,6 +92,24 @@ test.describe('Heap Profile Support', () => {
     }
   })
 
+  test('full flamegraph offers sample type selector for heap profile', async ({ page }) => {
+    await utils.navigateToTest({ heapProfile: true, fullFlameGraph: true })
+
+    const selector = page.locator('select[aria-label="Sample type"]')
+    await expect(selector).toBeVisible()
+
+    // Heap profiles carry both objects and space sample types
+    const options = await selector.locator('option').allTextContents()
+    expect(options).toEqual(['objects (count)', 'space (bytes)'])
+    await expect(selector).toHaveValue('1')
+
+    // Switching to the object count must keep the graph rendered
+    await selector.selectOption('0')
+    await expect(selector).toHaveValue('0')
+    const canvas = await utils.getCanvasElement()
+    await expect(canvas).toBeVisible()
+  })
+
   test('tooltip shows heap allocation information', async ({ page }) => {
     await utils.navigateToTest({ heapProfile: true })
 
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test'
+import { createProfile } from './test-utils'
+
+// Locations are listed root first; within one, 'decode' and 'readByte' were inlined into 'handle'
+const profile = createProfile([
+  { stack: [['main'], ['readByte', 'decode', 'handle']], count: 3 },
+  { stack: [['main'], ['handle']], count: 1 }
+])
+
+test.describe('Inlined Frames', () => {
+  test('expands every line of a location into its own frame', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile)
+
+    const handle = processor.findFrameById('root/main/handle')!
+    const decode = processor.findFrameById('root/main/handle/decode')!
+    const readByte = processor.findFrameById('root/main/handle/decode/readByte')!
+
+    expect(handle.value).toBe(4000000)
+    expect(handle.selfValue).toBe(1000000)
+    expect(decode.value).toBe(3000000)
+    expect(readByte.value).toBe(3000000)
+    expect(readByte.depth).toBe(4)
+  })
+
+  test('marks all but the outermost function of a location as inlined', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile)
+
+    expect(processor.findFrameById('root/main')!.inlined).toBe(false)
+    expect(processor.findFrameById('root/main/handle')!.inlined).toBe(false)
+    expect(processor.findFrameById('root/main/handle/decode')!.inlined).toBe(true)
+    expect(processor.findFrameById('root/main/handle/decode/readByte')!.inlined).toBe(true)
+  })
+
+  test('starts the inverted tree at the innermost inlined function', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile, false, undefined, undefined, true)
+
+    const readByte = processor.findFrameById('root/readByte')!
+    expect(readByte.value).toBe(3000000)
+    expect(readByte.inlined).toBe(true)
+    expect(processor.findFrameById('root/readByte/decode/handle/main')).not.toBeNull()
+  })
+})
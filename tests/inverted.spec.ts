@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test'
+import { createProfile, FlameGraphTestUtils } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'handleRequest', 'JSON.parse'], count: 4 },
+  { stack: ['main', 'loadConfig', 'JSON.parse'], count: 3 },
+  { stack: ['main', 'handleRequest'], count: 2 },
+  { stack: ['main', 'loadConfig'], count: 1 }
+])
+
+test.describe('Inverted Flame Graph', () => {
+  test('builds the tree from leaf to root', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    const root = processor.processProfile(profile, false, undefined, undefined, true)
+
+    expect(root.value).toBe(10000000)
+
+    // Top-level frames are the functions samples ended in, sized by self time
+    expect(root.children.map(child => child.name).sort()).toEqual(['JSON.parse', 'handleRequest', 'loadConfig'])
+    expect(processor.findFrameById('root/JSON.parse')?.value).toBe(7000000)
+    expect(processor.findFrameById('root/handleRequest')?.value).toBe(2000000)
+
+    // Their children are the callers
+    const parse = processor.findFrameById('root/JSON.parse')!
+    expect(parse.children.map(child => child.name).sort()).toEqual(['handleRequest', 'loadConfig'])
+    expect(processor.findFrameById('root/JSON.parse/handleRequest')?.value).toBe(4000000)
+    expect(processor.findFrameById('root/JSON.parse/loadConfig/main')?.depth).toBe(3)
+
+    // The entry point is where every inverted stack ends
+    expect(processor.findFrameById('root/JSON.parse/handleRequest/main')?.selfValue).toBe(4000000)
+  })
+
+  test('keeps the normal tree by default', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    const root = processor.processProfile(profile)
+
+    expect(root.children.map(child => child.name)).toEqual(['main'])
+    expect(processor.findFrameById('root/main/handleRequest/JSON.parse')?.value).toBe(4000000)
+  })
+
+  test('finds the heaviest frame of a function in either tree', async () => {
+    const { getFlameTree } = await import('../src/components/hooks/useFlameTree.js')
+    const { findHeaviestFrame } = await import('../src/utils/frameSearch.js')
+
+    const tree = getFlameTree(profile)
+    expect(findHeaviestFrame(tree, 'JSON.parse')?.id).toBe('root/main/handleRequest/JSON.parse')
+
+    const invertedTree = getFlameTree(profile, { inverted: true })
+    expect(findHeaviestFrame(invertedTree, 'JSON.parse')?.id).toBe('root/JSON.parse')
+    expect(findHeaviestFrame(invertedTree, 'main', 'app.js')?.id).toBe('root/JSON.parse/handleRequest/main')
+    expect(findHeaviestFrame(invertedTree, 'main', 'other.js')).toBeNull()
+  })
+})
+
+test.describe('Invert Controls', () => {
+  test('toggles the inverted flame graph', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true })
+
+    const toggle = page.getByLabel('Invert Stacks')
+    await expect(toggle).not.toBeChecked()
+
+    const canvas = await utils.getCanvasElement()
+    const normal = await canvas.screenshot()
+
+    await toggle.check()
+    await expect(toggle).toBeChecked()
+    await page.waitForTimeout(500)
+    expect((await canvas.screenshot()).equals(normal)).toBe(false)
+
+    await toggle.uncheck()
+    await expect(toggle).not.toBeChecked()
+  })
+
+  test('keeps the selected function when toggled', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true })
+
+    const search = page.getByLabel('Search functions')
+    await search.fill('db.Query')
+    await search.press('Enter')
+    await search.press('Escape')
+
+    const header = page.locator('.stack-details-header')
+    await expect(header).toContainText('db.Query')
+
+    await page.getByLabel('Invert Stacks').check()
+    await expect(header).toContainText('db.Query')
+
+    await page.getByLabel('Invert Stacks').uncheck()
+    await expect(header).toContainText('db.Query')
+  })
+})
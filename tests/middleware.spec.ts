@@ -0,0 +1,244 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'fs'
+import { createServer, type Server } from 'http'
+import { AddressInfo } from 'net'
+import { join } from 'path'
+
+const __dirname = import.meta.dirname
+
+const profileData = readFileSync(join(__dirname, 'fixtures', 'profile.pprof'))
+
+function listen(server: Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+    })
+  })
+}
+
+test.describe('Profiler Routes', () => {
+  let server: Server
+
+  test.afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve))
+  })
+
+  test('captures, lists and serves profiles through Express', async () => {
+    const { default: express } = await import('express')
+    const { createProfilerMiddleware } = await import('../src/middleware.js')
+
+    const calls: Array<[string, number]> = []
+    const app = express()
+    app.use('/profiler', createProfilerMiddleware({
+      capture: async (type, duration) => {
+        calls.push([type, duration])
+        return profileData
+      }
+    }))
+    server = createServer(app)
+    const url = await listen(server)
+
+    const created = await fetch(`${url}/profiler/captures?type=heap&duration=2`, { method: 'POST' })
+    expect(created.status).toBe(201)
+    const capture = await created.json()
+    expect(capture).toMatchObject({ id: 'heap-1', type: 'heap', duration: 2, size: profileData.length })
+    expect(calls).toEqual([['heap', 2]])
+
+    const list = await (await fetch(`${url}/profiler/captures`)).json()
+    expect(list.map((entry: { id: string }) => entry.id)).toEqual(['heap-1'])
+
+    const download = await fetch(`${url}/profiler/captures/heap-1/profile.pb`)
+    expect(Buffer.compare(Buffer.from(await download.arrayBuffer()), profileData)).toBe(0)
+
+    const page = await (await fetch(`${url}/profiler/captures/heap-1`)).text()
+    expect(page).toContain('<script src="/profiler/bundle.js"></script>')
+    expect(page).toContain('profileUrl: "/profiler/captures/heap-1/profile.pb"')
+
+    const index = await (await fetch(`${url}/profiler/`)).text()
+    expect(index).toContain('href="/profiler/captures/heap-1"')
+    expect(index).toContain('action="/profiler/captures?type=cpu&amp;duration=10"')
+
+    // Other paths fall through to the rest of the app
+    expect((await fetch(`${url}/profiler/unknown`)).status).toBe(404)
+  })
+
+  test('redirects form submissions to the flame graph and keeps the newest captures', async () => {
+    const { createProfilerMiddleware } = await import('../src/middleware.js')
+
+    server = createServer(createProfilerMiddleware({ capture: async () => profileData, maxCaptures: 2 }))
+    const url = await listen(server)
+
+    for (let i = 0; i < 3; i++) {
+      const response = await fetch(`${url}/captures?type=cpu&duration=1`, {
+        method: 'POST',
+        headers: { accept: 'text/html' },
+        redirect: 'manual'
+      })
+      expect(response.status).toBe(303)
+      expect(response.headers.get('location')).toBe(`/captures/cpu-${i + 1}`)
+    }
+
+    const list = await (await fetch(`${url}/captures`)).json()
+    expect(list.map((entry: { id: string }) => entry.id)).toEqual(['cpu-3', 'cpu-2'])
+    expect((await fetch(`${url}/captures/cpu-1`)).status).toBe(404)
+  })
+
+  test('rejects invalid and overlapping captures', async () => {
+    const { createProfilerMiddleware } = await import('../src/middleware.js')
+
+    let finish: (data: Uint8Array) => void = () => {}
+    server = createServer(createProfilerMiddleware({
+      capture: () => new Promise(resolve => { finish = resolve }),
+      maxDuration: 30
+    }))
+    const url = await listen(server)
+
+    expect((await fetch(`${url}/captures?type=wall`, { method: 'POST' })).status).toBe(400)
+    expect((await fetch(`${url}/captures?duration=60`, { method: 'POST' })).status).toBe(400)
+
+    const first = fetch(`${url}/captures?type=cpu&duration=1`, { method: 'POST' })
+    await expect.poll(async () => (await fetch(`${url}/captures?type=cpu&duration=1`, { method: 'POST' })).status).toBe(409)
+
+    finish(profileData)
+    expect((await first).status).toBe(201)
+  })
+
+  test('refuses captures sent by pages of other sites', async () => {
+    const { createProfilerMiddleware } = await import('../src/middleware.js')
+
+    const calls: string[] = []
+    server = createServer(createProfilerMiddleware({
+      capture: async type => {
+        calls.push(type)
+        return profileData
+      }
+    }))
+    const url = await listen(server)
+
+    // The simple POST of a form on another site, with and without Sec-Fetch-Site
+    const form = { 'content-type': 'text/plain', accept: 'text/html' }
+    const crossSite = await fetch(`${url}/captures?type=cpu&duration=1`, {
+      method: 'POST',
+      headers: { ...form, origin: 'https://evil.example', 'sec-fetch-site': 'cross-site' },
+      redirect: 'manual'
+    })
+    expect(crossSite.status).toBe(403)
+    const crossOrigin = await fetch(`${url}/captures?type=cpu&duration=1`, {
+      method: 'POST',
+      headers: { ...form, origin: 'https://evil.example' },
+      redirect: 'manual'
+    })
+    expect(crossOrigin.status).toBe(403)
+    expect(calls).toEqual([])
+
+    // The forms of the profiler pages
+    const sameOrigin = await fetch(`${url}/captures?type=cpu&duration=1`, {
+      method: 'POST',
+      headers: { ...form, origin: url, 'sec-fetch-site': 'same-origin' },
+      redirect: 'manual'
+    })
+    expect(sameOrigin.status).toBe(303)
+    expect(calls).toEqual(['cpu'])
+  })
+
+  test('captures, lists and serves profiles through Fastify', async () => {
+    const { default: Fastify } = await import('fastify')
+    const { fastifyProfiler } = await import('../src/middleware.js')
+
+    const app = Fastify()
+    await app.register(fastifyProfiler, { prefix: '/profiler', capture: async () => profileData })
+
+    try {
+      // The forms of the index page post text/plain bodies
+      const created = await app.inject({
+        method: 'POST',
+        url: '/profiler/captures?type=cpu&duration=1',
+        headers: { 'content-type': 'text/plain', accept: 'text/html' },
+        payload: ''
+      })
+      expect(created.statusCode).toBe(303)
+      expect(created.headers.location).toBe('/profiler/captures/cpu-1')
+
+      const download = await app.inject({ method: 'GET', url: '/profiler/captures/cpu-1/profile.pb' })
+      expect(download.statusCode).toBe(200)
+      expect(Buffer.compare(download.rawPayload, profileData)).toBe(0)
+
+      const page = await app.inject({ method: 'GET', url: '/profiler/captures/cpu-1' })
+      expect(page.body).toContain('profileUrl: "/profiler/captures/cpu-1/profile.pb"')
+
+      for (const url of ['/profiler', '/profiler/']) {
+        const index = await app.inject({ method: 'GET', url })
+        expect(index.statusCode).toBe(200)
+        expect(index.body).toContain('href="/profiler/captures/cpu-1"')
+        expect(index.body).toContain('action="/profiler/captures?type=heap&amp;duration=10"')
+      }
+
+      expect((await app.inject({ method: 'GET', url: '/profiler/unknown' })).statusCode).toBe(404)
+    } finally {
+      await app.close()
+    }
+  })
+
+  test('builds the links of Fastify pages from the prefix', async () => {
+    const { default: Fastify } = await import('fastify')
+    const { fastifyProfiler } = await import('../src/middleware.js')
+
+    const app = Fastify()
+    await app.register(fastifyProfiler, { prefix: '/tools&profiler', capture: async () => profileData })
+
+    try {
+      await app.inject({
+        method: 'POST',
+        url: '/tools&profiler/captures?type=cpu&duration=1',
+        headers: { 'content-type': 'text/plain' },
+        payload: ''
+      })
+
+      // Encoded characters in the path leave the links untouched
+      const page = await app.inject({ method: 'GET', url: '/tools&profiler/captures/cpu%2D1' })
+      expect(page.statusCode).toBe(200)
+      expect(page.body).toContain('profileUrl: "/tools&profiler/captures/cpu-1/profile.pb"')
+      expect(page.body).toContain('<script src="/tools&amp;profiler/bundle.js">')
+
+      const index = await app.inject({ method: 'GET', url: '/tools&profiler/' })
+      expect(index.body).toContain('href="/tools&amp;profiler/captures/cpu-1"')
+      expect(index.body).toContain('href="/tools&amp;profiler/captures/cpu-1/profile.pb"')
+      expect(index.body).toContain('action="/tools&amp;profiler/captures?type=cpu&amp;duration=10"')
+    } finally {
+      await app.close()
+    }
+  })
+
+  test('captures CPU and heap profiles with @datadog/pprof', async () => {
+    const { createDatadogCapture } = await import('../src/middleware.js')
+
+    const calls: unknown[][] = []
+    const capture = createDatadogCapture({
+      encode: async profile => {
+        calls.push(['encode', profile])
+        return profileData
+      },
+      time: {
+        profile: async options => {
+          calls.push(['time.profile', options])
+          return 'time profile'
+        }
+      },
+      heap: {
+        start: (intervalBytes, stackDepth) => calls.push(['heap.start', intervalBytes, stackDepth]),
+        stop: () => calls.push(['heap.stop']),
+        profile: () => {
+          calls.push(['heap.profile'])
+          return 'heap profile'
+        }
+      }
+    })
+
+    expect(await capture('cpu', 2)).toBe(profileData)
+    expect(calls).toEqual([['time.profile', { durationMillis: 2000 }], ['encode', 'time profile']])
+
+    calls.length = 0
+    expect(await capture('heap', 0.01)).toBe(profileData)
+    expect(calls).toEqual([['heap.start', 512 * 1024, 64], ['heap.profile'], ['encode', 'heap profile'], ['heap.stop']])
+  })
+})
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test'
+import { generateMockProfile } from './fixtures/mock-data'
+
+test.describe('FlameGraph Orientation', () => {
+  test('icicle orientation places the root on the top row', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(generateMockProfile())
+
+    const frames = processor.generateFrames()
+    const root = frames.find(frame => frame.node.depth === 0)!
+
+    expect(processor.getOrientation()).toBe('icicle')
+    expect(root.y1).toBe(0)
+  })
+
+  test('flame orientation places the root on the bottom row', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(generateMockProfile())
+    processor.setOrientation('flame')
+
+    const frames = processor.generateFrames()
+    const frameHeight = processor.getFrameHeight()
+    const graphHeight = processor.calculateGraphHeight()
+    const root = frames.find(frame => frame.node.depth === 0)!
+
+    expect(root.y2).toBe(graphHeight)
+
+    // Every child sits exactly one row above its parent
+    for (const frame of frames) {
+      if (frame.node.parent) {
+        const parent = frames.find(f => f.node.id === frame.node.parent!.id)!
+        expect(frame.y1).toBe(parent.y1 - frameHeight)
+      }
+    }
+  })
+
+  test('camera rests with the root on the bottom edge in fixed height flame mode', async () => {
+    const { CameraController } = await import('../src/renderer/CameraController.js')
+
+    const camera = new CameraController()
+    camera.setViewport(800, 400)
+    camera.setFixedHeightMode(true)
+    camera.setContentHeight(1000)
+    camera.setOrientation('flame')
+
+    // Content is taller than the viewport, so it starts scrolled to the bottom
+    expect(camera.getCamera().y).toBe(-600)
+
+    // Scrolling towards the leaves moves away from the resting position and stays in bounds
+    camera.scroll(-10000)
+    expect(camera.getCamera().y).toBe(0)
+
+    // Resetting zoom returns to the root row
+    camera.resetZoom()
+    expect(camera.getCamera().targetY).toBe(-600)
+
+    // Content shorter than the viewport sits on the bottom edge
+    camera.setContentHeight(100)
+    expect(camera.getCamera().y).toBe(300)
+  })
+
+  test('camera keeps icicle graphs at the top', async () => {
+    const { CameraController } = await import('../src/renderer/CameraController.js')
+
+    const camera = new CameraController()
+    camera.setViewport(800, 400)
+    camera.setFixedHeightMode(true)
+    camera.setContentHeight(1000)
+
+    expect(camera.getCamera().y).toBe(0)
+
+    camera.zoomToFrame(100, 200)
+    expect(camera.getCamera().targetY).toBe(0)
+  })
+})
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test'
+
+const folded = [
+  'main;handler;query 30',
+  'main;handler;render 20',
+  'main;handler 5',
+  'main;gc 10'
+].join('\n')
+
+test.describe('Profile Report', () => {
+  test('lists the top functions by self value', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { createProfileReport } = await import('../src/report.js')
+
+    const report = createProfileReport(parseFoldedStacks(folded, { sampleType: 'cpu', unit: 'nanoseconds' }), { top: 2 })
+
+    expect(report.totalValue).toBe(65)
+    expect(report.functionCount).toBe(5)
+    expect(report.functions.map(entry => entry.name)).toEqual(['query', 'render'])
+    expect(report.functions[0].selfPercentage).toBeCloseTo(30 / 65)
+  })
+
+  test('sorts by total value', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { createProfileReport } = await import('../src/report.js')
+
+    const report = createProfileReport(parseFoldedStacks(folded), { top: 2, sortBy: 'total' })
+
+    expect(report.functions.map(entry => [entry.name, entry.totalValue])).toEqual([['main', 65], ['handler', 55]])
+  })
+
+  test('formats an aligned table with profile units', async () => {
+    const { parseFoldedStacks } = await import('../src/converters.js')
+    const { createProfileReport, formatProfileReport } = await import('../src/report.js')
+
+    const profile = parseFoldedStacks('main;query 3000000\nmain 1000000\n', { sampleType: 'cpu', unit: 'nanoseconds' })
+    const lines = formatProfileReport(createProfileReport(profile)).split('\n')
+
+    expect(lines[0]).toBe('Top 2 of 2 functions by self time (total 4.00ms)')
+    expect(lines[2]).toBe('Self Time  Self %  Total Time  Total %  Function')
+    expect(lines[3]).toBe('   3.00ms  75.00%      3.00ms   75.00%  query')
+    expect(lines[4]).toBe('   1.00ms  25.00%      4.00ms  100.00%  main')
+  })
+})
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test'
+import { createProfile, FlameGraphTestUtils } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'handleRequest', 'JSON.parse'], count: 4 },
+  { stack: ['main', 'handleRequest', 'JSON.parse', 'reviver'], count: 2 },
+  { stack: ['main', 'loadConfig', 'JSON.parse'], count: 3 },
+  { stack: ['main', 'walk', 'walk', 'walk'], count: 2 },
+  { stack: ['main', 'render'], count: 1 }
+])
+
+test.describe('Sandwich View', () => {
+  test('merges every frame of a function into callers and callees', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile)
+    const sandwich = processor.buildSandwich('JSON.parse', 'app.js')!
+
+    expect(sandwich.callers.name).toBe('JSON.parse')
+    expect(sandwich.callers.value).toBe(9000000)
+    expect(sandwich.callees.value).toBe(9000000)
+
+    // Direct callers first, then their callers
+    const [viaRequest, viaConfig] = sandwich.callers.children
+    expect(viaRequest.name).toBe('handleRequest')
+    expect(viaRequest.value).toBe(6000000)
+    expect(viaRequest.children[0].name).toBe('main')
+    expect(viaConfig.name).toBe('loadConfig')
+    expect(viaConfig.value).toBe(3000000)
+
+    // Callees of all occurrences are merged, and the function's own time is its self value
+    expect(sandwich.callees.children.map(child => child.name)).toEqual(['reviver'])
+    expect(sandwich.callees.children[0].value).toBe(2000000)
+    expect(sandwich.callees.selfValue).toBe(7000000)
+
+    // Both halves are laid out relative to the function
+    expect(sandwich.callers.width).toBe(1)
+    expect(viaRequest.width).toBeCloseTo(2 / 3)
+    expect(viaConfig.x).toBeCloseTo(2 / 3)
+  })
+
+  test('counts recursive calls once', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile)
+    const sandwich = processor.buildSandwich('walk', 'app.js')!
+
+    expect(sandwich.callers.value).toBe(2000000)
+    expect(sandwich.callers.children.map(child => child.name)).toEqual(['main'])
+    expect(sandwich.callees.children[0].name).toBe('walk')
+    expect(sandwich.callees.children[0].children[0].value).toBe(2000000)
+  })
+
+  test('returns null for functions that are not in the tree', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+
+    const processor = new FlameDataProcessor()
+    processor.processProfile(profile)
+
+    expect(processor.buildSandwich('missing')).toBeNull()
+    expect(processor.buildSandwich('JSON.parse', 'other.js')).toBeNull()
+  })
+})
+
+test.describe('Sandwich View Component', () => {
+  test('shows the callers and callees of the function selected in the table', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true, functionTable: true, sandwichView: true })
+
+    const sandwich = page.locator('[data-testid="sandwich-view"]')
+    await expect(sandwich).toBeHidden()
+
+    const table = page.locator('[data-testid="function-table"]')
+    await table.locator('tr', { hasText: 'handler.Process' }).click()
+
+    await expect(page.locator('.stack-details-header')).toContainText('handler.Process')
+    await expect(sandwich).toBeVisible()
+    await expect(sandwich).toContainText('handler.Process')
+    await expect(sandwich).toContainText('of total')
+    await expect(sandwich.getByRole('img', { name: 'Callers' })).toBeVisible()
+    await expect(sandwich.getByRole('img', { name: 'Callees' })).toBeVisible()
+
+    await table.locator('tr', { hasText: 'db.Query' }).click()
+    await expect(sandwich).toContainText('db.Query')
+    await expect(sandwich).not.toContainText('handler.Process')
+  })
+})
@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test'
+import { createProfile, FlameGraphTestUtils } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'handleRequest', 'JSON.parse'], count: 4 },
+  { stack: ['main', 'loadConfig', 'JSON.parse'], count: 3 },
+  { stack: ['main', 'walk', 'walk', 'walk'], count: 2 },
+  { stack: ['main', 'render'], count: 1 }
+])
+
+test.describe('Function Search', () => {
+  test('matches names case-insensitively and lists the heaviest first', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { searchFlameTree } = await import('../src/utils/frameSearch.js')
+
+    const root = new FlameDataProcessor().processProfile(profile)
+    const result = searchFlameTree(root, 'json')
+
+    expect(result.matches.map(node => node.id)).toEqual([
+      'root/main/handleRequest/JSON.parse',
+      'root/main/loadConfig/JSON.parse'
+    ])
+    expect(result.matchedValue).toBe(7000000)
+    expect(result.percentage).toBeCloseTo(0.7)
+  })
+
+  test('does not count nested matches twice', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { searchFlameTree } = await import('../src/utils/frameSearch.js')
+
+    const root = new FlameDataProcessor().processProfile(profile)
+    const result = searchFlameTree(root, 'walk')
+
+    expect(result.matches).toHaveLength(3)
+    expect(result.percentage).toBeCloseTo(0.2)
+
+    // Everything below the root is inside main
+    expect(searchFlameTree(root, /^(main|render)$/).percentage).toBe(1)
+  })
+
+  test('supports regular expressions, including stateful ones', async () => {
+    const { matchesSearchQuery, isActiveSearchQuery } = await import('../src/utils/frameSearch.js')
+
+    const query = /^load/g
+    expect(matchesSearchQuery('loadConfig', query)).toBe(true)
+    expect(matchesSearchQuery('loadConfig', query)).toBe(true)
+    expect(matchesSearchQuery('reload', query)).toBe(false)
+
+    expect(isActiveSearchQuery('')).toBe(false)
+    expect(isActiveSearchQuery('  ')).toBe(false)
+    expect(isActiveSearchQuery(null)).toBe(false)
+    expect(isActiveSearchQuery(/x/)).toBe(true)
+  })
+
+  test('never matches the root frame', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { searchFlameTree } = await import('../src/utils/frameSearch.js')
+
+    const root = new FlameDataProcessor().processProfile(profile)
+    const result = searchFlameTree(root, 'all')
+
+    expect(result.matches).toHaveLength(0)
+    expect(result.percentage).toBe(0)
+  })
+})
+
+test.describe('Search Controls', () => {
+  test('steps through the matches and zooms to them', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true })
+
+    const search = page.getByLabel('Search functions')
+    const status = page.locator('.search-status')
+    await search.fill('db.Query')
+
+    await expect(status).toHaveText(/^\d+ match(es)? · .+ of total$/)
+    const count = parseInt((await status.textContent())!)
+    expect(count).toBeGreaterThan(1)
+
+    const canvas = await utils.getCanvasElement()
+    const before = await canvas.screenshot()
+
+    await search.press('Enter')
+    await expect(status).toHaveText(new RegExp(`^1/${count} matches`))
+    await expect(page.locator('.stack-details-header')).toContainText('db.Query')
+    await page.waitForTimeout(1000) // Wait for zoom animation
+    expect((await canvas.screenshot()).equals(before)).toBe(false)
+
+    await search.press('Enter')
+    await expect(status).toHaveText(new RegExp(`^2/${count} matches`))
+
+    await search.press('Shift+Enter')
+    await search.press('Shift+Enter')
+    await expect(status).toHaveText(new RegExp(`^${count}/${count} matches`))
+    await expect(page.locator('.stack-details-header')).toContainText('db.Query')
+  })
+
+  test('reports when nothing matches and clears on Escape', async ({ page }) => {
+    const utils = new FlameGraphTestUtils(page)
+    await utils.navigateToTest({ fullFlameGraph: true })
+
+    const search = page.getByLabel('Search functions')
+    const status = page.locator('.search-status')
+
+    await search.fill('doesNotExist')
+    await expect(status).toHaveText('No matches')
+
+    await search.press('Escape')
+    await expect(search).toHaveValue('')
+    await expect(status).toBeHidden()
+  })
+})
@@ -1,4 +1,5 @@
 import { Page, expect } from '@playwright/test'
+import { Profile, StringTable, ValueType, Sample, Location, Function, Line } from 'pprof-format'
 
 
 export class FlameGraphTestUtils {
@@ -15,11 +16,15 @@ export class FlameGraphTestUtils {
     hottestControls?: boolean;
     frameDetails?: boolean;
     fullFlameGraph?: boolean;
+    functionTable?: boolean;
+    sandwichView?: boolean;
+    colorScheme?: string;
     flamegraph?: boolean;
     hottestHeight?: number;
     prePopulateStackDetails?: boolean;
     heapProfile?: boolean;
     bigIntProfile?: boolean;
+    theme?: string;
   }) {
     const params = new URLSearchParams()
     if (config?.mode) {params.set('mode', config.mode)}
@@ -28,11 +33,15 @@ export class FlameGraphTestUtils {
     if (config?.hottestControls) {params.set('hottestControls', 'true')}
     if (config?.frameDetails) {params.set('frameDetails', 'true')}
     if (config?.fullFlameGraph) {params.set('fullFlameGraph', 'true')}
+    if (config?.functionTable) {params.set('functionTable', 'true')}
+    if (config?.sandwichView) {params.set('sandwichView', 'true')}
+    if (config?.colorScheme) {params.set('colorScheme', config.colorScheme)}
     if (config?.flamegraph === false) {params.set('flamegraph', 'false')}
     if (config?.hottestHeight) {params.set('hottestHeight', config.hottestHeight.toString())}
     if (config?.prePopulateStackDetails) {params.set('prePopulateStackDetails', 'true')}
     if (config?.heapProfile) {params.set('heapProfile', 'true')}
     if (config?.bigIntProfile) {params.set('bigIntProfile', 'true')}
+    if (config?.theme) {params.set('theme', config.theme)}
 
     const baseUrl = 'http://localhost:3100'
     const url = `${baseUrl}?${params.toString()}`
@@ -340,3 +349,86 @@ export const VIEWPORT_SIZES = [
   { width: 1000, height: 600 },
   { width: 800, height: 600 },
 ]
+
+/**
+ * Build a CPU profile from root-first stacks and their sample counts, of 1ms each
+ * A stack entry is a function name, or the functions of one location listed
+ * innermost first, the way pprof records functions inlined into their caller.
+ *
+ * @param stacks The stacks and how many samples they have
+ * @param options.files The file of each function by name, app.js by default
+ * @param options.sampleCounts Also record a 'samples' count, as the first sample type
+ */
+export function createProfile(
+  stacks: Array<{ stack: Array<string | string[]>, count: number }>,
+  options: { files?: Record<string, string>, sampleCounts?: boolean } = {}
+): Profile {
+  const { files = {}, sampleCounts = false } = options
+  const stringTable = new StringTable()
+  const toLines = (entry: string | string[]) => typeof entry === 'string' ? [entry] : entry
+  const names = [...new Set(stacks.flatMap(s => s.stack.flatMap(toLines)))]
+  const locationKeys = [...new Set(stacks.flatMap(s => s.stack.map(entry => toLines(entry).join('>'))))]
+
+  const functions = names.map((name, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(name),
+    filename: stringTable.dedup(files[name] ?? 'app.js')
+  }))
+  const locations = locationKeys.map((key, i) => new Location({
+    id: i + 1,
+    line: key.split('>').map((name, line) => new Line({ functionId: names.indexOf(name) + 1, line: line + 1 }))
+  }))
+
+  const samples: Sample[] = []
+  for (const { stack, count } of stacks) {
+    for (let i = 0; i < count; i++) {
+      samples.push(new Sample({
+        locationId: stack.map(entry => locationKeys.indexOf(toLines(entry).join('>')) + 1).reverse(),
+        value: sampleCounts ? [1, 1000000] : [1000000]
+      }))
+    }
+  }
+
+  const cpu = new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })
+  return new Profile({
+    sampleType: sampleCounts
+      ? [new ValueType({ type: stringTable.dedup('samples'), unit: stringTable.dedup('count') }), cpu]
+      : [cpu],
+    sample: samples,
+    location: locations,
+    function: functions,
+    stringTable
+  })
+}
+
+/**
+ * Build a CPU profile with one sample per function, each with a distinct name
+ * Large counts make profiles big enough to compress and to arrive in chunks.
+ *
+ * @param functionCount The number of functions
+ */
+export function createProfileWithFunctions(functionCount: number): Profile {
+  const stringTable = new StringTable()
+
+  const functions = Array.from({ length: functionCount }, (_, i) => new Function({
+    id: i + 1,
+    name: stringTable.dedup(`function_${i}`),
+    filename: stringTable.dedup(`file_${i % 7}.js`)
+  }))
+  const locations = functions.map(func => new Location({
+    id: func.id,
+    line: [new Line({ functionId: func.id, line: func.id })]
+  }))
+  const samples = functions.map(func => new Sample({
+    locationId: [func.id],
+    value: [func.id * 1000]
+  }))
+
+  return new Profile({
+    sampleType: [new ValueType({ type: stringTable.dedup('cpu'), unit: stringTable.dedup('nanoseconds') })],
+    sample: samples,
+    location: locations,
+    function: functions,
+    stringTable
+  })
+}
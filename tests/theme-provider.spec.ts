@@ -0,0 +1,57 @@
+import { test, expect, type Page } from '@playwright/test'
+import { FlameGraphTestUtils } from './test-utils'
+
+// The background of the full flame graph comes from the theme
+function getBackgroundColor(page: Page) {
+  return page.locator('[data-testid="full-flamegraph-container"] > div').evaluate(el =>
+    window.getComputedStyle(el).backgroundColor
+  )
+}
+
+test.describe('ThemeProvider', () => {
+  test.describe('without a theme', () => {
+    test.use({ colorScheme: 'light' })
+
+    test('applies the light theme when light is preferred', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true, theme: 'system' })
+
+      expect(await getBackgroundColor(page)).toBe('rgb(255, 255, 255)')
+      await expect(page.getByLabel('Search functions')).toHaveCSS('color', 'rgb(31, 35, 40)')
+    })
+
+    test('switches theme when the preferred color scheme changes', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true, theme: 'system' })
+
+      await page.emulateMedia({ colorScheme: 'dark' })
+      await expect.poll(() => getBackgroundColor(page)).toBe('rgb(30, 30, 30)')
+      await expect(page.getByLabel('Search functions')).toHaveCSS('color', 'rgb(255, 255, 255)')
+
+      await page.emulateMedia({ colorScheme: 'light' })
+      await expect.poll(() => getBackgroundColor(page)).toBe('rgb(255, 255, 255)')
+    })
+
+    test('falls back to the dark theme without a preferred color scheme', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true, theme: 'system' })
+
+      await page.emulateMedia({ colorScheme: 'no-preference' })
+      await expect.poll(() => getBackgroundColor(page)).toBe('rgb(30, 30, 30)')
+    })
+  })
+
+  test.describe('with a theme', () => {
+    test.use({ colorScheme: 'light' })
+
+    test('ignores the preferred color scheme', async ({ page }) => {
+      const utils = new FlameGraphTestUtils(page)
+      await utils.navigateToTest({ fullFlameGraph: true, theme: 'high-contrast' })
+
+      expect(await getBackgroundColor(page)).toBe('rgb(0, 0, 0)')
+
+      await page.emulateMedia({ colorScheme: 'dark' })
+      expect(await getBackgroundColor(page)).toBe('rgb(0, 0, 0)')
+    })
+  })
+})
@@ -0,0 +1,180 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'fs'
+import { createServer } from 'http'
+import { AddressInfo } from 'net'
+import { join } from 'path'
+import { createProfile } from './test-utils'
+
+const profile = createProfile([
+  { stack: ['main', 'handler', 'db.query'], count: 3 },
+  { stack: ['main', 'handler'], count: 1 },
+  { stack: ['main', 'gc'], count: 2 }
+])
+
+test.describe('Profile Worker', () => {
+  test('packs and unpacks a tree without losing frames', async () => {
+    const { FlameDataProcessor } = await import('../src/renderer/FlameDataProcessor.js')
+    const { packFlameTree, unpackFlameTree } = await import('../src/utils/packedFlameTree.js')
+
+    const processor = new FlameDataProcessor()
+    const root = processor.processProfile(profile, false, undefined, createProfile([{ stack: ['main', 'gc'], count: 1 }]))
+    const tree = unpackFlameTree(packFlameTree(root, processor.getProfileMetadata()!))
+
+    const flatten = (node: typeof root): Array<Record<string, unknown>> => [
+      {
+        id: node.id,
+        name: node.name,
+        value: node.value,
+        selfValue: node.selfValue,
+        sampleCount: node.sampleCount,
+        depth: node.depth,
+        x: node.x,
+        width: node.width,
+        fileName: node.fileName,
+        lineNumber: node.lineNumber,
+        baseValue: node.baseValue
+      },
+      ...node.children.flatMap(flatten)
+    ]
+
+    expect(flatten(tree.root)).toEqual(flatten(root))
+    expect(tree.nodes.get('root/main/handler/db.query')!.parent).toBe(tree.nodes.get('root/main/handler'))
+    expect(tree.profileMetadata).toEqual(processor.getProfileMetadata())
+  })
+
+  test('loads a profile from bytes and builds trees for any options', async () => {
+    const { createProfileWorkerHandler } = await import('../src/worker/handler.js')
+    const { unpackFlameTree } = await import('../src/utils/packedFlameTree.js')
+
+    const responses: any[] = []
+    const transfers: Transferable[][] = []
+    const handle = createProfileWorkerHandler((response, transfer) => {
+      responses.push(response)
+      transfers.push(transfer)
+    })
+
+    const bytes = profile.encode()
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+    handle({ id: 1, type: 'load', buffer })
+    handle({ id: 2, type: 'build', options: {} })
+    await handle({ id: 3, type: 'build', options: { inverted: true } })
+
+    expect(responses.map(response => `${response.id}:${response.type}`)).toEqual([
+      '1:progress', '1:loaded',
+      '2:progress', '2:tree',
+      '3:progress', '3:tree'
+    ])
+    expect(responses[0].progress).toEqual({ stage: 'fetching' })
+    expect(responses[2].progress).toEqual({ stage: 'building' })
+
+    // The typed arrays are transferred rather than copied
+    expect(transfers[3].length).toBe(3)
+
+    const tree = unpackFlameTree(responses[3].tree)
+    expect(tree.root.value).toBe(6000000)
+    expect(tree.nodes.get('root/main/handler/db.query')!.value).toBe(3000000)
+
+    const invertedTree = unpackFlameTree(responses[5].tree)
+    expect(invertedTree.nodes.get('root/db.query/handler/main')!.value).toBe(3000000)
+  })
+
+  test('forwards the downloaded bytes while fetching a profile', async () => {
+    const { createProfileWorkerHandler } = await import('../src/worker/handler.js')
+
+    const bytes = Buffer.from(profile.encode())
+    const server = createServer((_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/octet-stream', 'content-length': bytes.length })
+      response.write(bytes.subarray(0, 10))
+      setTimeout(() => response.end(bytes.subarray(10)), 20)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    try {
+      const responses: any[] = []
+      const handle = createProfileWorkerHandler(response => responses.push(response))
+      await handle({ id: 1, type: 'load', url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/profile.pb` })
+
+      const progress = responses.filter(response => response.type === 'progress').map(response => response.progress)
+      expect(progress[0]).toEqual({ stage: 'fetching' })
+      expect(progress.slice(1).every(({ stage, total }) => stage === 'fetching' && total === bytes.length)).toBe(true)
+      expect(progress.at(-1).loaded).toBe(bytes.length)
+      expect(progress.length).toBeGreaterThan(2)
+      expect(responses.at(-1)).toEqual({ id: 1, type: 'loaded' })
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+
+  test('transfers the bytes of a profile to the worker', async () => {
+    const { ProfileWorker } = await import('../src/worker/ProfileWorker.js')
+    const { createProfileWorkerHandler } = await import('../src/worker/handler.js')
+
+    // Runs the worker side in this thread, moving messages like postMessage does
+    const transfers: Transferable[][] = []
+    const fakeWorker = {
+      onmessage: null as ((event: { data: unknown }) => void) | null,
+      onerror: null,
+      postMessage(request: any, transfer: Transferable[] = []) {
+        transfers.push(transfer)
+        handle(structuredClone(request, { transfer }))
+      },
+      terminate() {}
+    }
+    const handle = createProfileWorkerHandler(response => fakeWorker.onmessage?.({ data: response }))
+    const worker = new ProfileWorker(fakeWorker as unknown as Worker)
+
+    const bytes = profile.encode()
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+    await worker.load(buffer)
+
+    expect(transfers[0]).toEqual([buffer])
+    expect(buffer.byteLength).toBe(0)
+
+    const tree = await worker.buildTree()
+    expect(tree.root.value).toBe(6000000)
+    expect(transfers[1]).toEqual([])
+  })
+
+  test('reports an error when building before a profile is loaded', async () => {
+    const { createProfileWorkerHandler } = await import('../src/worker/handler.js')
+
+    const responses: any[] = []
+    const handle = createProfileWorkerHandler(response => responses.push(response))
+
+    await handle({ id: 1, type: 'build', options: {} })
+
+    expect(responses).toEqual([{ id: 1, type: 'error', message: 'No profile has been loaded' }])
+  })
+
+  test('ships the worker as a single file', async () => {
+    const code = readFileSync(join(process.cwd(), 'dist', 'worker', 'profile.worker.js'), 'utf8')
+
+    // Browsers cannot resolve bare imports such as pprof-format in a worker
+    expect(code).not.toMatch(/\bimport\s*[{*"']/)
+    expect(code).toContain('onmessage')
+  })
+
+  test('starts the bundled worker in the browser', async ({ page }) => {
+    await page.goto('/')
+
+    const responses = await page.evaluate(bytes => new Promise<string[]>((resolve, reject) => {
+      const worker = new Worker('/dist/worker/profile.worker.js', { type: 'module' })
+      const received: string[] = []
+
+      worker.onerror = event => reject(new Error(event.message))
+      worker.onmessage = event => {
+        received.push(`${event.data.id}:${event.data.type}`)
+        if (event.data.id === 2 && event.data.type !== 'progress') {
+          worker.terminate()
+          resolve(received)
+        }
+      }
+
+      worker.postMessage({ id: 1, type: 'load', buffer: new Uint8Array(bytes).buffer })
+      worker.postMessage({ id: 2, type: 'build', options: {} })
+    }), Array.from(profile.encode()))
+
+    expect(responses).toEqual(['1:progress', '1:loaded', '2:progress', '2:tree'])
+  })
+})